@@ -0,0 +1,130 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { run, type CliIO } from "./drive-link";
+
+const DOC = "https://docs.google.com/document/d/1AbCdEf/edit";
+const FILE = "https://drive.google.com/file/d/2GhIjKl/view";
+
+// Captures what run() writes; stdin serves the given text
+function io(stdin = "") {
+  const out = { stdout: "", stderr: "", stdinRead: false };
+  const streams: CliIO = {
+    stdin: async () => {
+      out.stdinRead = true;
+      return stdin;
+    },
+    stdout: (text) => {
+      out.stdout += text;
+    },
+    stderr: (text) => {
+      out.stderr += text;
+    },
+  };
+  return { out, streams };
+}
+
+describe("drive-link convert", () => {
+  let dir: string;
+  let listFile: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "drive-link-"));
+    listFile = join(dir, "links.txt");
+    await writeFile(listFile, `${DOC}\n${FILE}\n`);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("prints one export URL per link and exits 0", async () => {
+    const { out, streams } = io();
+    expect(await run(["convert", DOC, FILE], streams)).toBe(0);
+    const lines = out.stdout.trim().split("\n");
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toContain("1AbCdEf");
+    expect(lines[1]).toContain("2GhIjKl");
+    expect(out.stderr).toBe("");
+    expect(out.stdinRead).toBe(false);
+  });
+
+  it("reads links from stdin without arguments", async () => {
+    const { out, streams } = io(`${DOC}\n`);
+    expect(await run(["convert"], streams)).toBe(0);
+    expect(out.stdinRead).toBe(true);
+    expect(out.stdout).toContain("1AbCdEf");
+  });
+
+  it("reads links from --file, and from stdin with --file -", async () => {
+    const fromFile = io();
+    expect(await run(["convert", "--file", listFile], fromFile.streams)).toBe(
+      0,
+    );
+    expect(fromFile.out.stdout.trim().split("\n")).toHaveLength(2);
+
+    const fromStdin = io(`${FILE}\n`);
+    expect(await run(["convert", "--file", "-"], fromStdin.streams)).toBe(0);
+    expect(fromStdin.out.stdinRead).toBe(true);
+    expect(fromStdin.out.stdout).toContain("2GhIjKl");
+  });
+
+  it("honours --type and --format", async () => {
+    const { out, streams } = io();
+    expect(
+      await run(["convert", DOC, "-t", "pdf", "-f", "json"], streams),
+    ).toBe(0);
+    const rows = JSON.parse(out.stdout);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ line: 1, input: DOC, type: "pdf" });
+    expect(rows[0].exportUrl).toContain("format=pdf");
+  });
+
+  it("exits 1 and reports the line when a link fails", async () => {
+    const { out, streams } = io();
+    expect(await run(["convert", DOC, "not a link"], streams)).toBe(1);
+    expect(out.stdout.trim().split("\n")).toHaveLength(1);
+    expect(out.stderr).toMatch(/^line 2: \[/);
+  });
+
+  it("exits 2 on bad usage", async () => {
+    const cases = [
+      [],
+      ["export", DOC],
+      ["convert", DOC, "--type", "zip"],
+      ["convert", DOC, "--format", "xml"],
+      ["convert", DOC, "--viewer", "nope"],
+      ["convert", DOC, "--bogus"],
+      ["convert", "--file", join(dir, "missing.txt")],
+    ];
+    for (const args of cases) {
+      const { out, streams } = io();
+      expect(await run(args, streams), args.join(" ")).toBe(2);
+      expect(out.stderr).not.toBe("");
+      expect(out.stdout).toBe("");
+    }
+  });
+
+  it("exits 2 when there are no links", async () => {
+    const { out, streams } = io("\n\n");
+    expect(await run(["convert"], streams)).toBe(2);
+    expect(out.stderr).toContain("No links to convert.");
+  });
+
+  it("rejects links given both as arguments and with --file", async () => {
+    for (const file of ["-", listFile]) {
+      const { out, streams } = io(`${FILE}\n`);
+      expect(await run(["convert", DOC, "--file", file], streams)).toBe(2);
+      expect(out.stderr).toContain("not both");
+      expect(out.stdinRead).toBe(false);
+      expect(out.stdout).toBe("");
+    }
+  });
+
+  it("prints the usage for --help", async () => {
+    const { out, streams } = io();
+    expect(await run(["--help"], streams)).toBe(0);
+    expect(out.stdout).toMatch(/^Usage: drive-link convert/);
+  });
+});
@@ -0,0 +1,200 @@
+import { readFile } from "node:fs/promises";
+import { realpathSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import {
+  FILE_TYPES,
+  VIEWER_LABELS,
+  batchToCsv,
+  batchToJson,
+  convertBatch,
+  formatDiagnostic,
+  isFileType,
+  isViewerKind,
+  type BatchRow,
+  type FileTypeChoice,
+} from "../src/lib";
+
+/**
+ * drive-link CLI
+ * --------------------------------
+ * Same conversions as the web page, for scripts and CI:
+ *
+ *   drive-link convert <url...> [--type pdf] [--format json|csv|text]
+ *   drive-link convert --file links.txt
+ *   cat links.txt | drive-link convert
+ *
+ * Exit codes: 0 all links converted, 1 at least one row has an error,
+ * 2 bad usage. Build scripts can also import run() and skip the process.
+ */
+
+export type OutputFormat = "json" | "csv" | "text";
+
+// Where run() reads and writes; defaults to the real process streams
+export type CliIO = {
+  stdin: () => Promise<string>;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+};
+
+const FORMATS: OutputFormat[] = ["json", "csv", "text"];
+
+const USAGE = `Usage: drive-link convert [url...] [options]
+
+Converts Google Drive / Docs links to direct export links.
+Links come from the arguments, --file, or stdin (one per line, CSV is fine).
+
+Options:
+  -t, --type <type>      auto (default), ${FILE_TYPES.map((t) => t.key).join(", ")}
+  -f, --format <format>  text (default), json, csv
+      --file <path>      read links from a file ("-" for stdin) instead of the arguments
+      --viewer <viewer>  previewUrl viewer: ${Object.keys(VIEWER_LABELS).join(", ")}
+      --ms-viewer        same as --viewer office
+      --large-file       Drive downloads skip the virus-scan page (default for video/audio)
+      --no-large-file    always use the standard uc?export=download link
+  -h, --help             show this help
+`;
+
+async function readStdin() {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const processIO: CliIO = {
+  stdin: readStdin,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+export function formatRows(rows: BatchRow[], format: OutputFormat): string {
+  if (format === "json") return batchToJson(rows);
+  if (format === "csv") return batchToCsv(rows);
+  // text: one export URL per converted link, errors go to stderr
+  return rows
+    .filter((r) => r.result.exportUrl)
+    .map((r) => `${r.result.exportUrl}\n`)
+    .join("");
+}
+
+export async function run(
+  argv: string[],
+  io: CliIO = processIO,
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        type: { type: "string", short: "t", default: "auto" },
+        format: { type: "string", short: "f", default: "text" },
+        file: { type: "string" },
+        viewer: { type: "string" },
+        "ms-viewer": { type: "boolean", default: false },
+        "large-file": { type: "boolean" },
+        "no-large-file": { type: "boolean" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (err) {
+    io.stderr(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...urls] = positionals;
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+  if (command !== "convert") {
+    io.stderr(command ? `Unknown command: ${command}\n\n${USAGE}` : USAGE);
+    return 2;
+  }
+
+  const type = values.type;
+  if (type !== "auto" && !isFileType(type)) {
+    io.stderr(`Unknown --type: ${type}\n\n${USAGE}`);
+    return 2;
+  }
+  const format = values.format as OutputFormat;
+  if (!FORMATS.includes(format)) {
+    io.stderr(`Unknown --format: ${values.format}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const viewer = values.viewer ?? (values["ms-viewer"] ? "office" : undefined);
+  if (viewer !== undefined && !isViewerKind(viewer)) {
+    io.stderr(`Unknown --viewer: ${viewer}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.file && urls.length) {
+    io.stderr(`Pass links as arguments or with --file, not both.\n\n${USAGE}`);
+    return 2;
+  }
+
+  let text: string;
+  try {
+    if (values.file && values.file !== "-") {
+      text = await readFile(values.file, "utf8");
+    } else if (urls.length) {
+      text = urls.join("\n");
+    } else {
+      text = await io.stdin();
+    }
+  } catch (err) {
+    io.stderr(`Could not read input: ${(err as Error).message}\n`);
+    return 2;
+  }
+
+  const rows = convertBatch(text, type as FileTypeChoice, {
+    viewer,
+    largeFile: values["no-large-file"] ? false : values["large-file"],
+  });
+  if (!rows.length) {
+    io.stderr(`No links to convert.\n\n${USAGE}`);
+    return 2;
+  }
+
+  io.stdout(formatRows(rows, format));
+
+  const failed = rows.filter((r) => r.result.error);
+  if (format === "text") {
+    for (const r of failed) {
+      const error = r.result.error!;
+      io.stderr(
+        `line ${r.line}: [${error.code}] ${formatDiagnostic(error)} (${r.input})\n`,
+      );
+    }
+  }
+  return failed.length ? 1 : 0;
+}
+
+// Run when executed directly (node dist-cli/drive-link.js, npx drive-link),
+// not when imported
+function isMain() {
+  if (!process.argv[1]) return false;
+  try {
+    return (
+      realpathSync(process.argv[1]) ===
+      realpathSync(fileURLToPath(import.meta.url))
+    );
+  } catch {
+    return false;
+  }
+}
+
+if (isMain()) {
+  run(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (err) => {
+      process.stderr.write(`${(err as Error).stack ?? err}\n`);
+      process.exitCode = 2;
+    },
+  );
+}
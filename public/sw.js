@@ -0,0 +1,85 @@
+/**
+ * Service worker
+ * --------------------------------
+ * Caches the app shell so the converter works offline (conversion is
+ * pure client-side). Navigations are network-first with the cached page as
+ * fallback; built assets are content-hashed, so cache-first is safe.
+ * Bump CACHE to drop everything cached by older versions.
+ */
+
+const CACHE = "drive-link-converter-v1";
+const SHELL = ["/", "/manifest.json", "/favicon.png"];
+
+// Vite hashes asset names, so read them from the live index.html
+async function shellAssets() {
+  const res = await fetch("/", { cache: "no-cache" });
+  const html = await res.clone().text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map(
+    (m) => m[1],
+  );
+  return { res, assets };
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE);
+      const { res, assets } = await shellAssets();
+      await cache.put("/", res);
+      await cache.addAll([...SHELL.slice(1), ...assets]);
+      await self.skipWaiting();
+    })(),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(
+        keys.filter((k) => k !== CACHE).map((k) => caches.delete(k)),
+      );
+      await self.clients.claim();
+    })(),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Previews, exports and health checks go to Google and co.: never cache
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  // Page loads (including ?url=… and share_target landings): the query
+  // string is read client-side, so every navigation can use the shell.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      (async () => {
+        try {
+          const res = await fetch(request);
+          if (res.ok) {
+            const cache = await caches.open(CACHE);
+            await cache.put("/", res.clone());
+          }
+          return res;
+        } catch {
+          return (await caches.match("/")) ?? Response.error();
+        }
+      })(),
+    );
+    return;
+  }
+
+  event.respondWith(
+    (async () => {
+      const cached = await caches.match(request);
+      if (cached) return cached;
+      const res = await fetch(request);
+      if (res.ok && url.pathname.startsWith("/assets/")) {
+        const cache = await caches.open(CACHE);
+        await cache.put(request, res.clone());
+      }
+      return res;
+    })(),
+  );
+});
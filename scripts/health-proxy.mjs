@@ -0,0 +1,64 @@
+// Local CORS proxy for the "Check link" health checks:
+//   npm run health:proxy
+//   VITE_HEALTH_PROXY="http://localhost:8788/?url=" npm run dev
+// GET /?url=<encoded URL> fetches the URL (following redirects) and relays
+// the status, content type and body, with the URL the redirects ended at
+// in X-Final-Url. Only Google hosts are proxied.
+import { createServer } from "node:http";
+import { Readable } from "node:stream";
+
+const PORT = Number(process.env.PORT ?? 8788);
+const ALLOWED = /(^|\.)(google\.com|googleusercontent\.com)$/;
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Expose-Headers": "X-Final-Url",
+    ...headers,
+  });
+  res.end(body);
+}
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, "");
+
+  const target = new URL(req.url ?? "/", "http://localhost").searchParams.get(
+    "url",
+  );
+  let url;
+  try {
+    url = new URL(target ?? "");
+  } catch {
+    return send(res, 400, "Expected ?url=<encoded URL>");
+  }
+  if (url.protocol !== "https:" || !ALLOWED.test(url.hostname)) {
+    return send(res, 403, "Only Google URLs are proxied");
+  }
+
+  const controller = new AbortController();
+  // The checker stops reading early; stop fetching too
+  res.on("close", () => controller.abort());
+  let upstream;
+  try {
+    upstream = await fetch(url, {
+      redirect: "follow",
+      signal: controller.signal,
+    });
+  } catch (e) {
+    return send(res, 502, `Fetch failed: ${e.message}`);
+  }
+
+  const contentType = upstream.headers.get("content-type");
+  res.writeHead(upstream.status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Expose-Headers": "X-Final-Url",
+    ...(contentType ? { "Content-Type": contentType } : {}),
+    "X-Final-Url": upstream.url,
+  });
+  if (!upstream.body) return res.end();
+  Readable.fromWeb(upstream.body)
+    .on("error", () => res.destroy())
+    .pipe(res);
+}).listen(PORT, () => {
+  console.log(`Health-check proxy on http://localhost:${PORT}/?url=`);
+});
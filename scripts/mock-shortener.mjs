@@ -0,0 +1,52 @@
+// Local stand-in for a link shortener, for trying the "Shorten" button:
+//   npm run mock:shortener
+//   VITE_SHORTENER_URL="http://localhost:8787/shorten" npm run dev
+// POST /shorten {"url": "..."} -> {"shortUrl": "http://localhost:8787/<code>"}
+// GET /<code> redirects to the long URL. Links live in memory only.
+import { createServer } from "node:http";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const links = new Map();
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+    ...headers,
+  });
+  res.end(body);
+}
+
+createServer(async (req, res) => {
+  if (req.method === "OPTIONS") return send(res, 204, "");
+
+  if (req.method === "POST" && req.url === "/shorten") {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+    let url;
+    try {
+      url = JSON.parse(body).url;
+    } catch {
+      // fall through to the 400 below
+    }
+    if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+      return send(res, 400, JSON.stringify({ error: 'Expected {"url"}' }));
+    }
+    const code = (links.size + 1).toString(36).padStart(4, "0");
+    links.set(code, url);
+    return send(
+      res,
+      200,
+      JSON.stringify({ shortUrl: `http://localhost:${PORT}/${code}` }),
+      { "Content-Type": "application/json" },
+    );
+  }
+
+  const target = links.get(req.url?.slice(1) ?? "");
+  if (req.method === "GET" && target) {
+    return send(res, 302, "", { Location: target });
+  }
+  send(res, 404, "Not found");
+}).listen(PORT, () => {
+  console.log(`Mock shortener on http://localhost:${PORT}/shorten`);
+});
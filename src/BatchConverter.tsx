@@ -0,0 +1,331 @@
+import { useMemo, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  AlertTriangle,
+  Check,
+  Copy,
+  FileDown,
+  Upload,
+  RotateCcw,
+  ShieldCheck,
+} from "lucide-react";
+import {
+  FILE_TYPES,
+  batchToCsv,
+  batchToJson,
+  checkUrlHealth,
+  convertBatch,
+  type FileTypeChoice,
+  type LinkHealth,
+} from "./lib";
+import DiagnosticList from "./DiagnosticList";
+import HealthBadge from "./HealthBadge";
+import { healthCheckOptions } from "./config";
+import { translateDiagnostic, useI18n } from "./i18n";
+import { classNames, copyText, downloadText } from "./ui";
+
+/**
+ * Batch mode
+ * --------------------------------
+ * Paste many links (one per line, or CSV rows) or drop a .txt/.csv file.
+ * Every link goes through convertLink with the selected type and the
+ * results are listed in a table that can be copied or exported.
+ */
+
+const ACCEPTED_FILES = ".txt,.csv,text/plain,text/csv";
+
+// Parallel health checks; keeps Google from rate-limiting us
+const CHECK_CONCURRENCY = 4;
+
+export default function BatchConverter({
+  type,
+  onTypeChange,
+}: {
+  type: FileTypeChoice;
+  onTypeChange: (type: FileTypeChoice) => void;
+}) {
+  const { t } = useI18n();
+  const [text, setText] = useState("");
+  const [dragging, setDragging] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  // Export URL -> health (null while checking)
+  const [health, setHealth] = useState<Map<string, LinkHealth | null>>(
+    () => new Map(),
+  );
+
+  const rows = useMemo(() => convertBatch(text, type), [text, type]);
+  const failed = rows.filter((r) => r.result.error).length;
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    setText(await file.text());
+  }
+
+  async function copyAll() {
+    const urls = rows
+      .map((r) => r.result.exportUrl)
+      .filter((u): u is string => !!u);
+    await copyText(urls.join("\n"));
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1200);
+  }
+
+  async function checkAll() {
+    const queue = [
+      ...new Map(
+        rows
+          .filter((r) => r.result.exportUrl && r.result.type)
+          .map((r) => [r.result.exportUrl!, r.result.type!] as const),
+      ),
+    ];
+    setHealth(new Map(queue.map(([url]) => [url, null])));
+
+    async function worker() {
+      for (let next = queue.shift(); next; next = queue.shift()) {
+        const [url, type] = next;
+        try {
+          const h = await checkUrlHealth(url, type, healthCheckOptions);
+          setHealth((prev) => new Map(prev).set(url, h));
+        } catch {
+          // Leave the row unchecked rather than pending
+          setHealth((prev) => {
+            const map = new Map(prev);
+            map.delete(url);
+            return map;
+          });
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: CHECK_CONCURRENCY }, worker));
+  }
+
+  const hasRows = rows.length > 0;
+  const checking = [...health.values()].some((h) => h === null);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-8 space-y-6"
+    >
+      <div className="rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm font-medium">{t("batch.paste")}</div>
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-slate-500 dark:text-slate-400">
+              {t("files.type")}
+            </label>
+            <select
+              value={type}
+              onChange={(e) => onTypeChange(e.target.value as FileTypeChoice)}
+              className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm dark:border-slate-800 dark:bg-slate-950"
+            >
+              <option value="auto">{t("files.type.auto")}</option>
+              {FILE_TYPES.map(({ key }) => (
+                <option key={key} value={key}>
+                  {t(`type.${key}.label`)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+            >
+              <Upload className="h-3.5 w-3.5" />
+              {t("files.open")}
+            </button>
+            <button
+              onClick={() => setText("")}
+              className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              {t("page.reset")}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={(e) => {
+                void loadFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            void loadFile(e.dataTransfer.files[0]);
+          }}
+          rows={8}
+          placeholder={t("batch.placeholder")}
+          className={classNames(
+            "mt-3 w-full resize-y rounded-2xl border bg-white px-4 py-3 font-mono text-xs outline-none transition focus:border-slate-900 dark:bg-slate-950 dark:focus:border-white",
+            dragging
+              ? "border-dashed border-slate-900 dark:border-white"
+              : "border-slate-200 dark:border-slate-800",
+          )}
+        />
+      </div>
+
+      <div className="rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm font-medium">{t("batch.results")}</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              {hasRows
+                ? t(rows.length === 1 ? "batch.summary.one" : "batch.summary", {
+                    count: rows.length,
+                    failed,
+                  })
+                : t("files.results.empty")}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={copyAll}
+              disabled={!hasRows}
+              className={classNames(
+                "inline-flex items-center justify-center gap-2 rounded-2xl px-3 py-2 text-sm font-semibold transition",
+                hasRows
+                  ? "bg-slate-900 text-white hover:opacity-90 dark:bg-white dark:text-slate-950"
+                  : "cursor-not-allowed bg-slate-200 text-slate-500 dark:bg-slate-800 dark:text-slate-400",
+              )}
+            >
+              {copied ? (
+                <>
+                  <Check className="h-4 w-4" />
+                  {t("page.copied")}
+                </>
+              ) : (
+                <>
+                  <Copy className="h-4 w-4" />
+                  {t("batch.copy-all")}
+                </>
+              )}
+            </button>
+            <button
+              onClick={checkAll}
+              disabled={!hasRows || checking}
+              className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+            >
+              <ShieldCheck className="h-4 w-4" />
+              {t("batch.check-all")}
+            </button>
+            {(["csv", "json"] as const).map((format) => (
+              <button
+                key={format}
+                disabled={!hasRows}
+                onClick={() =>
+                  format === "csv"
+                    ? downloadText(
+                        "drive-links.csv",
+                        batchToCsv(rows),
+                        "text/csv",
+                      )
+                    : downloadText(
+                        "drive-links.json",
+                        batchToJson(rows),
+                        "application/json",
+                      )
+                }
+                className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+              >
+                <FileDown className="h-4 w-4" />
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {hasRows && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full min-w-[900px] text-start text-xs">
+              <thead className="text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="px-2 py-2 font-medium">#</th>
+                  <th className="px-2 py-2 font-medium">{t("table.type")}</th>
+                  <th className="px-2 py-2 font-medium">
+                    {t("table.file-id")}
+                  </th>
+                  <th className="px-2 py-2 font-medium">
+                    {t("table.export-url")}
+                  </th>
+                  <th className="px-2 py-2 font-medium">
+                    {t("table.preview-url")}
+                  </th>
+                  <th className="px-2 py-2 font-medium">{t("table.status")}</th>
+                  <th className="px-2 py-2 font-medium">{t("table.notes")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r, i) => (
+                  <tr
+                    key={i}
+                    className="border-t border-slate-200 align-top dark:border-slate-800"
+                  >
+                    <td className="px-2 py-2 text-slate-500 dark:text-slate-400">
+                      {r.line}
+                    </td>
+                    <td
+                      className="whitespace-nowrap px-2 py-2"
+                      title={
+                        r.result.detection &&
+                        t(r.result.detection.key, r.result.detection.params)
+                      }
+                    >
+                      {r.result.type ? t(`type.${r.result.type}.label`) : "—"}
+                    </td>
+                    <td className="px-2 py-2 font-mono">
+                      {r.result.fileId ?? "—"}
+                    </td>
+                    <td className="break-all px-2 py-2">
+                      {r.result.exportUrl ?? "—"}
+                    </td>
+                    <td className="break-all px-2 py-2 text-slate-600 dark:text-slate-300">
+                      {r.result.previewUrl ?? "—"}
+                    </td>
+                    <td className="px-2 py-2">
+                      {r.result.exportUrl && health.has(r.result.exportUrl) && (
+                        <HealthBadge
+                          health={health.get(r.result.exportUrl) ?? null}
+                        />
+                      )}
+                    </td>
+                    <td className="px-2 py-2 text-slate-600 dark:text-slate-300">
+                      {r.result.error ? (
+                        <div className="flex items-start gap-1 text-amber-700 dark:text-amber-300">
+                          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                          <span>
+                            {translateDiagnostic(t, r.result.error)}
+                            <span className="block break-all text-slate-500 dark:text-slate-400">
+                              {r.input}
+                            </span>
+                          </span>
+                        </div>
+                      ) : (
+                        <DiagnosticList items={r.result.notes ?? []} />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
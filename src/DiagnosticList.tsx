@@ -0,0 +1,80 @@
+import { AlertTriangle, Info, Wand2, XCircle } from "lucide-react";
+import {
+  actionMessage,
+  sortDiagnostics,
+  type Diagnostic,
+  type DiagnosticAction,
+  type DiagnosticSeverity,
+} from "./lib";
+import { useI18n } from "./i18n";
+import { classNames } from "./ui";
+
+/**
+ * Conversion notes, warnings first. Info stays a quiet bullet; warnings
+ * and errors stand out and show their fix plus a one-click action when
+ * the page can apply it (onAction).
+ */
+
+const STYLES: Record<DiagnosticSeverity, string> = {
+  error: "text-amber-900 dark:text-amber-100",
+  warning: "text-amber-800 dark:text-amber-200",
+  info: "text-slate-600 dark:text-slate-300",
+};
+
+const ICONS: Record<DiagnosticSeverity, typeof Info> = {
+  error: XCircle,
+  warning: AlertTriangle,
+  info: Info,
+};
+
+export default function DiagnosticList({
+  items,
+  onAction,
+}: {
+  items: Diagnostic[];
+  onAction?: (action: DiagnosticAction) => void;
+}) {
+  const { t } = useI18n();
+  if (!items.length) return null;
+
+  return (
+    <div className="space-y-1">
+      {sortDiagnostics(items).map((d, i) => {
+        const Icon = ICONS[d.severity];
+        return (
+          <div
+            key={i}
+            data-code={d.code}
+            className={classNames(
+              "flex items-start gap-1.5 text-xs",
+              STYLES[d.severity],
+            )}
+          >
+            <Icon className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+            <div className="min-w-0">
+              {t(d.key, d.params)}
+              {d.fix && (
+                <span className="text-slate-500 dark:text-slate-400">
+                  {" "}
+                  {t(`${d.key}.fix`, d.params)}
+                </span>
+              )}
+              {d.action && onAction && (
+                <button
+                  onClick={() => onAction(d.action!)}
+                  className="ms-2 inline-flex items-center gap-1 rounded-lg border border-slate-200 bg-white px-1.5 py-0.5 font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200 dark:hover:bg-slate-900"
+                >
+                  <Wand2 className="h-3 w-3" />
+                  {t(
+                    actionMessage(d.action).key,
+                    actionMessage(d.action).params,
+                  )}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
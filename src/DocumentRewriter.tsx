@@ -0,0 +1,329 @@
+import { useMemo, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { Check, Copy, FileDown, RotateCcw, Upload } from "lucide-react";
+import {
+  FILE_TYPES,
+  detectDocumentFormat,
+  rewriteDocument,
+  type DocumentFormat,
+  type FileTypeChoice,
+  type LinkChangeStatus,
+} from "./lib";
+import { Segmented } from "./controls";
+import { useI18n } from "./i18n";
+import { classNames, copyText, downloadText } from "./ui";
+
+/**
+ * Rewrite mode
+ * --------------------------------
+ * Paste or drop a Markdown, HTML or CSV document. Every Google (or other
+ * provider) link in it goes through convertLink and the rewritten document comes back with a
+ * line diff and a changed / skipped / failed summary.
+ */
+
+const ACCEPTED_FILES =
+  ".md,.markdown,.mdx,.html,.htm,.csv,.tsv,.txt,text/markdown,text/html,text/csv,text/plain";
+
+const FORMATS: Array<DocumentFormat | "auto"> = [
+  "auto",
+  "markdown",
+  "html",
+  "csv",
+  "text",
+];
+
+const DOWNLOADS: Record<DocumentFormat, { ext: string; mime: string }> = {
+  markdown: { ext: "md", mime: "text/markdown" },
+  html: { ext: "html", mime: "text/html" },
+  csv: { ext: "csv", mime: "text/csv" },
+  text: { ext: "txt", mime: "text/plain" },
+};
+
+const STATUS_STYLES: Record<LinkChangeStatus, string> = {
+  changed:
+    "bg-emerald-50 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-200",
+  skipped: "bg-slate-100 text-slate-600 dark:bg-slate-900 dark:text-slate-300",
+  failed: "bg-amber-50 text-amber-800 dark:bg-amber-950/40 dark:text-amber-200",
+};
+
+export default function DocumentRewriter({
+  type,
+  onTypeChange,
+}: {
+  type: FileTypeChoice;
+  onTypeChange: (type: FileTypeChoice) => void;
+}) {
+  const { t } = useI18n();
+  const [text, setText] = useState("");
+  const [filename, setFilename] = useState<string | null>(null);
+  const [format, setFormat] = useState<DocumentFormat | "auto">("auto");
+  const [dragging, setDragging] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const rewrite = useMemo(
+    () =>
+      rewriteDocument(
+        text,
+        type,
+        {},
+        format === "auto"
+          ? detectDocumentFormat(text, filename ?? undefined)
+          : format,
+      ),
+    [text, type, format, filename],
+  );
+  const { summary } = rewrite;
+  const hasLinks = rewrite.changes.length > 0;
+
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    setFilename(file.name);
+    setText(await file.text());
+  }
+
+  async function copy() {
+    await copyText(rewrite.output);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1200);
+  }
+
+  function download() {
+    const { ext, mime } = DOWNLOADS[rewrite.format];
+    const base = filename?.replace(/\.[^.]+$/, "") ?? "document";
+    downloadText(`${base}.rewritten.${ext}`, rewrite.output, mime);
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-8 space-y-6"
+    >
+      <div className="rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm font-medium">
+            {t("rewrite.paste")}
+            {filename && (
+              <span className="ms-2 text-xs font-normal text-slate-500 dark:text-slate-400">
+                {filename}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-slate-500 dark:text-slate-400">
+              {t("files.type")}
+            </label>
+            <select
+              value={type}
+              onChange={(e) => onTypeChange(e.target.value as FileTypeChoice)}
+              className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm dark:border-slate-800 dark:bg-slate-950"
+            >
+              <option value="auto">{t("files.type.auto")}</option>
+              {FILE_TYPES.map(({ key }) => (
+                <option key={key} value={key}>
+                  {t(`type.${key}.label`)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+            >
+              <Upload className="h-3.5 w-3.5" />
+              {t("files.open")}
+            </button>
+            <button
+              onClick={() => {
+                setText("");
+                setFilename(null);
+              }}
+              className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              {t("page.reset")}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept={ACCEPTED_FILES}
+              className="hidden"
+              onChange={(e) => {
+                void loadFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="mt-3 flex items-center gap-3">
+          <div className="text-xs text-slate-500 dark:text-slate-400">
+            {t("rewrite.format")}
+          </div>
+          <Segmented
+            options={FORMATS}
+            value={format}
+            onChange={setFormat}
+            labels={{
+              auto: t("rewrite.format.auto", { format: rewrite.format }),
+            }}
+          />
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            void loadFile(e.dataTransfer.files[0]);
+          }}
+          rows={10}
+          placeholder={t("rewrite.placeholder")}
+          className={classNames(
+            "mt-3 w-full resize-y rounded-2xl border bg-white px-4 py-3 font-mono text-xs outline-none transition focus:border-slate-900 dark:bg-slate-950 dark:focus:border-white",
+            dragging
+              ? "border-dashed border-slate-900 dark:border-white"
+              : "border-slate-200 dark:border-slate-800",
+          )}
+        />
+      </div>
+
+      <div className="rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm font-medium">{t("rewrite.results")}</div>
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              {hasLinks
+                ? t("rewrite.summary", summary)
+                : text.trim()
+                  ? t("rewrite.no-links")
+                  : t("files.results.empty")}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={copy}
+              disabled={!hasLinks}
+              className={classNames(
+                "inline-flex items-center justify-center gap-2 rounded-2xl px-3 py-2 text-sm font-semibold transition",
+                hasLinks
+                  ? "bg-slate-900 text-white hover:opacity-90 dark:bg-white dark:text-slate-950"
+                  : "cursor-not-allowed bg-slate-200 text-slate-500 dark:bg-slate-800 dark:text-slate-400",
+              )}
+            >
+              {copied ? (
+                <>
+                  <Check className="h-4 w-4" />
+                  {t("page.copied")}
+                </>
+              ) : (
+                <>
+                  <Copy className="h-4 w-4" />
+                  {t("page.copy")}
+                </>
+              )}
+            </button>
+            <button
+              onClick={download}
+              disabled={!hasLinks}
+              className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+            >
+              <FileDown className="h-4 w-4" />
+              {t("rewrite.download")}
+            </button>
+          </div>
+        </div>
+
+        {rewrite.diff.length > 0 && (
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-200 font-mono text-xs dark:border-slate-800">
+            {rewrite.diff.map((d) => (
+              <div
+                key={d.line}
+                className="border-t border-slate-200 first:border-t-0 dark:border-slate-800"
+              >
+                <div className="flex gap-3 bg-rose-50 px-3 py-1 text-rose-800 dark:bg-rose-950/40 dark:text-rose-200">
+                  <span className="w-10 shrink-0 select-none text-right opacity-60">
+                    -{d.line}
+                  </span>
+                  <span className="whitespace-pre-wrap break-all">
+                    {d.before}
+                  </span>
+                </div>
+                <div className="flex gap-3 bg-emerald-50 px-3 py-1 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-200">
+                  <span className="w-10 shrink-0 select-none text-right opacity-60">
+                    +{d.line}
+                  </span>
+                  <span className="whitespace-pre-wrap break-all">
+                    {d.after}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasLinks && (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full min-w-[700px] text-start text-xs">
+              <thead className="text-slate-500 dark:text-slate-400">
+                <tr>
+                  <th className="px-2 py-2 font-medium">{t("table.line")}</th>
+                  <th className="px-2 py-2 font-medium">{t("table.status")}</th>
+                  <th className="px-2 py-2 font-medium">{t("table.type")}</th>
+                  <th className="px-2 py-2 font-medium">{t("table.link")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rewrite.changes.map((c, i) => (
+                  <tr
+                    key={i}
+                    className="border-t border-slate-200 align-top dark:border-slate-800"
+                  >
+                    <td className="px-2 py-2 text-slate-500 dark:text-slate-400">
+                      {c.line}
+                    </td>
+                    <td className="px-2 py-2">
+                      <span
+                        className={classNames(
+                          "rounded-lg px-2 py-0.5 font-medium",
+                          STATUS_STYLES[c.status],
+                        )}
+                      >
+                        {t(`rewrite.status.${c.status}`)}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-2 py-2">
+                      {c.type ? t(`type.${c.type}.label`) : "—"}
+                    </td>
+                    <td className="break-all px-2 py-2">
+                      <div>{c.replacement ?? c.original}</div>
+                      {c.replacement && (
+                        <div className="text-slate-500 dark:text-slate-400">
+                          {t("rewrite.was", { url: c.original })}
+                        </div>
+                      )}
+                      {c.reason && (
+                        <div className="text-slate-500 dark:text-slate-400">
+                          {c.reasonKey
+                            ? t(c.reasonKey, c.reasonParams)
+                            : c.reason}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
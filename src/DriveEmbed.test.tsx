@@ -0,0 +1,99 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+} from "@testing-library/react";
+import DriveEmbed from "./DriveEmbed";
+import { VIEWER_TIMEOUT_MS } from "./lib";
+
+const FILE_ID = "1KocQY1Q3rQfZGl8BTNSG8fEqGh-XpUq0";
+const SLIDES = `https://docs.google.com/presentation/d/${FILE_ID}/edit`;
+const FILE = `https://drive.google.com/file/d/${FILE_ID}/view`;
+
+describe("DriveEmbed", () => {
+  afterEach(cleanup);
+
+  it("embeds the link in a sandboxed, named iframe", () => {
+    const { container } = render(<DriveEmbed url={SLIDES} />);
+    const frame = container.querySelector("iframe")!;
+    expect(frame.title).toBe("PPT / PPTX");
+    expect(frame.getAttribute("sandbox")).toContain("allow-scripts");
+    expect(frame.getAttribute("referrerpolicy")).toBe("no-referrer");
+  });
+
+  it("sizes by file type unless told otherwise", () => {
+    const { container } = render(<DriveEmbed url={SLIDES} type="pdf" />);
+    const box = container.querySelector("iframe")!.parentElement!;
+    expect(box.style.width).toBe("100%");
+    expect(box.style.height).toBe("600px");
+  });
+
+  it("applies the sizing props", () => {
+    const { container } = render(
+      <DriveEmbed url={SLIDES} type="pdf" width={640} height="50vh" />,
+    );
+    const box = container.querySelector("iframe")!.parentElement!;
+    expect(box.style.width).toBe("640px");
+    expect(box.style.height).toBe("50vh");
+  });
+
+  it("falls back to the next viewer and reports the one that loaded", () => {
+    const onLoad = vi.fn();
+    const { container } = render(
+      <DriveEmbed url={FILE} type="image" onLoad={onLoad} />,
+    );
+
+    fireEvent.error(container.querySelector("img")!);
+    const frame = container.querySelector("iframe")!;
+    expect(frame.src).toContain(`/file/d/${FILE_ID}/preview`);
+    expect(frame.title).toBe("Image (Drive preview)");
+
+    fireEvent.load(frame);
+    expect(onLoad).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "drive" }),
+    );
+  });
+
+  it("shows the fallback and reports why", () => {
+    const onError = vi.fn();
+    render(
+      <DriveEmbed
+        url="javascript:alert(1)"
+        fallback={<a href="/help">Open the file</a>}
+        onError={onError}
+      />,
+    );
+    expect(screen.getByText("Open the file")).toBeTruthy();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "unsafe-scheme", severity: "error" }),
+    );
+  });
+
+  it("reports preview-failed when every viewer fails", () => {
+    vi.useFakeTimers();
+    const onError = vi.fn();
+    const { container } = render(
+      <DriveEmbed
+        url={FILE}
+        type="audio"
+        fallback="No preview"
+        onError={onError}
+      />,
+    );
+
+    fireEvent.error(container.querySelector("audio")!);
+    expect(onError).not.toHaveBeenCalled();
+    // The Drive preview iframe never loads
+    act(() => vi.advanceTimersByTime(VIEWER_TIMEOUT_MS));
+
+    expect(screen.getByText("No preview")).toBeTruthy();
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "preview-failed" }),
+    );
+    vi.useRealTimers();
+  });
+});
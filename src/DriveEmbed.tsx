@@ -0,0 +1,203 @@
+import {
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type CSSProperties,
+  type ReactNode,
+} from "react";
+import {
+  EMBED_REFERRER_POLICY,
+  IFRAME_ALLOW,
+  IFRAME_SANDBOX,
+  VIEWER_TIMEOUT_MS,
+  diagnostic,
+  embedStyle,
+  embedTitle,
+  nextViewer,
+  resolveEmbed,
+  type Diagnostic,
+  type EmbedTarget,
+  type FileTypeChoice,
+  type ViewerKind,
+  type ViewerOption,
+} from "./lib";
+
+/**
+ * <DriveEmbed url type viewer />
+ * --------------------------------
+ * The page preview as a drop-in component for other React apps: converts
+ * the link, renders the best viewer and falls back down the chain
+ * (resolveEmbed) when one fails. No Tailwind or page context needed.
+ *
+ *   <DriveEmbed url={link} type="pdf" height={480} fallback={<a href={link}>Open</a>} />
+ *
+ * onLoad fires with the viewer that rendered; onError with a diagnostic
+ * when the link can't be converted or every viewer fails, and fallback is
+ * shown instead. Plain HTML pages use <drive-embed> (driveEmbedElement.ts).
+ */
+
+export type DriveEmbedProps = {
+  url: string;
+  type?: FileTypeChoice;
+  viewer?: ViewerKind | "auto";
+  // Numbers are pixels; strings are CSS (e.g. "100%"). Defaults per type.
+  width?: number | string;
+  height?: number | string;
+  // e.g. "16/9"; used when no height is given
+  aspectRatio?: string;
+  // Accessible name of the frame; defaults to the type (and viewer)
+  title?: string;
+  lazy?: boolean;
+  // Shown when nothing can be embedded
+  fallback?: ReactNode;
+  onLoad?: (viewer: ViewerOption) => void;
+  onError?: (error: Diagnostic) => void;
+  className?: string;
+  style?: CSSProperties;
+};
+
+function Frame({
+  viewer,
+  title,
+  lazy,
+  onLoad,
+  onError,
+}: {
+  viewer: ViewerOption;
+  title: string;
+  lazy: boolean;
+  onLoad: () => void;
+  onError: () => void;
+}) {
+  switch (viewer.element) {
+    case "img":
+      return (
+        <img
+          src={viewer.url}
+          alt={title}
+          referrerPolicy={EMBED_REFERRER_POLICY}
+          loading={lazy ? "lazy" : undefined}
+          style={{ display: "block", maxWidth: "100%", margin: "0 auto" }}
+          onLoad={onLoad}
+          onError={onError}
+        />
+      );
+    case "video":
+    case "audio": {
+      const Media = viewer.element;
+      return (
+        <Media
+          src={viewer.url}
+          aria-label={title}
+          controls
+          preload={lazy ? "none" : "metadata"}
+          style={{ display: "block", width: "100%" }}
+          onLoadedData={onLoad}
+          onError={onError}
+        />
+      );
+    }
+    case "iframe":
+      return (
+        <iframe
+          src={viewer.url}
+          title={title}
+          loading={lazy ? "lazy" : undefined}
+          sandbox={IFRAME_SANDBOX}
+          allow={IFRAME_ALLOW}
+          referrerPolicy={EMBED_REFERRER_POLICY}
+          allowFullScreen
+          style={{ display: "block", width: "100%", height: "100%", border: 0 }}
+          onLoad={onLoad}
+        />
+      );
+  }
+}
+
+// Remounted (key) per link, so failures of an earlier link are forgotten
+function ViewerChain({
+  target,
+  props,
+}: {
+  target: EmbedTarget;
+  props: DriveEmbedProps;
+}) {
+  // URLs of the viewers that failed, like ViewerPreview
+  const [failed, setFailed] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState<string | null>(null);
+  const type = target.result.type;
+  const active = target.error ? null : nextViewer(target.viewers, failed);
+  const failure = useMemo(
+    () => target.error ?? (active ? undefined : diagnostic("preview-failed")),
+    [target.error, active],
+  );
+
+  // Latest callbacks, without re-running the effects below
+  const { onLoad, onError } = props;
+  const handlers = useRef({ onLoad, onError });
+  useEffect(() => {
+    handlers.current = { onLoad, onError };
+  }, [onLoad, onError]);
+
+  useEffect(() => {
+    if (failure) handlers.current.onError?.(failure);
+  }, [failure]);
+
+  const fail = (url: string) =>
+    setFailed((f) => (f.includes(url) ? f : [...f, url]));
+
+  useEffect(() => {
+    if (!active || active.element !== "iframe" || loaded === active.url) {
+      return;
+    }
+    const url = active.url;
+    const t = window.setTimeout(() => fail(url), VIEWER_TIMEOUT_MS);
+    return () => window.clearTimeout(t);
+  }, [active, loaded]);
+
+  if (!active || !type) return <>{props.fallback ?? null}</>;
+
+  const size = embedStyle(type, {
+    width: props.width,
+    height: props.height,
+    aspectRatio: props.aspectRatio,
+  });
+  const title = props.title ?? embedTitle(type, active);
+
+  return (
+    <div
+      className={props.className}
+      style={{ ...size, ...props.style }}
+      data-viewer={active.kind}
+    >
+      <Frame
+        key={active.url}
+        viewer={active}
+        title={title}
+        lazy={props.lazy ?? false}
+        onLoad={() => {
+          setLoaded(active.url);
+          handlers.current.onLoad?.(active);
+        }}
+        onError={() => fail(active.url)}
+      />
+    </div>
+  );
+}
+
+export default function DriveEmbed(props: DriveEmbedProps) {
+  const { url, type = "auto", viewer = "auto" } = props;
+  const target = useMemo(
+    () => resolveEmbed(url, type, viewer),
+    [url, type, viewer],
+  );
+
+  return (
+    <ViewerChain
+      key={target.viewers.map((v) => v.url).join("|") || url}
+      target={target}
+      props={props}
+    />
+  );
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from "react";
+import { Check, Code2, Copy } from "lucide-react";
+import {
+  buildEmbedCode,
+  parseEmbedSize,
+  type ConvertResult,
+  type EmbedFormat,
+  type ViewerOption,
+} from "./lib";
+import { Segmented, Toggle, inputClass } from "./controls";
+import { useI18n } from "./i18n";
+import { copyText } from "./ui";
+
+/**
+ * Embed code output: the converted link as a ready-to-paste snippet
+ * for an LMS / CMS (HTML, Markdown, BBCode or oEmbed JSON). A picked
+ * viewer is embedded as that viewer renders (e.g. Drive's player frame).
+ */
+
+const FORMATS: EmbedFormat[] = ["html", "markdown", "bbcode", "oembed"];
+
+export default function EmbedCode({
+  result,
+  viewer,
+}: {
+  result: ConvertResult;
+  viewer?: ViewerOption;
+}) {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<EmbedFormat>("html");
+  const [width, setWidth] = useState("");
+  const [height, setHeight] = useState("");
+  const [aspectRatio, setAspectRatio] = useState("");
+  const [lazy, setLazy] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  const code = useMemo(
+    () =>
+      buildEmbedCode(
+        result,
+        format,
+        {
+          width: parseEmbedSize(width),
+          height: parseEmbedSize(height),
+          aspectRatio: aspectRatio.trim() || undefined,
+          lazy,
+        },
+        viewer,
+      ),
+    [result, viewer, format, width, height, aspectRatio, lazy],
+  );
+
+  if (!code) return null;
+
+  async function copy() {
+    if (!code) return;
+    await copyText(code);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1200);
+  }
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="inline-flex items-center gap-2 text-sm font-medium">
+          <Code2 className="h-4 w-4" />
+          {t("embed.heading")}
+        </div>
+        <button
+          onClick={copy}
+          className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+        >
+          {copied ? (
+            <Check className="h-3.5 w-3.5" />
+          ) : (
+            <Copy className="h-3.5 w-3.5" />
+          )}
+          {copied ? t("page.copied") : t("page.copy")}
+        </button>
+      </div>
+
+      <Segmented options={FORMATS} value={format} onChange={setFormat} />
+
+      <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded-2xl border border-slate-200 bg-slate-50 p-3 font-mono text-xs dark:border-slate-800 dark:bg-slate-900/40">
+        {code}
+      </pre>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(
+          [
+            ["embed.width", width, setWidth, t("embed.auto")],
+            ["embed.height", height, setHeight, t("embed.auto")],
+            ["embed.aspect-ratio", aspectRatio, setAspectRatio, "16/9"],
+          ] as const
+        ).map(([label, value, set, placeholder]) => (
+          <label key={label} className="block space-y-1">
+            <div className="text-xs text-slate-600 dark:text-slate-300">
+              {t(label)}
+            </div>
+            <input
+              value={value}
+              onChange={(e) => set(e.target.value)}
+              placeholder={placeholder}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+      <Toggle label={t("embed.lazy")} checked={lazy} onChange={setLazy} />
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import {
+  FileSpreadsheet,
+  FileType as FileTypeIcon,
+  Presentation,
+} from "lucide-react";
+import type {
+  DocsExportOptions,
+  DocsFormat,
+  SheetsExportOptions,
+  SheetsFormat,
+  SlidesExportOptions,
+  SlidesFormat,
+} from "./lib";
+import { Segmented, Toggle, inputClass } from "./controls";
+import { useI18n } from "./i18n";
+
+/**
+ * Per-type export option panels shown under the file type picker.
+ * Each panel edits a slice of ConvertOptions; the page owns the state.
+ */
+
+const SLIDES_FORMATS: SlidesFormat[] = [
+  "pptx",
+  "pdf",
+  "odp",
+  "txt",
+  "png",
+  "jpeg",
+  "svg",
+];
+
+const DOCS_FORMATS: DocsFormat[] = [
+  "pdf",
+  "docx",
+  "odt",
+  "rtf",
+  "txt",
+  "epub",
+  "html",
+  "md",
+];
+
+const SHEETS_FORMATS: SheetsFormat[] = ["xlsx", "csv", "tsv", "ods", "pdf"];
+
+export function SlidesOptions({
+  value,
+  onChange,
+  linkPageId,
+}: {
+  value: SlidesExportOptions;
+  onChange: (value: SlidesExportOptions) => void;
+  // #slide=id.<pageId> found in the pasted link
+  linkPageId: string | null;
+}) {
+  const { t } = useI18n();
+  const format = value.format ?? "pptx";
+  const perSlide = format === "png" || format === "jpeg" || format === "svg";
+  const set = (patch: Partial<SlidesExportOptions>) =>
+    onChange({ ...value, ...patch });
+
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5">
+          <Presentation className="h-4 w-4" />
+        </div>
+        <div className="min-w-0 flex-1 space-y-3">
+          <div className="text-sm font-medium">{t("slides.heading")}</div>
+
+          <Segmented
+            options={SLIDES_FORMATS}
+            value={format}
+            onChange={(f) => set({ format: f })}
+          />
+
+          {perSlide && (
+            <label className="block space-y-1">
+              <div className="text-xs text-slate-600 dark:text-slate-300">
+                {t("slides.page-id")}
+              </div>
+              <input
+                value={value.pageId ?? ""}
+                onChange={(e) => set({ pageId: e.target.value.trim() })}
+                placeholder={
+                  linkPageId
+                    ? t("options.from-link", { value: linkPageId })
+                    : t("slides.page-id.first")
+                }
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          <div className="space-y-2 border-t border-slate-200 pt-3 dark:border-slate-800">
+            <div className="text-xs font-semibold text-slate-700 dark:text-slate-200">
+              {t("slides.embed")}
+            </div>
+            <Toggle
+              label={t("slides.autoplay")}
+              checked={value.autoplay ?? false}
+              onChange={(autoplay) => set({ autoplay })}
+            />
+            <Toggle
+              label={t("slides.loop")}
+              checked={value.loop ?? false}
+              onChange={(loop) => set({ loop })}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block space-y-1">
+                <div className="text-xs text-slate-600 dark:text-slate-300">
+                  {t("slides.delay")}
+                </div>
+                <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={value.delayMs ?? 3000}
+                  onChange={(e) =>
+                    set({ delayMs: Math.max(0, Number(e.target.value) || 0) })
+                  }
+                  className={inputClass}
+                />
+              </label>
+              <label className="block space-y-1">
+                <div className="text-xs text-slate-600 dark:text-slate-300">
+                  {t("slides.start")}
+                </div>
+                <input
+                  value={value.startSlide ?? ""}
+                  onChange={(e) => set({ startSlide: e.target.value.trim() })}
+                  placeholder={t("slides.start.placeholder")}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function DocsOptions({
+  value,
+  onChange,
+}: {
+  value: DocsExportOptions;
+  onChange: (value: DocsExportOptions) => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5">
+          <FileTypeIcon className="h-4 w-4" />
+        </div>
+        <div className="min-w-0 flex-1 space-y-3">
+          <div className="text-sm font-medium">{t("docs.heading")}</div>
+          <Segmented
+            options={DOCS_FORMATS}
+            value={value.format ?? "pdf"}
+            onChange={(format) => onChange({ ...value, format })}
+            labels={{ html: t("docs.html-zip") }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SheetsOptions({
+  value,
+  onChange,
+  linkGid,
+}: {
+  value: SheetsExportOptions;
+  onChange: (value: SheetsExportOptions) => void;
+  // gid found in the pasted link, shown as the default tab
+  linkGid: string | null;
+}) {
+  const { t } = useI18n();
+  const format = value.format ?? "xlsx";
+  const set = (patch: Partial<SheetsExportOptions>) =>
+    onChange({ ...value, ...patch });
+
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
+      <div className="flex items-start gap-3">
+        <div className="mt-0.5">
+          <FileSpreadsheet className="h-4 w-4" />
+        </div>
+        <div className="min-w-0 flex-1 space-y-3">
+          <div className="text-sm font-medium">{t("sheets.heading")}</div>
+
+          <Segmented
+            options={SHEETS_FORMATS}
+            value={format}
+            onChange={(f) => set({ format: f })}
+          />
+
+          <label className="block space-y-1">
+            <div className="text-xs text-slate-600 dark:text-slate-300">
+              {t("sheets.gid")}
+            </div>
+            <input
+              value={value.gid ?? ""}
+              onChange={(e) => set({ gid: e.target.value.replace(/\D/g, "") })}
+              placeholder={
+                linkGid
+                  ? t("options.from-link", { value: linkGid })
+                  : t("sheets.gid.first")
+              }
+              inputMode="numeric"
+              className={inputClass}
+            />
+          </label>
+
+          {format === "pdf" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-xs text-slate-600 dark:text-slate-300">
+                  {t("sheets.orientation")}
+                </div>
+                <Segmented
+                  options={["portrait", "landscape"]}
+                  value={value.orientation ?? "portrait"}
+                  onChange={(o) => set({ orientation: o })}
+                  labels={{
+                    portrait: t("sheets.portrait"),
+                    landscape: t("sheets.landscape"),
+                  }}
+                />
+              </div>
+              <Toggle
+                label={t("sheets.fit-width")}
+                checked={value.fitToWidth ?? false}
+                onChange={(fitToWidth) => set({ fitToWidth })}
+              />
+              <Toggle
+                label={t("sheets.gridlines")}
+                checked={value.gridlines ?? true}
+                onChange={(gridlines) => set({ gridlines })}
+              />
+              <label className="block space-y-1">
+                <div className="text-xs text-slate-600 dark:text-slate-300">
+                  {t("sheets.range")}
+                </div>
+                <input
+                  value={value.range ?? ""}
+                  onChange={(e) => set({ range: e.target.value.trim() })}
+                  placeholder={t("sheets.range.placeholder")}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Loader2,
+  Lock,
+  ShieldAlert,
+  XCircle,
+} from "lucide-react";
+import type { HealthStatus, LinkHealth } from "./lib";
+import { useI18n } from "./i18n";
+import { classNames } from "./ui";
+
+const STYLES: Record<HealthStatus, string> = {
+  ok: "border-emerald-200 bg-emerald-50 text-emerald-800 dark:border-emerald-900/40 dark:bg-emerald-900/20 dark:text-emerald-200",
+  "sign-in":
+    "border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100",
+  "not-found":
+    "border-rose-200 bg-rose-50 text-rose-800 dark:border-rose-900/40 dark:bg-rose-900/20 dark:text-rose-200",
+  quota:
+    "border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100",
+  "virus-scan":
+    "border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100",
+  "wrong-type":
+    "border-amber-200 bg-amber-50 text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100",
+  unreachable:
+    "border-slate-200 bg-slate-100 text-slate-700 dark:border-slate-800 dark:bg-slate-900 dark:text-slate-300",
+};
+
+const ICONS: Record<HealthStatus, typeof CheckCircle2> = {
+  ok: CheckCircle2,
+  "sign-in": Lock,
+  "not-found": XCircle,
+  quota: AlertTriangle,
+  "virus-scan": ShieldAlert,
+  "wrong-type": AlertTriangle,
+  unreachable: XCircle,
+};
+
+// Pass health={null} while the check is running
+export default function HealthBadge({
+  health,
+  label,
+}: {
+  health: LinkHealth | null;
+  label?: string;
+}) {
+  const { t } = useI18n();
+  if (!health) {
+    return (
+      <span className="inline-flex items-center gap-1 rounded-full border border-slate-200 px-2 py-0.5 text-xs text-slate-500 dark:border-slate-800 dark:text-slate-400">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {t("health.checking")}
+      </span>
+    );
+  }
+
+  const Icon = ICONS[health.status];
+  return (
+    <span
+      title={t(health.key, health.params)}
+      className={classNames(
+        "inline-flex items-center gap-1 whitespace-nowrap rounded-full border px-2 py-0.5 text-xs font-medium",
+        STYLES[health.status],
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {label && <span className="opacity-70">{label}:</span>}
+      {t(`health.${health.status}`)}
+    </span>
+  );
+}
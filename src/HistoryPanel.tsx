@@ -0,0 +1,245 @@
+import { useMemo, useState } from "react";
+import { motion } from "framer-motion";
+import {
+  ArrowUpLeft,
+  Check,
+  Copy,
+  History as HistoryIcon,
+  Pencil,
+  Pin,
+  PinOff,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { FILE_TYPES, type FileType } from "./lib";
+import { filterHistory, type HistoryEntry } from "./history";
+import { useI18n } from "./i18n";
+import { classNames, copyText } from "./ui";
+
+/**
+ * History mode
+ * --------------------------------
+ * Lists past conversions (pinned first), with search, type filter,
+ * rename, pin, delete and restore-into-the-form.
+ */
+
+function formatTime(ts: number, locale: string) {
+  return new Date(ts).toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function HistoryRow({
+  entry,
+  onRestore,
+  onUpdate,
+  onRemove,
+}: {
+  entry: HistoryEntry;
+  onRestore: (entry: HistoryEntry) => void;
+  onUpdate: (
+    id: string,
+    patch: Partial<Pick<HistoryEntry, "pinned" | "label">>,
+  ) => void;
+  onRemove: (id: string) => void;
+}) {
+  const { t, locale } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const [label, setLabel] = useState(entry.label ?? "");
+  const [copied, setCopied] = useState(false);
+
+  function saveLabel() {
+    onUpdate(entry.id, { label: label.trim() || undefined });
+    setEditing(false);
+  }
+
+  async function copy() {
+    await copyText(entry.exportUrl);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1200);
+  }
+
+  const iconButton =
+    "inline-flex h-8 w-8 items-center justify-center rounded-xl text-slate-600 transition hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900";
+
+  return (
+    <li className="flex items-start justify-between gap-3 border-t border-slate-200 py-3 first:border-t-0 dark:border-slate-800">
+      <div className="min-w-0 flex-1">
+        {editing ? (
+          <input
+            autoFocus
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onBlur={saveLabel}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveLabel();
+              if (e.key === "Escape") {
+                setLabel(entry.label ?? "");
+                setEditing(false);
+              }
+            }}
+            placeholder={t("history.name.placeholder")}
+            className="w-full rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm outline-none focus:border-slate-900 dark:border-slate-800 dark:bg-slate-950 dark:focus:border-white"
+          />
+        ) : (
+          <div className="flex items-center gap-2">
+            {entry.pinned && <Pin className="h-3.5 w-3.5 shrink-0" />}
+            <div className="truncate text-sm font-semibold">
+              {entry.label || entry.fileId || entry.input}
+            </div>
+          </div>
+        )}
+        <div className="mt-1 break-all text-xs text-slate-600 dark:text-slate-300">
+          {entry.exportUrl}
+        </div>
+        <div className="mt-1 flex flex-wrap gap-x-3 text-xs text-slate-500 dark:text-slate-400">
+          <span>{t(`type.${entry.type}.label`)}</span>
+          {entry.fileId && <span className="font-mono">{entry.fileId}</span>}
+          <span>{formatTime(entry.updatedAt, locale)}</span>
+        </div>
+      </div>
+
+      <div className="flex shrink-0 items-center">
+        <button
+          onClick={() => onRestore(entry)}
+          title={t("history.restore")}
+          className={iconButton}
+        >
+          <ArrowUpLeft className="h-4 w-4" />
+        </button>
+        <button onClick={copy} title={t("history.copy")} className={iconButton}>
+          {copied ? (
+            <Check className="h-4 w-4" />
+          ) : (
+            <Copy className="h-4 w-4" />
+          )}
+        </button>
+        <button
+          onClick={() => onUpdate(entry.id, { pinned: !entry.pinned })}
+          title={t(entry.pinned ? "history.unpin" : "history.pin")}
+          className={iconButton}
+        >
+          {entry.pinned ? (
+            <PinOff className="h-4 w-4" />
+          ) : (
+            <Pin className="h-4 w-4" />
+          )}
+        </button>
+        <button
+          onClick={() => setEditing(true)}
+          title={t("history.rename")}
+          className={iconButton}
+        >
+          <Pencil className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => onRemove(entry.id)}
+          title={t("history.delete")}
+          className={iconButton}
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+export default function HistoryPanel({
+  entries,
+  onRestore,
+  onUpdate,
+  onRemove,
+}: {
+  entries: HistoryEntry[];
+  onRestore: (entry: HistoryEntry) => void;
+  onUpdate: (
+    id: string,
+    patch: Partial<Pick<HistoryEntry, "pinned" | "label">>,
+  ) => void;
+  onRemove: (id: string) => void;
+}) {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [type, setType] = useState<FileType | "all">("all");
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+
+  const visible = useMemo(
+    () => filterHistory(entries, { query, type, pinnedOnly }),
+    [entries, query, type, pinnedOnly],
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 8 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-8 rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative min-w-[220px] flex-1">
+          <div className="pointer-events-none absolute start-3 top-2.5 text-slate-400">
+            <Search className="h-4 w-4" />
+          </div>
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t("history.search")}
+            className="w-full rounded-2xl border border-slate-200 bg-white py-2 ps-9 pe-3 text-sm outline-none focus:border-slate-900 dark:border-slate-800 dark:bg-slate-950 dark:focus:border-white"
+          />
+        </div>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as FileType | "all")}
+          className="rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm dark:border-slate-800 dark:bg-slate-950"
+        >
+          <option value="all">{t("history.all-types")}</option>
+          {FILE_TYPES.map(({ key }) => (
+            <option key={key} value={key}>
+              {t(`type.${key}.label`)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setPinnedOnly((s) => !s)}
+          className={classNames(
+            "inline-flex items-center gap-1 rounded-2xl border px-3 py-2 text-sm transition",
+            pinnedOnly
+              ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-950"
+              : "border-slate-200 bg-white hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-950 dark:hover:bg-slate-900",
+          )}
+        >
+          <Pin className="h-4 w-4" />
+          {t("history.pinned")}
+        </button>
+      </div>
+
+      {visible.length ? (
+        <ul className="mt-4">
+          {visible.map((e) => (
+            <HistoryRow
+              key={e.id}
+              entry={e}
+              onRestore={onRestore}
+              onUpdate={onUpdate}
+              onRemove={onRemove}
+            />
+          ))}
+        </ul>
+      ) : (
+        <div className="mt-6 flex flex-col items-center py-10 text-center text-slate-500 dark:text-slate-400">
+          <div className="flex h-12 w-12 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-900">
+            <HistoryIcon className="h-5 w-5" />
+          </div>
+          <div className="mt-3 text-sm font-semibold">
+            {t(entries.length ? "history.no-matches" : "history.empty")}
+          </div>
+          <div className="mt-1 text-xs">
+            {t(
+              entries.length ? "history.no-matches.hint" : "history.empty.hint",
+            )}
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+}
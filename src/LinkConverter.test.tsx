@@ -0,0 +1,226 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  within,
+} from "@testing-library/react";
+import DriveLinkConverterPage from "./LinkConverter";
+
+const SAMPLE_ID = "1KocQY1Q3rQfZGl8BTNSG8fEqGh-XpUq0";
+
+// The "3) Exportable link" box: output URL plus its Copy / Open buttons
+function outputBox() {
+  return within(screen.getByText("Output").parentElement!.parentElement!);
+}
+
+function outputUrl() {
+  return outputBox().queryByText(/^https?:\/\//)?.textContent ?? null;
+}
+
+function linkInput() {
+  return screen.getByPlaceholderText(
+    /^Paste a Google Drive/,
+  ) as HTMLTextAreaElement;
+}
+
+function renderPage(search = "") {
+  window.history.replaceState(null, "", `/${search}`);
+  return render(<DriveLinkConverterPage />);
+}
+
+describe("DriveLinkConverterPage", () => {
+  const writeText = vi.fn();
+
+  beforeEach(() => {
+    writeText.mockReset().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, "clipboard", {
+      value: { writeText, readText: vi.fn().mockResolvedValue("") },
+      configurable: true,
+    });
+    window.localStorage.clear();
+  });
+
+  afterEach(cleanup);
+
+  it("converts the sample Slides link to PPTX", () => {
+    renderPage();
+    expect(outputUrl()).toBe(
+      `https://docs.google.com/presentation/d/${SAMPLE_ID}/export/pptx`,
+    );
+  });
+
+  it("switches the export when another type is picked", () => {
+    renderPage();
+
+    fireEvent.click(screen.getByRole("radio", { name: /^PDF/ }));
+    expect(outputUrl()).toBe(
+      `https://docs.google.com/presentation/d/${SAMPLE_ID}/export/pdf`,
+    );
+    expect(window.location.search).toContain("type=pdf");
+
+    fireEvent.click(screen.getByRole("radio", { name: /^Image/ }));
+    expect(outputUrl()).toBe(
+      `https://drive.google.com/uc?export=view&id=${SAMPLE_ID}`,
+    );
+  });
+
+  it("applies the one-click fix of a warning", () => {
+    renderPage();
+
+    fireEvent.click(screen.getByRole("radio", { name: /^Image/ }));
+    fireEvent.click(
+      screen.getByRole("button", { name: "Switch to PPT / PPTX" }),
+    );
+    expect(outputUrl()).toBe(
+      `https://docs.google.com/presentation/d/${SAMPLE_ID}/export/pptx`,
+    );
+    expect(window.location.search).toContain("type=ppt");
+  });
+
+  it("converts what is typed into the input", () => {
+    renderPage();
+    fireEvent.change(linkInput(), {
+      target: {
+        value: "https://docs.google.com/spreadsheets/d/1ShEeTs/edit#gid=42",
+      },
+    });
+    expect(outputUrl()).toBe(
+      "https://docs.google.com/spreadsheets/d/1ShEeTs/export?format=xlsx",
+    );
+  });
+
+  it("previews in the Microsoft viewer when picked", () => {
+    renderPage();
+
+    fireEvent.click(screen.getByRole("button", { name: "Microsoft viewer" }));
+    const frame = screen.getByTitle("PPT / PPTX Preview (Microsoft viewer)");
+    expect(frame.getAttribute("src")).toContain("view.officeapps.live.com");
+    expect(window.location.search).toContain("viewer=office");
+
+    fireEvent.click(screen.getByRole("button", { name: "Auto" }));
+    expect(window.location.search).not.toContain("viewer=");
+  });
+
+  it("builds the embed code for the picked viewer", () => {
+    renderPage("?type=video");
+    fireEvent.change(linkInput(), {
+      target: { value: "https://drive.google.com/file/d/1ViDeO/view" },
+    });
+    const embedCode = () => document.querySelector("pre")?.textContent ?? "";
+    expect(embedCode()).toMatch(/^<video /);
+
+    fireEvent.click(screen.getByRole("button", { name: "Drive preview" }));
+    expect(embedCode()).toMatch(/^<iframe /);
+    expect(embedCode()).toContain(
+      'src="https://drive.google.com/file/d/1ViDeO/preview"',
+    );
+  });
+
+  it("still honours the legacy ms=1 link", () => {
+    renderPage("?ms=1");
+    expect(
+      screen.getByTitle("PPT / PPTX Preview (Microsoft viewer)"),
+    ).toBeTruthy();
+  });
+
+  it("copies the export URL", async () => {
+    renderPage();
+
+    fireEvent.click(outputBox().getByRole("button", { name: /Copy/ }));
+    expect(await outputBox().findByText("Copied")).toBeTruthy();
+    expect(writeText).toHaveBeenCalledWith(
+      `https://docs.google.com/presentation/d/${SAMPLE_ID}/export/pptx`,
+    );
+  });
+
+  it("resets the input and output", () => {
+    renderPage();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset" }));
+    expect(linkInput().value).toBe("");
+    expect(outputUrl()).toBeNull();
+    expect(screen.getByText("Exportable link will appear here…")).toBeTruthy();
+    expect(
+      (outputBox().getByRole("button", { name: /Copy/ }) as HTMLButtonElement)
+        .disabled,
+    ).toBe(true);
+  });
+
+  it("switches the page language", () => {
+    renderPage();
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Language" }), {
+      target: { value: "es" },
+    });
+    expect(screen.getByText("2) Pega el enlace")).toBeTruthy();
+    expect(document.documentElement.lang).toBe("es");
+    expect(window.localStorage.getItem("drive-link-converter:locale")).toBe(
+      "es",
+    );
+  });
+
+  it("moves through the type radio group with the arrow keys", () => {
+    renderPage();
+
+    const auto = screen.getByRole("radio", { name: /^Auto/ });
+    expect(auto.getAttribute("aria-checked")).toBe("true");
+    expect(auto.tabIndex).toBe(0);
+
+    fireEvent.keyDown(auto, { key: "ArrowRight" });
+    const ppt = screen.getByRole("radio", { name: /^PPT/ });
+    expect(ppt.getAttribute("aria-checked")).toBe("true");
+    expect(document.activeElement).toBe(ppt);
+    expect(auto.tabIndex).toBe(-1);
+
+    fireEvent.keyDown(ppt, { key: "End" });
+    expect(
+      screen
+        .getByRole("radio", { name: /^Audio/ })
+        .getAttribute("aria-checked"),
+    ).toBe("true");
+    expect(window.location.search).toContain("type=audio");
+  });
+
+  it("announces the result and copies with the keyboard shortcut", async () => {
+    renderPage();
+    expect(screen.getByRole("status").textContent).toBe(
+      "PPT / PPTX export link ready",
+    );
+
+    fireEvent.keyDown(document, { code: "KeyC", altKey: true, shiftKey: true });
+    expect(await screen.findByText("Copied to clipboard")).toBeTruthy();
+    expect(writeText).toHaveBeenCalledWith(
+      `https://docs.google.com/presentation/d/${SAMPLE_ID}/export/pptx`,
+    );
+  });
+
+  it("resets with the keyboard shortcut and alerts the empty input", () => {
+    renderPage();
+
+    fireEvent.keyDown(document, { code: "KeyR", altKey: true, shiftKey: true });
+    expect(linkInput().value).toBe("");
+    expect(screen.getByRole("alert")).toBeTruthy();
+    expect(screen.getByRole("status").textContent).toBe("");
+  });
+
+  it("works when storage is blocked", () => {
+    const storage = Object.getOwnPropertyDescriptor(window, "localStorage")!;
+    Object.defineProperty(window, "localStorage", {
+      get() {
+        throw new DOMException("Blocked", "SecurityError");
+      },
+      configurable: true,
+    });
+    try {
+      renderPage();
+      expect(outputUrl()).toBe(
+        `https://docs.google.com/presentation/d/${SAMPLE_ID}/export/pptx`,
+      );
+    } finally {
+      Object.defineProperty(window, "localStorage", storage);
+    }
+  });
+});
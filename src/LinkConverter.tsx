@@ -1,18 +1,63 @@
-import React, { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useId, useMemo, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   Link2,
   Copy,
   Check,
-  FileText,
-  Presentation,
-  Image as ImageIcon,
-  Video,
-  Music,
   AlertTriangle,
   ExternalLink,
+  Languages,
   RotateCcw,
+  Share2,
+  ShieldCheck,
+  Sparkles,
 } from "lucide-react";
+import {
+  applyViewer,
+  checkConversion,
+  convertLink,
+  extractSheetGid,
+  extractSlidePageId,
+  hasCode,
+  isDriveDownloadUrl,
+  listViewers,
+  type ConversionHealth,
+  type DiagnosticAction,
+  type FileType,
+  type DocsExportOptions,
+  type FileTypeChoice,
+  type SheetsExportOptions,
+  type SlidesExportOptions,
+  type ViewerKind,
+} from "./lib";
+import BatchConverter from "./BatchConverter";
+import DiagnosticList from "./DiagnosticList";
+import DocumentRewriter from "./DocumentRewriter";
+import EmbedCode from "./EmbedCode";
+import HealthBadge from "./HealthBadge";
+import QrCodePanel from "./QrCode";
+import { healthCheckOptions } from "./config";
+import {
+  I18nContext,
+  LOCALES,
+  createI18n,
+  loadLocale,
+  saveLocale,
+  translateDiagnostic,
+  type Locale,
+} from "./i18n";
+import { DocsOptions, SheetsOptions, SlidesOptions } from "./ExportOptions";
+import { Toggle } from "./controls";
+import Toast, { type ToastMessage } from "./Toast";
+import { usePasteToConvert } from "./usePasteToConvert";
+import { classNames, copyText } from "./ui";
+import { buildUrlSearch, readUrlState, writeUrlSearch } from "./urlState";
+import HistoryPanel from "./HistoryPanel";
+import TypePicker from "./TypePicker";
+import ViewerPreview from "./ViewerPreview";
+import type { HistoryEntry } from "./history";
+import { useConversionHistory } from "./useHistory";
+import { SHORTCUT_KEYS, useShortcuts } from "./useShortcuts";
 
 /**
  * Drive Link Converter + Preview
@@ -28,424 +73,227 @@ import {
  * - Copy-to-clipboard
  *
  * Notes:
- * - For PPT preview, we use Microsoft Office viewer (works best with direct downloadable URLs)
- * - For PDF preview, we use Google Docs Viewer (safe for direct URLs)
- * - For Images/Video/Audio, we use native HTML elements
+ * - Each type has a default preview (Slides embed, Docs Viewer, native
+ *   media...); the viewer chooser switches to Drive preview, Office viewer,
+ *   thumbnail etc. and falls back automatically when one fails to load
+ * - Conversion logic lives in ./lib (UI-free, reusable outside React)
+ * - Copy is translated (./i18n); the page provides the locale to its
+ *   children and keeps <html lang dir> in sync
+ * - Keyboard and screen readers: the type picker is a radio group,
+ *   Alt+Shift+C / Alt+Shift+R copy and reset, and results, errors and
+ *   copies are announced through live regions
  */
 
-type FileType = "ppt" | "pdf" | "image" | "video" | "audio";
-
-type ConvertResult = {
-  fileId?: string;
-  exportUrl?: string;
-  embedUrl?: string;
-  previewUrl?: string;
-  notes?: string[];
-  error?: string;
-};
-
-const FILE_TYPES: Array<{
-  key: FileType;
-  label: string;
-  icon: React.ReactNode;
-  hint: string;
-  description: string;
-}> = [
-  {
-    key: "ppt",
-    label: "PPT / PPTX",
-    icon: <Presentation className="h-4 w-4" />,
-    hint: "Uses Microsoft Office viewer",
-    description: "PowerPoint Presentation - Slideshow format for presentations",
-  },
-  {
-    key: "pdf",
-    label: "PDF",
-    icon: <FileText className="h-4 w-4" />,
-    hint: "Uses PDF viewer (iframe)",
-    description:
-      "Portable Document Format - Universal document format for viewing and sharing",
-  },
-  {
-    key: "image",
-    label: "Image",
-    icon: <ImageIcon className="h-4 w-4" />,
-    hint: "Uses <img />",
-    description:
-      "Image File - Pictures and graphics in various formats (PNG, JPG, GIF, etc.)",
-  },
-  {
-    key: "video",
-    label: "Video",
-    icon: <Video className="h-4 w-4" />,
-    hint: "Uses <video />",
-    description:
-      "Video File - Motion picture content in formats like MP4, WebM, etc.",
-  },
-  {
-    key: "audio",
-    label: "Audio",
-    icon: <Music className="h-4 w-4" />,
-    hint: "Uses <audio />",
-    description:
-      "Audio File - Sound content in formats like MP3, WAV, OGG, etc.",
-  },
-];
-
-function classNames(...xs: Array<string | false | undefined | null>) {
-  return xs.filter(Boolean).join(" ");
-}
-
-function extractGoogleFileId(input: string): string | null {
-  const url = input.trim();
-  if (!url) return null;
-
-  // Common patterns:
-  // 1) https://drive.google.com/file/d/<ID>/view?...
-  // 2) https://docs.google.com/presentation/d/<ID>/edit?...
-  // 3) https://docs.google.com/document/d/<ID>/edit?...
-  // 4) https://docs.google.com/spreadsheets/d/<ID>/edit?...
-  // 5) https://drive.google.com/open?id=<ID>
-  // 6) https://drive.google.com/uc?id=<ID>&export=download
-
-  const patterns = [
-    /\/file\/d\/([a-zA-Z0-9_-]+)/,
-    /\/presentation\/d\/([a-zA-Z0-9_-]+)/,
-    /\/document\/d\/([a-zA-Z0-9_-]+)/,
-    /\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/,
-    /[?&]id=([a-zA-Z0-9_-]+)/,
-    /\/uc\?id=([a-zA-Z0-9_-]+)/,
-  ];
-
-  for (const p of patterns) {
-    const m = url.match(p);
-    if (m?.[1]) return m[1];
-  }
-
-  return null;
-}
-
-function isProbablyGoogleLink(input: string) {
-  const s = input.trim().toLowerCase();
-  return s.includes("drive.google.com") || s.includes("docs.google.com");
-}
+const SAMPLE_INPUT =
+  "https://docs.google.com/presentation/d/1KocQY1Q3rQfZGl8BTNSG8fEqGh-XpUq0/edit?usp=drive_link&ouid=115550835616350388612&rtpof=true&sd=true";
 
-function buildDriveDirectDownload(fileId: string) {
-  // Works for Drive files (when permissions allow public access)
-  // For large files, Google may show a warning page; still the standard direct link.
-  return `https://drive.google.com/uc?export=download&id=${fileId}`;
-}
+type Mode = "single" | "batch" | "rewrite" | "history";
 
-function buildDriveDirectView(fileId: string) {
-  // Often works for images, sometimes for other media types.
-  return `https://drive.google.com/uc?export=view&id=${fileId}`;
-}
+const MODES: Mode[] = ["single", "batch", "rewrite", "history"];
 
-function buildSlidesExportPptx(fileId: string) {
-  // For Google Slides
-  return `https://docs.google.com/presentation/d/${fileId}/export/pptx`;
-}
+// Wait for typing to settle before saving a conversion to history
+const HISTORY_DELAY_MS = 1000;
 
-function buildSlidesEmbed(fileId: string) {
-  // For Google Slides embed
-  return `https://docs.google.com/presentation/d/${fileId}/embed?start=false&loop=false&delayms=3000`;
-}
+const TOAST_MS = 4000;
 
-function buildDocsViewer(urlToFile: string) {
-  // Google Docs Viewer for direct file URLs
-  return `https://docs.google.com/gview?embedded=true&url=${encodeURIComponent(urlToFile)}`;
-}
-
-function buildMicrosoftOfficeViewer(urlToFile: string) {
-  // Microsoft Office online viewer for PPT/PPTX
-  return `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(urlToFile)}`;
-}
+export default function DriveLinkConverterPage() {
+  const [initialUrlState] = useState(() =>
+    readUrlState(window.location.search),
+  );
+  const [type, setType] = useState<FileTypeChoice>(
+    () => initialUrlState.type ?? "auto",
+  );
+  const [input, setInput] = useState(
+    () =>
+      initialUrlState.input ?? (initialUrlState.shortcut ? "" : SAMPLE_INPUT),
+  );
+  const [copied, setCopied] = useState(false);
+  const [viewer, setViewer] = useState<ViewerKind | "auto">(
+    () => initialUrlState.viewer ?? "auto",
+  );
+  const [shared, setShared] = useState(false);
+  const [health, setHealth] = useState<{
+    key: string;
+    // null while the check is running
+    value: ConversionHealth | null;
+  } | null>(null);
+  const [slides, setSlides] = useState<SlidesExportOptions>({});
+  const [docs, setDocs] = useState<DocsExportOptions>({});
+  const [sheets, setSheets] = useState<SheetsExportOptions>({});
+  // undefined: on for video/audio only (the library default)
+  const [largeFile, setLargeFile] = useState<boolean | undefined>();
+  const [mode, setMode] = useState<Mode>("single");
+  const [watchClipboard, setWatchClipboard] = useState(false);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const history = useConversionHistory();
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+  const { t, dir } = i18n;
+  const typeHeadingId = useId();
+
+  const baseResult = useMemo(
+    () => convertLink(input, type, { slides, docs, sheets, largeFile }),
+    [input, type, slides, docs, sheets, largeFile],
+  );
+  // Every viewer that applies, best first; the picked one becomes previewUrl
+  const viewers = useMemo(() => listViewers(baseResult), [baseResult]);
+  const result = useMemo(
+    () => (viewer === "auto" ? baseResult : applyViewer(baseResult, viewer)),
+    [baseResult, viewer],
+  );
+  const viewerOption = viewers.find((v) => v.kind === viewer);
 
-function convertLink(input: string, type: FileType): ConvertResult {
-  const raw = input.trim();
-  if (!raw) return { error: "Paste a link first." };
-
-  // If not a Google link, we still allow preview using the same strategy.
-  // But export conversion will only be done for Google links.
-  const google = isProbablyGoogleLink(raw);
-  const fileId = google ? extractGoogleFileId(raw) : null;
-
-  // If it is a Google link but fileId couldn't be extracted
-  if (google && !fileId) {
-    return {
-      error:
-        "This looks like a Google link, but I couldn't extract the file ID. Please paste a full Drive/Docs link.",
-    };
-  }
+  // The concrete type used for this conversion ("auto" resolved)
+  const activeType: FileType = result.type ?? "pdf";
+  const driveDownload =
+    !!result.exportUrl && isDriveDownloadUrl(result.exportUrl);
 
-  // If it's not google, treat raw as direct URL.
-  if (!google) {
-    const direct = raw;
-
-    // Preview strategy
-    if (type === "ppt") {
-      return {
-        exportUrl: direct,
-        previewUrl: buildMicrosoftOfficeViewer(direct),
-        notes: [
-          "This is not a Google Drive link. Using it as-is.",
-          "For PPT preview, the URL must be publicly accessible.",
-        ],
-      };
-    }
-
-    if (type === "pdf") {
-      return {
-        exportUrl: direct,
-        previewUrl: buildDocsViewer(direct),
-        notes: [
-          "This is not a Google Drive link. Using it as-is.",
-          "If the PDF doesn't render, ensure the link is public and allows direct access.",
-        ],
-      };
+  // Reset the viewer when it doesn't apply to the new link/type
+  useEffect(() => {
+    if (viewer !== "auto" && !viewers.some((v) => v.kind === viewer)) {
+      // eslint-disable-next-line react-hooks/set-state-in-effect
+      setViewer("auto");
     }
+  }, [viewer, viewers]);
 
-    // For media
-    return {
-      exportUrl: direct,
-      previewUrl: direct,
-      notes: ["This is not a Google Drive link. Using it as-is."],
-    };
+  async function copy(text: string) {
+    await copyText(text);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1200);
   }
 
-  // Google link
-  const id = fileId!;
-
-  // We generate both a recommended export URL and a preview URL.
-  // Different types need different URLs.
-  switch (type) {
-    case "ppt": {
-      // Best for your provided example (Google Slides link)
-      const exportUrl = buildSlidesExportPptx(id);
-
-      // Preview:
-      // - Option A: Google Slides embed (works for Slides, not for PPTX)
-      // - Option B: Microsoft viewer using a direct file URL
-      // We'll do:
-      // 1) Prefer Slides embed (fast)
-      // 2) Provide Microsoft viewer too using exported PPTX link
-      const embedUrl = buildSlidesEmbed(id);
-
-      return {
-        fileId: id,
-        exportUrl,
-        embedUrl,
-        previewUrl: embedUrl,
-        notes: [
-          "Export URL downloads as PPTX.",
-          "Preview uses Google Slides embed.",
-          "If you want PPT-style preview, switch to Microsoft viewer (provided below).",
-        ],
-      };
-    }
-
-    case "pdf": {
-      // If it was a Google Slides link, this also works:
-      // /export/pdf
-      // But user wants generic.
-      // For Drive files, we use direct download.
-      // For docs/slides links, we can use export/pdf.
-
-      // Heuristic: if it is docs.google.com/presentation
-      const lower = raw.toLowerCase();
-      let exportUrl = buildDriveDirectDownload(id);
-
-      if (lower.includes("docs.google.com/presentation")) {
-        exportUrl = `https://docs.google.com/presentation/d/${id}/export/pdf`;
-      } else if (lower.includes("docs.google.com/document")) {
-        exportUrl = `https://docs.google.com/document/d/${id}/export?format=pdf`;
-      } else if (lower.includes("docs.google.com/spreadsheets")) {
-        // Sheets PDF export needs more params; fallback to drive download.
-        exportUrl = buildDriveDirectDownload(id);
-      }
-
-      return {
-        fileId: id,
-        exportUrl,
-        previewUrl: buildDocsViewer(exportUrl),
-        notes: [
-          "Preview uses Google Docs Viewer.",
-          "Make sure the file is shared publicly (Anyone with the link → Viewer).",
-        ],
-      };
-    }
-
-    case "image": {
-      // Most reliable for images stored in Drive
-      // If it is a Google Docs/Slides, it won't be an image.
-      const exportUrl = buildDriveDirectView(id);
-      return {
-        fileId: id,
-        exportUrl,
-        previewUrl: exportUrl,
-        notes: [
-          "This works best when the Drive file is actually an image.",
-          "If it fails, your file may not be an image or it may not be public.",
-        ],
-      };
-    }
+  // Keep the address bar in sync so the current conversion can be shared
+  useEffect(() => {
+    writeUrlSearch(
+      buildUrlSearch(
+        window.location.search,
+        { input, type, viewer },
+        { input: SAMPLE_INPUT, type: "auto" },
+      ),
+    );
+  }, [input, type, viewer]);
 
-    case "video": {
-      // Direct download is the most consistent for <video>
-      const exportUrl = buildDriveDirectDownload(id);
-      return {
-        fileId: id,
-        exportUrl,
-        previewUrl: exportUrl,
-        notes: [
-          "For Drive videos, direct playback depends on CORS and file permissions.",
-          "If it doesn't play, try hosting on a CDN or use a streaming server.",
-        ],
-      };
-    }
+  // Health results are tied to the URLs they checked
+  const healthKey = `${result.exportUrl}|${result.previewUrl}`;
+  const currentHealth = health?.key === healthKey ? health.value : undefined;
 
-    case "audio": {
-      const exportUrl = buildDriveDirectDownload(id);
-      return {
-        fileId: id,
-        exportUrl,
-        previewUrl: exportUrl,
-        notes: [
-          "For Drive audio, direct playback depends on permissions and browser support.",
-        ],
-      };
+  async function checkHealth() {
+    const key = healthKey;
+    setHealth({ key, value: null });
+    try {
+      const value = await checkConversion(result, healthCheckOptions);
+      setHealth((h) => (h?.key === key ? { key, value } : h));
+    } catch {
+      // Drop the pending state so the check can be retried
+      setHealth((h) => (h?.key === key ? null : h));
     }
-
-    default:
-      return { error: "Unsupported type." };
   }
-}
 
-function Preview({ type, result }: { type: FileType; result: ConvertResult }) {
-  if (!result.previewUrl) return null;
-
-  // PPT: iframe (Google Slides embed OR Microsoft viewer)
-  if (type === "ppt") {
-    return (
-      <div className="w-full">
-        <div className="aspect-video w-full overflow-hidden rounded-2xl border border-slate-200/70 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-950">
-          <iframe
-            title="PPT Preview"
-            src={result.previewUrl}
-            className="h-full w-full"
-            allowFullScreen
-          />
-        </div>
-      </div>
+  // Save successful conversions (except the untouched sample link)
+  const { record } = history;
+  useEffect(() => {
+    if (mode !== "single" || input === SAMPLE_INPUT) return;
+    if (!result.exportUrl || result.error) return;
+    const t = window.setTimeout(
+      () =>
+        record(input, type, result, {
+          viewer: viewer === "auto" ? undefined : viewer,
+          slides,
+          docs,
+          sheets,
+          largeFile,
+        }),
+      HISTORY_DELAY_MS,
     );
-  }
+    return () => window.clearTimeout(t);
+  }, [
+    mode,
+    input,
+    type,
+    result,
+    record,
+    viewer,
+    slides,
+    docs,
+    sheets,
+    largeFile,
+  ]);
+
+  // Paste-to-convert: detect the type, convert, copy the export URL back
+  const convertPasted = useCallback(
+    async (link: string) => {
+      const r = convertLink(link, "auto", {
+        viewer: viewer === "auto" ? undefined : viewer,
+        slides,
+        docs,
+        sheets,
+        largeFile,
+      });
+      setInput(link);
+      setType("auto");
+      setMode("single");
+
+      if (r.error || !r.exportUrl) {
+        setToast({
+          id: Date.now(),
+          tone: "error",
+          title: t("toast.failed"),
+          detail: r.error && translateDiagnostic(t, r.error),
+        });
+        return null;
+      }
+      await copyText(r.exportUrl);
+      setToast({
+        id: Date.now(),
+        title: t("toast.converted", { type: r.type! }),
+        detail: r.exportUrl,
+      });
+      return r.exportUrl;
+    },
+    [viewer, slides, docs, sheets, largeFile, t],
+  );
+  usePasteToConvert(convertPasted, watchClipboard);
 
-  // PDF: iframe
-  if (type === "pdf") {
-    return (
-      <div className="w-full">
-        <div className="h-[70vh] w-full overflow-hidden rounded-2xl border border-slate-200/70 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-950">
-          <iframe
-            title="PDF Preview"
-            src={result.previewUrl}
-            className="h-full w-full"
-          />
-        </div>
-      </div>
-    );
-  }
+  // Screen readers, fonts and the RTL layout follow <html lang dir>
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
 
-  // Image
-  if (type === "image") {
-    return (
-      <div className="w-full">
-        <div className="overflow-hidden rounded-2xl border border-slate-200/70 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-950">
-          <img
-            src={result.previewUrl}
-            alt="Preview"
-            className="w-full max-h-[70vh] object-contain"
-            loading="lazy"
-          />
-        </div>
-      </div>
-    );
+  function changeLocale(next: Locale) {
+    setLocale(next);
+    saveLocale(next);
   }
 
-  // Video
-  if (type === "video") {
-    return (
-      <div className="w-full">
-        <div className="overflow-hidden rounded-2xl border border-slate-200/70 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-950">
-          <video
-            src={result.previewUrl}
-            className="w-full max-h-[70vh]"
-            controls
-          />
-        </div>
-      </div>
-    );
+  useEffect(() => {
+    if (!toast) return;
+    const t = window.setTimeout(() => setToast(null), TOAST_MS);
+    return () => window.clearTimeout(t);
+  }, [toast]);
+
+  function restore(entry: HistoryEntry) {
+    const options = entry.options ?? {};
+    setInput(entry.input);
+    setType(entry.choice);
+    setViewer(options.viewer ?? "auto");
+    setSlides(options.slides ?? {});
+    setDocs(options.docs ?? {});
+    setSheets(options.sheets ?? {});
+    setLargeFile(options.largeFile);
+    setMode("single");
   }
 
-  // Audio
-  if (type === "audio") {
-    return (
-      <div className="w-full">
-        <div className="rounded-2xl border border-slate-200/70 bg-white p-4 shadow-sm dark:border-slate-800 dark:bg-slate-950">
-          <audio src={result.previewUrl} controls className="w-full" />
-        </div>
-      </div>
-    );
+  async function share() {
+    await copyText(window.location.href);
+    setShared(true);
+    window.setTimeout(() => setShared(false), 1200);
   }
 
-  return null;
-}
-
-export default function DriveLinkConverterPage() {
-  const [type, setType] = useState<FileType>("ppt");
-  const [input, setInput] = useState(
-    "https://docs.google.com/presentation/d/1KocQY1Q3rQfZGl8BTNSG8fEqGh-XpUq0/edit?usp=drive_link&ouid=115550835616350388612&rtpof=true&sd=true",
-  );
-  const [copied, setCopied] = useState(false);
-  const [forceMsViewer, setForceMsViewer] = useState(false);
-
-  const result = useMemo(() => {
-    const r = convertLink(input, type);
-
-    // Special: if user chooses PPT and toggles Microsoft viewer,
-    // use the Microsoft preview URL.
-    if (type === "ppt" && forceMsViewer && r.exportUrl) {
-      return {
-        ...r,
-        previewUrl: buildMicrosoftOfficeViewer(r.exportUrl),
-        notes: [...(r.notes ?? []), "Microsoft viewer enabled for preview."],
-      };
-    }
-
-    return r;
-  }, [input, type, forceMsViewer]);
-
-  // Reset Microsoft toggle when leaving PPT
-  useEffect(() => {
-    // eslint-disable-next-line react-hooks/set-state-in-effect
-    if (type !== "ppt") setForceMsViewer(false);
-  }, [type]);
-
-  async function copy(text: string) {
-    try {
-      await navigator.clipboard.writeText(text);
-      setCopied(true);
-      window.setTimeout(() => setCopied(false), 1200);
-    } catch {
-      // Fallback
-      const el = document.createElement("textarea");
-      el.value = text;
-      document.body.appendChild(el);
-      el.select();
-      document.execCommand("copy");
-      document.body.removeChild(el);
-      setCopied(true);
-      window.setTimeout(() => setCopied(false), 1200);
-    }
+  // One-click fixes offered by the conversion notes
+  function applyAction(action: DiagnosticAction) {
+    if (action.kind === "set-type") setType(action.type);
+    else if (action.kind === "set-viewer") setViewer(action.viewer);
+    else setLargeFile(action.enabled);
   }
 
   function reset() {
@@ -455,385 +303,517 @@ export default function DriveLinkConverterPage() {
 
   const outputUrl = result.exportUrl ?? "";
 
-  return (
-    <div className="min-h-screen w-full bg-linear-to-b from-slate-50 to-white px-4 py-10 text-slate-900 dark:from-slate-950 dark:to-slate-950 dark:text-slate-100">
-      <div className="mx-auto w-full max-w-6xl">
-        {/* Header */}
-        <div className="flex flex-col gap-3">
-          <motion.div
-            initial={{ opacity: 0, y: 8 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="inline-flex items-center gap-2"
-          >
-            <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-slate-900 text-white shadow-sm dark:text-slate-950">
-              <img src="/favicon.png" className="h-5 w-5"></img>
-            </div>
-            <div>
-              <h1 className="text-xl font-semibold tracking-tight sm:text-2xl">
-                Google Drive Link Converter
-              </h1>
-              <p className="text-sm text-slate-600 dark:text-slate-400">
-                Convert Drive/Docs links into exportable URLs + preview before
-                you use them.
-              </p>
-            </div>
-          </motion.div>
-        </div>
+  useShortcuts({
+    copy: () => {
+      if (mode === "single" && outputUrl) void copy(outputUrl);
+    },
+    reset: () => {
+      if (mode === "single") reset();
+    },
+  });
 
-        {/* Main grid */}
-        <div className="mt-8 grid gap-6 lg:grid-cols-[420px_1fr]">
-          {/* Left panel */}
-          <motion.div
-            initial={{ opacity: 0, x: -10 }}
-            animate={{ opacity: 1, x: 0 }}
-            className="rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950"
-          >
-            {/* File type selector */}
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="text-sm font-medium">1) Select file type</div>
-                <div className="text-xs text-slate-500 dark:text-slate-400">
-                  affects export + preview
-                </div>
+  // Read out by the live regions below; errors announce themselves (alert)
+  const resultStatus =
+    outputUrl && !result.error ? t("a11y.converted", { type: activeType }) : "";
+
+  return (
+    <I18nContext.Provider value={i18n}>
+      <div
+        lang={locale}
+        dir={dir}
+        className="min-h-screen w-full bg-linear-to-b from-slate-50 to-white px-4 py-10 text-slate-900 dark:from-slate-950 dark:to-slate-950 dark:text-slate-100"
+      >
+        <div className="mx-auto w-full max-w-6xl">
+          {/* Header */}
+          <div className="flex flex-col gap-3">
+            <motion.div
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="inline-flex items-center gap-2"
+            >
+              <div className="flex h-10 w-10 items-center justify-center rounded-2xl bg-slate-900 text-white shadow-sm dark:text-slate-950">
+                <img src="/favicon.png" alt="" className="h-5 w-5"></img>
               </div>
+              <div>
+                <h1 className="text-xl font-semibold tracking-tight sm:text-2xl">
+                  {t("app.title")}
+                </h1>
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {t("app.tagline")}
+                </p>
+              </div>
+            </motion.div>
 
-              <div className="grid grid-cols-2 gap-2">
-                {FILE_TYPES.map((t) => (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              {/* Mode switch */}
+              <div className="inline-flex w-fit rounded-2xl border border-slate-200 bg-white p-1 text-sm dark:border-slate-800 dark:bg-slate-950">
+                {MODES.map((m) => (
                   <button
-                    key={t.key}
-                    onClick={() => setType(t.key)}
+                    key={m}
+                    onClick={() => setMode(m)}
                     className={classNames(
-                      "group flex items-start gap-2 rounded-2xl border px-3 py-3 text-left transition",
-                      type === t.key
-                        ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-950"
-                        : "border-slate-200 bg-white hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-950 dark:hover:bg-slate-900",
+                      "rounded-xl px-3 py-1.5 font-medium transition",
+                      mode === m
+                        ? "bg-slate-900 text-white dark:bg-white dark:text-slate-950"
+                        : "text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900",
                     )}
                   >
-                    <div
-                      className={classNames(
-                        "mt-0.5 flex h-8 w-8 items-center justify-center rounded-xl",
-                        type === t.key
-                          ? "bg-white/15"
-                          : "bg-slate-100 dark:bg-slate-900",
-                      )}
-                    >
-                      {t.icon}
-                    </div>
-                    <div className="min-w-0">
-                      <div className="text-sm font-semibold leading-5">
-                        {t.label}
-                      </div>
-                      <div
-                        className={classNames(
-                          "text-xs",
-                          // When a type is selected we previously used `text-white/80`.
-                          // In dark mode the selected button background becomes white,
-                          // which made the hint text white-on-white and unreadable.
-                          // Use a dark-mode specific color for the selected state so
-                          // the hint remains visible in both themes.
-                          type === t.key
-                            ? "text-white/80 dark:text-slate-700"
-                            : "text-slate-500 dark:text-slate-400",
-                        )}
-                      >
-                        {t.hint}
-                      </div>
-                    </div>
+                    {t(`mode.${m}`)}
                   </button>
                 ))}
               </div>
 
-              {type === "ppt" && (
-                <div className="mt-3 rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
-                  <div className="flex items-start gap-3">
-                    <div className="mt-0.5">
-                      <Presentation className="h-4 w-4" />
+              {/* Language switcher */}
+              <label className="inline-flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300">
+                <Languages className="h-4 w-4" />
+                <span className="sr-only">{t("app.language")}</span>
+                <select
+                  value={locale}
+                  onChange={(e) => changeLocale(e.target.value as Locale)}
+                  className="rounded-xl border border-slate-200 bg-white px-2 py-1 text-sm dark:border-slate-800 dark:bg-slate-950"
+                >
+                  {LOCALES.map((l) => (
+                    <option key={l.code} value={l.code} lang={l.code}>
+                      {l.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          {/* Main grid */}
+          {mode === "history" ? (
+            <HistoryPanel
+              entries={history.entries}
+              onRestore={restore}
+              onUpdate={history.update}
+              onRemove={history.remove}
+            />
+          ) : mode === "batch" ? (
+            <BatchConverter type={type} onTypeChange={setType} />
+          ) : mode === "rewrite" ? (
+            <DocumentRewriter type={type} onTypeChange={setType} />
+          ) : (
+            <div className="mt-8 grid gap-6 lg:grid-cols-[420px_1fr]">
+              {/* Left panel */}
+              <motion.div
+                initial={{ opacity: 0, x: dir === "rtl" ? 10 : -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="rounded-3xl border border-slate-200/70 bg-white p-5 shadow-sm dark:border-slate-800 dark:bg-slate-950"
+              >
+                {/* File type selector */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div id={typeHeadingId} className="text-sm font-medium">
+                      {t("step.type")}
                     </div>
-                    <div className="min-w-0">
-                      <div className="text-sm font-medium">
-                        PPT preview mode
-                      </div>
-                      <div className="mt-2 flex items-center justify-between gap-3">
-                        <div className="text-xs text-slate-600 dark:text-slate-300">
-                          Use Microsoft viewer (PPT-like)
-                        </div>
-                        <button
-                          onClick={() => setForceMsViewer((s) => !s)}
-                          className={classNames(
-                            "relative inline-flex h-7 w-12 items-center rounded-full border transition",
-                            forceMsViewer
-                              ? "border-slate-900 bg-slate-900 dark:border-white dark:bg-white"
-                              : "border-slate-300 bg-white dark:border-slate-700 dark:bg-slate-950",
-                          )}
-                        >
-                          <span
-                            className={classNames(
-                              "inline-block h-5 w-5 transform rounded-full transition",
-                              forceMsViewer
-                                ? "translate-x-6 bg-white dark:bg-slate-950"
-                                : "translate-x-1 bg-slate-900 dark:bg-white",
-                            )}
-                          />
-                        </button>
-                      </div>
-                      <div className="mt-2 text-xs text-slate-500 dark:text-slate-400">
-                        If your file is a Google Slides link, the default embed
-                        is the most reliable.
-                      </div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      {t("step.type.hint")}
                     </div>
                   </div>
-                </div>
-              )}
-            </div>
-
-            {/* Input */}
-            <div className="mt-6 space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="text-sm font-medium">2) Paste link</div>
-                <button
-                  onClick={reset}
-                  className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
-                >
-                  <RotateCcw className="h-3.5 w-3.5" />
-                  Reset
-                </button>
-              </div>
 
-              <div className="relative">
-                <div className="pointer-events-none absolute left-3 top-3 text-slate-400">
-                  <Link2 className="h-4 w-4" />
+                  <TypePicker
+                    value={type}
+                    detected={activeType}
+                    onChange={setType}
+                    labelledBy={typeHeadingId}
+                  />
+
+                  {type === "auto" && result.detection && (
+                    <div className="flex items-start gap-2 rounded-2xl border border-slate-200 bg-slate-50 p-3 text-xs text-slate-600 dark:border-slate-800 dark:bg-slate-900/40 dark:text-slate-300">
+                      <Sparkles className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                      <div>
+                        {t("page.detected", {
+                          ...result.detection.params,
+                          type: activeType,
+                          reason: result.detection.key,
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {activeType === "doc" && (
+                    <DocsOptions value={docs} onChange={setDocs} />
+                  )}
+
+                  {activeType === "sheet" && (
+                    <SheetsOptions
+                      value={sheets}
+                      onChange={setSheets}
+                      linkGid={extractSheetGid(input)}
+                    />
+                  )}
+
+                  {activeType === "ppt" && (
+                    <SlidesOptions
+                      value={slides}
+                      onChange={setSlides}
+                      linkPageId={extractSlidePageId(input)}
+                    />
+                  )}
+
+                  {driveDownload && (
+                    <Toggle
+                      label={t("page.large-file")}
+                      checked={hasCode(result, "large-file")}
+                      onChange={setLargeFile}
+                    />
+                  )}
                 </div>
-                <textarea
-                  value={input}
-                  onChange={(e) => setInput(e.target.value)}
-                  rows={5}
-                  placeholder="Paste a Google Drive/Docs link here..."
-                  className="w-full resize-none rounded-2xl border border-slate-200 bg-white px-10 py-3 text-sm outline-none ring-0 transition focus:border-slate-900 dark:border-slate-800 dark:bg-slate-950 dark:focus:border-white"
-                />
-              </div>
 
-              {/* Error */}
-              <AnimatePresence>
-                {result.error && (
-                  <motion.div
-                    initial={{ opacity: 0, y: -6 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    exit={{ opacity: 0, y: -6 }}
-                    className="flex items-start gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100"
-                  >
-                    <AlertTriangle className="mt-0.5 h-4 w-4" />
-                    <div className="text-sm">{result.error}</div>
-                  </motion.div>
-                )}
-              </AnimatePresence>
-            </div>
+                {/* Input */}
+                <div className="mt-6 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-medium">{t("step.paste")}</div>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={share}
+                        title={t("page.share.title")}
+                        className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+                      >
+                        {shared ? (
+                          <Check className="h-3.5 w-3.5" />
+                        ) : (
+                          <Share2 className="h-3.5 w-3.5" />
+                        )}
+                        {shared ? t("page.share.done") : t("page.share")}
+                      </button>
+                      <button
+                        onClick={reset}
+                        aria-keyshortcuts={SHORTCUT_KEYS.reset}
+                        title={SHORTCUT_KEYS.reset}
+                        className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+                      >
+                        <RotateCcw className="h-3.5 w-3.5" />
+                        {t("page.reset")}
+                      </button>
+                    </div>
+                  </div>
 
-            {/* Output */}
-            <div className="mt-6 space-y-3">
-              <div className="text-sm font-medium">3) Exportable link</div>
+                  <div className="relative">
+                    <div className="pointer-events-none absolute start-3 top-3 text-slate-400">
+                      <Link2 className="h-4 w-4" />
+                    </div>
+                    <textarea
+                      value={input}
+                      onChange={(e) => setInput(e.target.value)}
+                      autoFocus={initialUrlState.shortcut}
+                      rows={5}
+                      dir="auto"
+                      placeholder={t("page.input.placeholder")}
+                      className="w-full resize-none rounded-2xl border border-slate-200 bg-white px-10 py-3 text-sm outline-none ring-0 transition focus:border-slate-900 dark:border-slate-800 dark:bg-slate-950 dark:focus:border-white"
+                    />
+                  </div>
 
-              <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
-                <div className="flex items-start justify-between gap-3">
-                  <div className="min-w-0">
+                  <div className="space-y-1">
+                    <Toggle
+                      label={t("page.watch-clipboard")}
+                      checked={watchClipboard}
+                      onChange={setWatchClipboard}
+                    />
                     <div className="text-xs text-slate-500 dark:text-slate-400">
-                      Output
+                      {t("page.paste-hint")}
                     </div>
-                    <div className="mt-1 break-all text-sm font-medium">
-                      {outputUrl || (
-                        <span className="text-slate-400">
-                          Exportable link will appear here…
-                        </span>
-                      )}
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      {t("page.shortcuts")}
                     </div>
                   </div>
 
-                  <div className="flex shrink-0 flex-col gap-2">
-                    <button
-                      onClick={() => outputUrl && copy(outputUrl)}
-                      disabled={!outputUrl}
-                      className={classNames(
-                        "inline-flex items-center justify-center gap-2 rounded-2xl px-3 py-2 text-sm font-semibold transition",
-                        outputUrl
-                          ? "bg-slate-900 text-white hover:opacity-90 dark:bg-white dark:text-slate-950"
-                          : "cursor-not-allowed bg-slate-200 text-slate-500 dark:bg-slate-800 dark:text-slate-400",
-                      )}
-                    >
-                      {copied ? (
-                        <>
-                          <Check className="h-4 w-4" />
-                          Copied
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="h-4 w-4" />
-                          Copy
-                        </>
-                      )}
-                    </button>
-
-                    {outputUrl && (
-                      <a
-                        href={outputUrl}
-                        target="_blank"
-                        rel="noreferrer"
-                        className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+                  {/* Error */}
+                  <AnimatePresence>
+                    {result.error && (
+                      <motion.div
+                        role="alert"
+                        initial={{ opacity: 0, y: -6 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -6 }}
+                        className="flex items-start gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100"
                       >
-                        <ExternalLink className="h-4 w-4" />
-                        Open
-                      </a>
+                        <AlertTriangle className="mt-0.5 h-4 w-4" />
+                        <div className="text-sm">
+                          {t(result.error.key, result.error.params)}
+                          {result.error.fix && (
+                            <div className="mt-1 text-xs opacity-80">
+                              {t(
+                                `${result.error.key}.fix`,
+                                result.error.params,
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </motion.div>
                     )}
-                  </div>
+                  </AnimatePresence>
                 </div>
 
-                {/* Notes */}
-                {!!result.notes?.length && (
-                  <div className="mt-3 space-y-1">
-                    {result.notes.map((n, i) => (
+                {/* Output */}
+                <div className="mt-6 space-y-3">
+                  <div className="text-sm font-medium">{t("step.output")}</div>
+
+                  <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="text-xs text-slate-500 dark:text-slate-400">
+                          {t("page.output")}
+                        </div>
+                        <div
+                          dir={outputUrl ? "ltr" : undefined}
+                          className="mt-1 break-all text-sm font-medium"
+                        >
+                          {outputUrl || (
+                            <span className="text-slate-400">
+                              {t("page.output.empty")}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex shrink-0 flex-col gap-2">
+                        <button
+                          onClick={() => outputUrl && copy(outputUrl)}
+                          disabled={!outputUrl}
+                          aria-keyshortcuts={SHORTCUT_KEYS.copy}
+                          title={SHORTCUT_KEYS.copy}
+                          className={classNames(
+                            "inline-flex items-center justify-center gap-2 rounded-2xl px-3 py-2 text-sm font-semibold transition",
+                            outputUrl
+                              ? "bg-slate-900 text-white hover:opacity-90 dark:bg-white dark:text-slate-950"
+                              : "cursor-not-allowed bg-slate-200 text-slate-500 dark:bg-slate-800 dark:text-slate-400",
+                          )}
+                        >
+                          {copied ? (
+                            <>
+                              <Check className="h-4 w-4" />
+                              {t("page.copied")}
+                            </>
+                          ) : (
+                            <>
+                              <Copy className="h-4 w-4" />
+                              {t("page.copy")}
+                            </>
+                          )}
+                        </button>
+
+                        {outputUrl && (
+                          <a
+                            href={outputUrl}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+                          >
+                            <ExternalLink className="h-4 w-4" />
+                            {t("page.open")}
+                          </a>
+                        )}
+                      </div>
+                    </div>
+
+                    {/* Notes */}
+                    {!!result.notes?.length && (
+                      <div className="mt-3">
+                        <DiagnosticList
+                          items={result.notes}
+                          onAction={applyAction}
+                        />
+                      </div>
+                    )}
+
+                    {/* Health check */}
+                    {outputUrl && (
                       <div
-                        key={i}
-                        className="text-xs text-slate-600 dark:text-slate-300"
+                        aria-live="polite"
+                        className="mt-3 flex flex-wrap items-center gap-2"
                       >
-                        • {n}
+                        <button
+                          onClick={checkHealth}
+                          disabled={currentHealth === null}
+                          className="inline-flex items-center gap-1 rounded-xl border border-slate-200 bg-white px-2 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-300 dark:hover:bg-slate-900"
+                        >
+                          <ShieldCheck className="h-3.5 w-3.5" />
+                          {t("page.check-link")}
+                        </button>
+                        {currentHealth === null && (
+                          <HealthBadge health={null} />
+                        )}
+                        {currentHealth?.export && (
+                          <HealthBadge
+                            health={currentHealth.export}
+                            label={t("page.health.export")}
+                          />
+                        )}
+                        {currentHealth?.preview &&
+                          currentHealth.preview !== currentHealth.export && (
+                            <HealthBadge
+                              health={currentHealth.preview}
+                              label={t("page.health.preview")}
+                            />
+                          )}
+                        {currentHealth?.export &&
+                          currentHealth.export.status !== "ok" && (
+                            <div className="w-full text-xs text-slate-600 dark:text-slate-300">
+                              {t(
+                                currentHealth.export.key,
+                                currentHealth.export.params,
+                              )}
+                            </div>
+                          )}
                       </div>
-                    ))}
-                  </div>
-                )}
+                    )}
 
-                {/* Extra links for PPT */}
-                {type === "ppt" && result.exportUrl && (
-                  <div className="mt-4 space-y-2">
-                    <div className="text-xs font-semibold text-slate-700 dark:text-slate-200">
-                      PPT preview alternatives
-                    </div>
+                    {/* Other viewers for the same file */}
+                    {viewers.length > 1 && (
+                      <div className="mt-4 space-y-2">
+                        <div className="text-xs font-semibold text-slate-700 dark:text-slate-200">
+                          {t("page.alternatives")}
+                        </div>
 
-                    <div className="grid gap-2">
-                      <div className="rounded-xl border border-slate-200 bg-white p-3 text-xs dark:border-slate-800 dark:bg-slate-950">
-                        <div className="font-semibold">Microsoft Viewer</div>
-                        <div className="mt-1 break-all text-slate-600 dark:text-slate-300">
-                          {buildMicrosoftOfficeViewer(result.exportUrl)}
+                        <div className="grid gap-2">
+                          {viewers.map((v) => (
+                            <div
+                              key={v.kind}
+                              className="rounded-xl border border-slate-200 bg-white p-3 text-xs dark:border-slate-800 dark:bg-slate-950"
+                            >
+                              <div className="font-semibold">
+                                {t(`viewer.${v.kind}`)}
+                              </div>
+                              <div
+                                dir="ltr"
+                                className="mt-1 break-all text-slate-600 dark:text-slate-300"
+                              >
+                                {v.url}
+                              </div>
+                            </div>
+                          ))}
                         </div>
                       </div>
+                    )}
+                  </div>
 
-                      {result.embedUrl && (
-                        <div className="rounded-xl border border-slate-200 bg-white p-3 text-xs dark:border-slate-800 dark:bg-slate-950">
-                          <div className="font-semibold">
-                            Google Slides Embed
-                          </div>
-                          <div className="mt-1 break-all text-slate-600 dark:text-slate-300">
-                            {result.embedUrl}
-                          </div>
-                        </div>
-                      )}
+                  <div className="text-xs text-slate-500 dark:text-slate-400">
+                    {t("page.tip")}
+                  </div>
+                </div>
+
+                {/* Embed code */}
+                <EmbedCode result={baseResult} viewer={viewerOption} />
+
+                {/* QR code + short link */}
+                <QrCodePanel result={result} />
+              </motion.div>
+
+              {/* Right panel */}
+              <motion.div
+                initial={{ opacity: 0, x: dir === "rtl" ? -10 : 10 }}
+                animate={{ opacity: 1, x: 0 }}
+                className="space-y-4"
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-semibold">
+                      {t("page.preview")}
+                    </div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      {t("page.preview.hint")}
                     </div>
                   </div>
-                )}
-              </div>
 
-              <div className="text-xs text-slate-500 dark:text-slate-400">
-                Tip: your Drive file must be shared as{" "}
-                <span className="font-semibold">
-                  Anyone with the link → Viewer
-                </span>{" "}
-                for previews to work.
-              </div>
-            </div>
-          </motion.div>
-
-          {/* Right panel */}
-          <motion.div
-            initial={{ opacity: 0, x: 10 }}
-            animate={{ opacity: 1, x: 0 }}
-            className="space-y-4"
-          >
-            <div className="flex items-center justify-between">
-              <div>
-                <div className="text-sm font-semibold">Preview</div>
-                <div className="text-xs text-slate-500 dark:text-slate-400">
-                  Verify the converted link works
+                  {result.fileId && (
+                    <div className="rounded-2xl border border-slate-200 bg-white px-3 py-1 text-xs text-slate-700 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200">
+                      {t("page.file-id")}{" "}
+                      <span className="font-mono">{result.fileId}</span>
+                    </div>
+                  )}
                 </div>
-              </div>
 
-              {result.fileId && (
-                <div className="rounded-2xl border border-slate-200 bg-white px-3 py-1 text-xs text-slate-700 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200">
-                  File ID: <span className="font-mono">{result.fileId}</span>
-                </div>
-              )}
-            </div>
+                {/* File type description */}
+                <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-semibold text-slate-900 dark:text-slate-100">
+                        {t(`type.${activeType}.label`)}
+                      </div>
+                      <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
+                        {t(`type.${activeType}.description`)}
+                      </p>
+                    </div>
 
-            {/* File type description */}
-            <div className="rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
-              <div className="flex items-start justify-between">
-                <div className="min-w-0 flex-1">
-                  <div className="text-sm font-semibold text-slate-900 dark:text-slate-100">
-                    {FILE_TYPES.find((t) => t.key === type)?.label}
+                    {result.previewUrl && (
+                      <button
+                        onClick={() =>
+                          result.previewUrl && copy(result.previewUrl)
+                        }
+                        className="ms-3 inline-flex shrink-0 items-center justify-center gap-2 rounded-xl border border-slate-200 bg-white px-2 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-300 dark:hover:bg-slate-900"
+                        title={t("page.copy-url.title")}
+                      >
+                        {copied ? (
+                          <>
+                            <Check className="h-3.5 w-3.5" />
+                            <span className="hidden sm:inline">
+                              {t("page.copied")}
+                            </span>
+                          </>
+                        ) : (
+                          <>
+                            <Copy className="h-3.5 w-3.5" />
+                            <span className="hidden sm:inline">
+                              {t("page.copy-url")}
+                            </span>
+                          </>
+                        )}
+                      </button>
+                    )}
                   </div>
-                  <p className="mt-1 text-xs text-slate-600 dark:text-slate-300">
-                    {FILE_TYPES.find((t) => t.key === type)?.description}
-                  </p>
                 </div>
 
-                {result.previewUrl && (
-                  <button
-                    onClick={() => result.previewUrl && copy(result.previewUrl)}
-                    className="ml-3 inline-flex shrink-0 items-center justify-center gap-2 rounded-xl border border-slate-200 bg-white px-2 py-2 text-xs font-semibold text-slate-700 transition hover:bg-slate-100 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-300 dark:hover:bg-slate-900"
-                    title="Copy preview URL"
-                  >
-                    {copied ? (
-                      <>
-                        <Check className="h-3.5 w-3.5" />
-                        <span className="hidden sm:inline">Copied</span>
-                      </>
-                    ) : (
-                      <>
-                        <Copy className="h-3.5 w-3.5" />
-                        <span className="hidden sm:inline">Copy URL</span>
-                      </>
-                    )}
-                  </button>
+                {!result.previewUrl || result.error ? (
+                  <div className="flex h-[60vh] w-full items-center justify-center rounded-3xl border border-dashed border-slate-300 bg-white p-6 text-center text-slate-500 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-400">
+                    <div className="max-w-sm">
+                      <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-900">
+                        <Link2 className="h-5 w-5" />
+                      </div>
+                      <div className="mt-3 text-sm font-semibold">
+                        {t("page.empty")}
+                      </div>
+                      <div className="mt-1 text-xs">{t("page.empty.hint")}</div>
+                    </div>
+                  </div>
+                ) : (
+                  <ViewerPreview
+                    key={viewers.map((v) => v.url).join("|")}
+                    viewers={viewers}
+                    type={activeType}
+                    preferred={viewer}
+                    onPreferredChange={setViewer}
+                  />
                 )}
-              </div>
-            </div>
 
-            {!result.previewUrl || result.error ? (
-              <div className="flex h-[60vh] w-full items-center justify-center rounded-3xl border border-dashed border-slate-300 bg-white p-6 text-center text-slate-500 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-400">
-                <div className="max-w-sm">
-                  <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-2xl bg-slate-100 dark:bg-slate-900">
-                    <Link2 className="h-5 w-5" />
+                {/* Small footer */}
+                <div className="rounded-3xl border border-slate-200/70 bg-white p-4 text-xs text-slate-600 shadow-sm dark:border-slate-800 dark:bg-slate-950 dark:text-slate-300">
+                  <div className="font-semibold text-slate-900 dark:text-slate-100">
+                    {t("page.important")}
                   </div>
-                  <div className="mt-3 text-sm font-semibold">
-                    Paste a link to preview
+                  <div className="mt-2 space-y-1">
+                    <div>• {t("page.important.private")}</div>
+                    <div>• {t("page.important.cors")}</div>
+                    <div>• {t("page.important.cdn")}</div>
                   </div>
-                  <div className="mt-1 text-xs">
-                    Choose a file type, paste a link, and the preview will
-                    render here.
-                  </div>
-                </div>
-              </div>
-            ) : (
-              <Preview type={type} result={result} />
-            )}
-
-            {/* Small footer */}
-            <div className="rounded-3xl border border-slate-200/70 bg-white p-4 text-xs text-slate-600 shadow-sm dark:border-slate-800 dark:bg-slate-950 dark:text-slate-300">
-              <div className="font-semibold text-slate-900 dark:text-slate-100">
-                Important
-              </div>
-              <div className="mt-2 space-y-1">
-                <div>
-                  • Private Drive files will not preview (permissions required).
-                </div>
-                <div>
-                  • Video/Audio playback from Drive may fail due to CORS.
                 </div>
-                <div>
-                  • For production, prefer storing files on S3/Cloudflare
-                  R2/CDN.
-                </div>
-              </div>
+              </motion.div>
             </div>
-          </motion.div>
+          )}
+        </div>
+
+        <Toast toast={toast} onClose={() => setToast(null)} />
+
+        {/* Screen reader announcements */}
+        <div role="status" className="sr-only">
+          {mode === "single" && resultStatus}
+        </div>
+        <div aria-live="polite" className="sr-only">
+          {(copied || shared) && t("a11y.copied")}
         </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 }
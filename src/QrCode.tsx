@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import QRCode, { type QRCodeErrorCorrectionLevel } from "qrcode";
+import { Check, Copy, FileDown, Link2, Loader2, QrCode } from "lucide-react";
+import { ShortenError, shortenUrl, type ConvertResult } from "./lib";
+import { shortenOptions } from "./config";
+import { Segmented, Toggle } from "./controls";
+import { useI18n } from "./i18n";
+import { copyText, downloadText, downloadUrl } from "./ui";
+
+/**
+ * QR code + short link for the export or preview URL, for projecting
+ * in class or printing on handouts. Rendered client-side; the short link
+ * step only shows when a shortener endpoint is configured (config.ts).
+ */
+
+type Target = "export" | "preview";
+
+type Size = "128" | "256" | "512" | "1024";
+const SIZES: Size[] = ["128", "256", "512", "1024"];
+
+// L ~7%, M ~15%, Q ~25%, H ~30% of the code can be damaged and still scan
+const LEVELS: QRCodeErrorCorrectionLevel[] = ["L", "M", "Q", "H"];
+
+// Quiet zone around the code, in modules
+const MARGIN = 2;
+
+export default function QrCodePanel({ result }: { result: ConvertResult }) {
+  const { t } = useI18n();
+  const [target, setTarget] = useState<Target>("export");
+  const [size, setSize] = useState<Size>("256");
+  const [level, setLevel] = useState<QRCodeErrorCorrectionLevel>("M");
+  // Long URL -> short URL, so switching targets keeps earlier results
+  const [shortUrls, setShortUrls] = useState<Record<string, string>>({});
+  const [useShort, setUseShort] = useState(true);
+  const [shortening, setShortening] = useState(false);
+  const [shortError, setShortError] = useState<ShortenError | null>(null);
+  const [svg, setSvg] = useState<{ text: string; markup: string } | null>(null);
+  // Catalogue key of the message shown instead of the code
+  const [qrError, setQrError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const longUrl =
+    target === "preview" && result.previewUrl
+      ? result.previewUrl
+      : result.exportUrl;
+  const shortUrl = longUrl ? shortUrls[longUrl] : undefined;
+  const text = (useShort && shortUrl) || longUrl;
+
+  useEffect(() => {
+    if (!text) return;
+    let cancelled = false;
+    QRCode.toString(text, {
+      type: "svg",
+      errorCorrectionLevel: level,
+      margin: MARGIN,
+      width: Number(size),
+    }).then(
+      (markup) => {
+        if (cancelled) return;
+        setSvg({ text, markup });
+        setQrError(null);
+      },
+      () => {
+        if (cancelled) return;
+        setSvg(null);
+        setQrError("qr.error");
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [text, level, size]);
+
+  if (!result.exportUrl || result.error) return null;
+
+  async function shorten() {
+    if (!shortenOptions || !longUrl) return;
+    setShortening(true);
+    setShortError(null);
+    try {
+      const short = await shortenUrl(longUrl, shortenOptions);
+      setShortUrls((s) => ({ ...s, [longUrl]: short }));
+      setUseShort(true);
+    } catch (err) {
+      setShortError(
+        err instanceof ShortenError
+          ? err
+          : new ShortenError("shorten.request-failed", { error: String(err) }),
+      );
+    } finally {
+      setShortening(false);
+    }
+  }
+
+  async function copyShort() {
+    if (!shortUrl) return;
+    await copyText(shortUrl);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1200);
+  }
+
+  async function downloadPng() {
+    if (!text) return;
+    const dataUrl = await QRCode.toDataURL(text, {
+      errorCorrectionLevel: level,
+      margin: MARGIN,
+      width: Number(size),
+    });
+    downloadUrl(`qr-${target}.png`, dataUrl);
+  }
+
+  const current = svg?.text === text ? svg : null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="inline-flex items-center gap-2 text-sm font-medium">
+        <QrCode className="h-4 w-4" />
+        {t("qr.heading")}
+      </div>
+
+      <Segmented
+        options={result.previewUrl ? ["export", "preview"] : ["export"]}
+        value={target}
+        onChange={setTarget}
+        labels={{ export: t("qr.export"), preview: t("qr.preview") }}
+      />
+
+      {shortenOptions && (
+        <div className="space-y-2 rounded-2xl border border-slate-200 bg-slate-50 p-3 dark:border-slate-800 dark:bg-slate-900/40">
+          {shortUrl ? (
+            <>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 break-all text-sm font-medium">
+                  {shortUrl}
+                </div>
+                <button
+                  onClick={copyShort}
+                  className="inline-flex shrink-0 items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+                >
+                  {copied ? (
+                    <Check className="h-3.5 w-3.5" />
+                  ) : (
+                    <Copy className="h-3.5 w-3.5" />
+                  )}
+                  {copied ? t("page.copied") : t("page.copy")}
+                </button>
+              </div>
+              <Toggle
+                label={t("qr.use-short")}
+                checked={useShort}
+                onChange={setUseShort}
+              />
+            </>
+          ) : (
+            <button
+              onClick={shorten}
+              disabled={shortening}
+              className="inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-1.5 text-xs font-semibold text-slate-900 transition hover:bg-slate-50 disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+            >
+              {shortening ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Link2 className="h-3.5 w-3.5" />
+              )}
+              {t("qr.shorten")}
+            </button>
+          )}
+          {shortError && (
+            <div className="text-xs text-amber-700 dark:text-amber-300">
+              {t(shortError.key, shortError.params)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-start gap-4">
+        <div className="flex h-40 w-40 shrink-0 items-center justify-center overflow-hidden rounded-2xl border border-slate-200 bg-white p-2 dark:border-slate-800">
+          {current ? (
+            <img
+              src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(current.markup)}`}
+              alt={t("qr.alt", { url: text ?? "" })}
+              className="h-full w-full"
+            />
+          ) : (
+            <div className="text-center text-xs text-slate-500 dark:text-slate-400">
+              {t(qrError ?? "qr.rendering")}
+            </div>
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1 space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs text-slate-600 dark:text-slate-300">
+              {t("qr.size")}
+            </div>
+            <Segmented options={SIZES} value={size} onChange={setSize} />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-xs text-slate-600 dark:text-slate-300">
+              {t("qr.level")}
+            </div>
+            <Segmented options={LEVELS} value={level} onChange={setLevel} />
+          </div>
+          <div className="flex gap-2 pt-1">
+            <button
+              disabled={!current}
+              onClick={() =>
+                current &&
+                downloadText(
+                  `qr-${target}.svg`,
+                  current.markup,
+                  "image/svg+xml",
+                )
+              }
+              className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+            >
+              <FileDown className="h-4 w-4" />
+              SVG
+            </button>
+            <button
+              disabled={!current}
+              onClick={downloadPng}
+              className="inline-flex items-center justify-center gap-2 rounded-2xl border border-slate-200 bg-white px-3 py-2 text-sm font-semibold text-slate-900 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-100 dark:hover:bg-slate-900"
+            >
+              <FileDown className="h-4 w-4" />
+              PNG
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
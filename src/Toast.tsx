@@ -0,0 +1,63 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { AlertTriangle, CheckCircle2, X } from "lucide-react";
+import { useI18n } from "./i18n";
+
+/**
+ * Bottom-right confirmation toast. The page owns the state and clears it
+ * (on timeout or via onClose).
+ */
+
+export type ToastMessage = {
+  // Changes per toast so a repeated message re-animates
+  id: number;
+  title: string;
+  detail?: string;
+  tone?: "success" | "error";
+};
+
+export default function Toast({
+  toast,
+  onClose,
+}: {
+  toast: ToastMessage | null;
+  onClose: () => void;
+}) {
+  const { t } = useI18n();
+  return (
+    <div className="pointer-events-none fixed inset-x-0 bottom-4 z-50 flex justify-center px-4 sm:justify-end">
+      <AnimatePresence>
+        {toast && (
+          <motion.div
+            key={toast.id}
+            role="status"
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 12 }}
+            className="pointer-events-auto flex w-full max-w-sm items-start gap-3 rounded-2xl border border-slate-200 bg-white p-3 shadow-lg dark:border-slate-800 dark:bg-slate-950"
+          >
+            {toast.tone === "error" ? (
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600 dark:text-amber-400" />
+            ) : (
+              <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600 dark:text-emerald-400" />
+            )}
+            <div className="min-w-0 flex-1">
+              <div className="text-sm font-semibold">{toast.title}</div>
+              {toast.detail && (
+                <div className="mt-0.5 break-all text-xs text-slate-600 dark:text-slate-300">
+                  {toast.detail}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={onClose}
+              title={t("toast.dismiss")}
+              className="rounded-lg p-1 text-slate-500 hover:bg-slate-100 dark:text-slate-400 dark:hover:bg-slate-900"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
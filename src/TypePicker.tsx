@@ -0,0 +1,130 @@
+import React, { useRef } from "react";
+import {
+  FileSpreadsheet,
+  FileText,
+  FileType as FileTypeIcon,
+  Image as ImageIcon,
+  Music,
+  Presentation,
+  Sparkles,
+  Video,
+} from "lucide-react";
+import { FILE_TYPES, type FileType, type FileTypeChoice } from "./lib";
+import { useI18n } from "./i18n";
+import { classNames } from "./ui";
+
+/**
+ * File type picker: a radio group of cards. Tab enters on the selected
+ * card; arrow keys move and select (mirrored in RTL), Home/End jump to
+ * the ends.
+ */
+
+const FILE_TYPE_ICONS: Record<FileTypeChoice, React.ReactNode> = {
+  auto: <Sparkles className="h-4 w-4" />,
+  ppt: <Presentation className="h-4 w-4" />,
+  pdf: <FileText className="h-4 w-4" />,
+  doc: <FileTypeIcon className="h-4 w-4" />,
+  sheet: <FileSpreadsheet className="h-4 w-4" />,
+  image: <ImageIcon className="h-4 w-4" />,
+  video: <Video className="h-4 w-4" />,
+  audio: <Music className="h-4 w-4" />,
+};
+
+// Labels and hints come from the catalogue: type.<key>.label / .hint
+const TYPE_CHOICES: FileTypeChoice[] = [
+  "auto",
+  ...FILE_TYPES.map((t) => t.key),
+];
+
+export default function TypePicker({
+  value,
+  detected,
+  onChange,
+  labelledBy,
+}: {
+  value: FileTypeChoice;
+  // The type "auto" resolved to, outlined while auto is selected
+  detected: FileType;
+  onChange: (type: FileTypeChoice) => void;
+  labelledBy: string;
+}) {
+  const { t, dir } = useI18n();
+  const radios = useRef<(HTMLButtonElement | null)[]>([]);
+
+  function onKeyDown(e: React.KeyboardEvent, index: number) {
+    const last = TYPE_CHOICES.length - 1;
+    const forward = dir === "rtl" ? "ArrowLeft" : "ArrowRight";
+    const back = dir === "rtl" ? "ArrowRight" : "ArrowLeft";
+    let next: number;
+    if (e.key === forward || e.key === "ArrowDown") {
+      next = index === last ? 0 : index + 1;
+    } else if (e.key === back || e.key === "ArrowUp") {
+      next = index === 0 ? last : index - 1;
+    } else if (e.key === "Home") next = 0;
+    else if (e.key === "End") next = last;
+    else return;
+    e.preventDefault();
+    onChange(TYPE_CHOICES[next]);
+    radios.current[next]?.focus();
+  }
+
+  return (
+    <div
+      role="radiogroup"
+      aria-labelledby={labelledBy}
+      className="grid grid-cols-2 gap-2"
+    >
+      {TYPE_CHOICES.map((key, index) => (
+        <button
+          key={key}
+          ref={(el) => {
+            radios.current[index] = el;
+          }}
+          role="radio"
+          aria-checked={value === key}
+          tabIndex={value === key ? 0 : -1}
+          onClick={() => onChange(key)}
+          onKeyDown={(e) => onKeyDown(e, index)}
+          className={classNames(
+            "group flex items-start gap-2 rounded-2xl border px-3 py-3 text-start transition focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-slate-900 dark:focus-visible:outline-white",
+            value === key
+              ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-950"
+              : value === "auto" && key === detected
+                ? // The type "auto" picked
+                  "border-dashed border-slate-900 bg-slate-50 dark:border-white dark:bg-slate-900"
+                : "border-slate-200 bg-white hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-950 dark:hover:bg-slate-900",
+          )}
+        >
+          <div
+            className={classNames(
+              "mt-0.5 flex h-8 w-8 items-center justify-center rounded-xl",
+              value === key ? "bg-white/15" : "bg-slate-100 dark:bg-slate-900",
+            )}
+          >
+            {FILE_TYPE_ICONS[key]}
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-semibold leading-5">
+              {t(`type.${key}.label`)}
+            </div>
+            <div
+              className={classNames(
+                "text-xs",
+                // When a type is selected we previously used `text-white/80`.
+                // In dark mode the selected button background becomes white,
+                // which made the hint text white-on-white and unreadable.
+                // Use a dark-mode specific color for the selected state so
+                // the hint remains visible in both themes.
+                value === key
+                  ? "text-white/80 dark:text-slate-700"
+                  : "text-slate-500 dark:text-slate-400",
+              )}
+            >
+              {t(`type.${key}.hint`)}
+            </div>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useId, useState } from "react";
+import { AlertTriangle, RotateCcw } from "lucide-react";
+import {
+  EMBED_REFERRER_POLICY,
+  IFRAME_ALLOW,
+  IFRAME_SANDBOX,
+  VIEWER_TIMEOUT_MS,
+  nextViewer,
+  orderViewers,
+  type FileType,
+  type ViewerKind,
+  type ViewerOption,
+} from "./lib";
+import { useI18n } from "./i18n";
+import { classNames } from "./ui";
+
+/**
+ * Preview with a viewer chooser
+ * --------------------------------
+ * Renders the preferred viewer and falls back to the next one when it
+ * fails: error events for img/video/audio, and a load timeout for iframes
+ * (cross-origin iframes report no errors). Remount (key) when the viewer
+ * list changes to forget earlier failures.
+ *
+ * Every frame is named after the file type and viewer (iframe title, img
+ * alt, media aria-label) so screen readers can tell previews apart.
+ */
+
+const FRAME =
+  "overflow-hidden rounded-2xl border border-slate-200/70 bg-white shadow-sm dark:border-slate-800 dark:bg-slate-950";
+
+function Viewer({
+  viewer,
+  type,
+  onLoad,
+  onError,
+}: {
+  viewer: ViewerOption;
+  type: FileType;
+  onLoad: () => void;
+  onError: () => void;
+}) {
+  const { t } = useI18n();
+  const title = t("preview.frame-title", { type, viewer: viewer.kind });
+
+  if (viewer.element === "img") {
+    return (
+      <div className={FRAME}>
+        <img
+          src={viewer.url}
+          alt={title}
+          referrerPolicy={EMBED_REFERRER_POLICY}
+          className="w-full max-h-[70vh] object-contain"
+          loading="lazy"
+          onLoad={onLoad}
+          onError={onError}
+        />
+      </div>
+    );
+  }
+
+  if (viewer.element === "video") {
+    return (
+      <div className={FRAME}>
+        <video
+          src={viewer.url}
+          aria-label={title}
+          className="w-full max-h-[70vh]"
+          controls
+          onLoadedData={onLoad}
+          onError={onError}
+        />
+      </div>
+    );
+  }
+
+  if (viewer.element === "audio") {
+    return (
+      <div className={classNames(FRAME, "p-4")}>
+        <audio
+          src={viewer.url}
+          aria-label={title}
+          controls
+          className="w-full"
+          onLoadedData={onLoad}
+          onError={onError}
+        />
+      </div>
+    );
+  }
+
+  // Slides keep their 16:9 shape; documents get a tall frame
+  return (
+    <div
+      className={classNames(
+        FRAME,
+        "w-full",
+        type === "ppt" ? "aspect-video" : "h-[70vh]",
+      )}
+    >
+      <iframe
+        title={title}
+        src={viewer.url}
+        className="h-full w-full"
+        sandbox={IFRAME_SANDBOX}
+        allow={IFRAME_ALLOW}
+        referrerPolicy={EMBED_REFERRER_POLICY}
+        allowFullScreen
+        onLoad={onLoad}
+      />
+    </div>
+  );
+}
+
+export default function ViewerPreview({
+  viewers,
+  type,
+  preferred,
+  onPreferredChange,
+}: {
+  viewers: ViewerOption[];
+  type: FileType;
+  preferred: ViewerKind | "auto";
+  onPreferredChange: (viewer: ViewerKind | "auto") => void;
+}) {
+  const { t } = useI18n();
+  const labelId = useId();
+  const [failed, setFailed] = useState<string[]>([]);
+  const [loaded, setLoaded] = useState<string | null>(null);
+
+  // Try the preferred viewer first, then the rest in order
+  const ordered = orderViewers(viewers, preferred);
+  const active = nextViewer(ordered, failed);
+  const wanted = ordered[0];
+
+  const fail = (url: string) =>
+    setFailed((f) => (f.includes(url) ? f : [...f, url]));
+
+  useEffect(() => {
+    if (!active || active.element !== "iframe" || loaded === active.url) {
+      return;
+    }
+    const url = active.url;
+    const t = window.setTimeout(() => fail(url), VIEWER_TIMEOUT_MS);
+    return () => window.clearTimeout(t);
+  }, [active, loaded]);
+
+  if (!viewers.length) return null;
+
+  return (
+    <div className="w-full space-y-3">
+      <div
+        role="group"
+        aria-labelledby={labelId}
+        className="flex flex-wrap items-center gap-1 text-xs"
+      >
+        <span id={labelId} className="me-1 text-slate-500 dark:text-slate-400">
+          {t("preview.viewer")}
+        </span>
+        {(["auto", ...viewers.map((v) => v.kind)] as const).map((kind) => (
+          <button
+            key={kind}
+            aria-pressed={preferred === kind}
+            onClick={() => {
+              setFailed([]);
+              onPreferredChange(kind);
+            }}
+            className={classNames(
+              "rounded-xl border px-2 py-1 transition",
+              preferred === kind
+                ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-950"
+                : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50 dark:border-slate-800 dark:bg-slate-950 dark:text-slate-200 dark:hover:bg-slate-900",
+            )}
+          >
+            {kind === "auto" ? t("preview.viewer.auto") : t(`viewer.${kind}`)}
+          </button>
+        ))}
+      </div>
+
+      {active && wanted && active.url !== wanted.url && (
+        <div
+          role="status"
+          className="flex items-start gap-2 rounded-2xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900 dark:border-amber-900/40 dark:bg-amber-900/20 dark:text-amber-100"
+        >
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <div>
+            {t("preview.fell-back", {
+              wanted: t(`viewer.${wanted.kind}`),
+              active: t(`viewer.${active.kind}`),
+            })}
+          </div>
+        </div>
+      )}
+
+      {active ? (
+        <Viewer
+          key={active.url}
+          viewer={active}
+          type={type}
+          onLoad={() => setLoaded(active.url)}
+          onError={() => fail(active.url)}
+        />
+      ) : (
+        <div
+          role="alert"
+          className="flex flex-col items-center gap-3 rounded-2xl border border-dashed border-slate-300 bg-white p-6 text-center text-sm text-slate-500 dark:border-slate-700 dark:bg-slate-950 dark:text-slate-400"
+        >
+          {t("preview.none")}
+          <button
+            onClick={() => setFailed([])}
+            className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-xs text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-900"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            {t("preview.retry")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
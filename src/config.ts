@@ -0,0 +1,25 @@
+import {
+  proxyFetcher,
+  type HealthCheckOptions,
+  type ShortenOptions,
+} from "./lib";
+
+// Build-time settings, read from VITE_* environment variables (.env.local).
+
+// CORS proxy for link health checks; the target URL is appended encoded,
+// e.g. VITE_HEALTH_PROXY="https://proxy.example/?url=". `npm run health:proxy`
+// serves a local one.
+const HEALTH_PROXY: string | undefined = import.meta.env.VITE_HEALTH_PROXY;
+
+export const healthCheckOptions: HealthCheckOptions = HEALTH_PROXY
+  ? { fetcher: proxyFetcher(HEALTH_PROXY) }
+  : {};
+
+// Link shortener; see shortenUrl() for the request formats. Leave unset to
+// hide the "Shorten" button. `npm run mock:shortener` serves a local one:
+// VITE_SHORTENER_URL="http://localhost:8787/shorten"
+const SHORTENER_URL: string | undefined = import.meta.env.VITE_SHORTENER_URL;
+
+export const shortenOptions: ShortenOptions | null = SHORTENER_URL
+  ? { endpoint: SHORTENER_URL }
+  : null;
@@ -0,0 +1,75 @@
+import { classNames } from "./ui";
+
+// Small form controls shared by the option panels.
+
+export function Toggle({
+  checked,
+  onChange,
+  label,
+}: {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  label: string;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="text-xs text-slate-600 dark:text-slate-300">{label}</div>
+      <button
+        role="switch"
+        aria-checked={checked}
+        aria-label={label}
+        onClick={() => onChange(!checked)}
+        className={classNames(
+          "relative inline-flex h-7 w-12 shrink-0 items-center rounded-full border transition",
+          checked
+            ? "border-slate-900 bg-slate-900 dark:border-white dark:bg-white"
+            : "border-slate-300 bg-white dark:border-slate-700 dark:bg-slate-950",
+        )}
+      >
+        <span
+          className={classNames(
+            "inline-block h-5 w-5 transform rounded-full transition",
+            checked
+              ? "translate-x-6 bg-white rtl:-translate-x-6 dark:bg-slate-950"
+              : "translate-x-1 bg-slate-900 rtl:-translate-x-1 dark:bg-white",
+          )}
+        />
+      </button>
+    </div>
+  );
+}
+
+export function Segmented<T extends string>({
+  options,
+  value,
+  onChange,
+  labels = {},
+}: {
+  options: T[];
+  value: T;
+  onChange: (value: T) => void;
+  labels?: Partial<Record<T, string>>;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {options.map((o) => (
+        <button
+          key={o}
+          aria-pressed={value === o}
+          onClick={() => onChange(o)}
+          className={classNames(
+            "rounded-xl border px-2.5 py-1 text-xs font-semibold uppercase transition",
+            value === o
+              ? "border-slate-900 bg-slate-900 text-white dark:border-white dark:bg-white dark:text-slate-950"
+              : "border-slate-200 bg-white hover:bg-slate-100 dark:border-slate-800 dark:bg-slate-950 dark:hover:bg-slate-900",
+          )}
+        >
+          {labels[o] ?? o}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export const inputClass =
+  "w-full rounded-xl border border-slate-200 bg-white px-2 py-1 text-xs outline-none focus:border-slate-900 dark:border-slate-800 dark:bg-slate-950 dark:focus:border-white";
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import "./driveEmbedElement";
+import type { DriveEmbedElement } from "./driveEmbedElement";
+
+const FILE_ID = "1KocQY1Q3rQfZGl8BTNSG8fEqGh-XpUq0";
+const FILE = `https://drive.google.com/file/d/${FILE_ID}/view`;
+
+function mount(attrs: Record<string, string>, fallback = "") {
+  const el = document.createElement("drive-embed");
+  for (const [name, value] of Object.entries(attrs)) {
+    el.setAttribute(name, value);
+  }
+  el.innerHTML = fallback;
+  const onLoad = vi.fn();
+  const onError = vi.fn();
+  el.addEventListener("load", onLoad);
+  el.addEventListener("error", onError);
+  document.body.append(el);
+  return { el, onLoad, onError };
+}
+
+function shadow(el: DriveEmbedElement) {
+  return el.shadowRoot!;
+}
+
+describe("<drive-embed>", () => {
+  afterEach(() => document.body.replaceChildren());
+
+  it("renders the preview in its shadow root, sized by attributes", () => {
+    const { el } = mount({ url: FILE, type: "pdf", height: "480" });
+    const frame = shadow(el).querySelector("iframe")!;
+    expect(frame.src).toContain(FILE_ID);
+    expect(frame.getAttribute("sandbox")).toContain("allow-scripts");
+    expect(frame.title).toBe("PDF");
+    expect(frame.parentElement!.style.height).toBe("480px");
+  });
+
+  it("fires load with the viewer that rendered", () => {
+    const { el, onLoad } = mount({ url: FILE, type: "image" });
+    shadow(el).querySelector("img")!.dispatchEvent(new Event("load"));
+    const detail = (onLoad.mock.calls[0][0] as CustomEvent).detail;
+    expect(detail).toMatchObject({ viewer: "native", type: "image" });
+  });
+
+  it("falls back to the next viewer on error", () => {
+    const { el, onError } = mount({ url: FILE, type: "image" });
+    shadow(el).querySelector("img")!.dispatchEvent(new Event("error"));
+    expect(shadow(el).querySelector("iframe")!.src).toContain("/preview");
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it("shows its children and fires error when the link can't embed", () => {
+    const { el, onError } = mount(
+      { url: "not a link" },
+      '<a href="/help">Open the file</a>',
+    );
+    expect(shadow(el).querySelector("slot")).toBeTruthy();
+    expect(shadow(el).querySelector("iframe")).toBeNull();
+    const detail = (onError.mock.calls[0][0] as CustomEvent).detail;
+    expect(detail.error).toMatchObject({ severity: "error" });
+  });
+
+  it("re-renders when attributes change", async () => {
+    const { el } = mount({ url: FILE, type: "pdf" });
+    el.setAttribute("viewer", "thumbnail");
+    await Promise.resolve();
+    expect(shadow(el).querySelector("img")!.src).toContain("thumbnail");
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  EMBED_REFERRER_POLICY,
+  IFRAME_ALLOW,
+  IFRAME_SANDBOX,
+  VIEWER_TIMEOUT_MS,
+  diagnostic,
+  embedStyle,
+  embedTitle,
+  isFileType,
+  isViewerKind,
+  nextViewer,
+  parseEmbedSize,
+  resolveEmbed,
+  type Diagnostic,
+  type FileType,
+  type FileTypeChoice,
+  type ViewerKind,
+  type ViewerOption,
+} from "./lib";
+
+/**
+ * <drive-embed>
+ * --------------------------------
+ * <DriveEmbed> without React, for plain HTML pages. Importing the module
+ * (or the dist-embed/drive-embed.js bundle) registers the element:
+ *
+ *   <drive-embed url="https://docs.google.com/…" type="pdf" height="480">
+ *     <a href="https://docs.google.com/…">Open the file</a>
+ *   </drive-embed>
+ *
+ * Attributes: url, type, viewer, width, height, aspect-ratio, title, lazy.
+ * Children are the fallback, shown only when the link can't be converted
+ * or every viewer fails. Events (not bubbling, like the native ones):
+ * "load" with detail { viewer, url, type }, "error" with detail { error }
+ * (a Diagnostic).
+ */
+
+export type DriveEmbedLoadDetail = {
+  viewer: ViewerKind;
+  url: string;
+  type: FileType;
+};
+
+export type DriveEmbedErrorDetail = {
+  error: Diagnostic;
+};
+
+const STYLE = `
+:host { display: block; }
+:host([hidden]) { display: none; }
+.frame { max-width: 100%; }
+iframe { display: block; width: 100%; height: 100%; border: 0; }
+img { display: block; max-width: 100%; margin: 0 auto; }
+video, audio { display: block; width: 100%; }
+`;
+
+// Lets the module load where there is no DOM (server rendering, Node)
+const Base: typeof HTMLElement =
+  typeof HTMLElement === "undefined"
+    ? (class {} as typeof HTMLElement)
+    : HTMLElement;
+
+export class DriveEmbedElement extends Base {
+  static observedAttributes = [
+    "url",
+    "type",
+    "viewer",
+    "width",
+    "height",
+    "aspect-ratio",
+    "title",
+    "lazy",
+  ];
+
+  #root: ShadowRoot;
+  #viewers: ViewerOption[] = [];
+  // URLs of the viewers that failed
+  #failed: string[] = [];
+  #timer: number | undefined;
+  #scheduled = false;
+
+  constructor() {
+    super();
+    this.#root = this.attachShadow({ mode: "open" });
+  }
+
+  connectedCallback() {
+    this.#render();
+  }
+
+  disconnectedCallback() {
+    window.clearTimeout(this.#timer);
+  }
+
+  attributeChangedCallback() {
+    // Several attributes often change together; render once
+    if (!this.isConnected || this.#scheduled) return;
+    this.#scheduled = true;
+    queueMicrotask(() => {
+      this.#scheduled = false;
+      if (this.isConnected) this.#render();
+    });
+  }
+
+  get #type(): FileTypeChoice {
+    const type = this.getAttribute("type");
+    return type && isFileType(type) ? type : "auto";
+  }
+
+  get #viewer(): ViewerKind | "auto" {
+    const viewer = this.getAttribute("viewer");
+    return viewer && isViewerKind(viewer) ? viewer : "auto";
+  }
+
+  #render() {
+    window.clearTimeout(this.#timer);
+    const target = resolveEmbed(
+      this.getAttribute("url") ?? "",
+      this.#type,
+      this.#viewer,
+    );
+    this.#viewers = target.viewers;
+    this.#failed = [];
+    if (target.error) this.#fail(target.error);
+    else this.#show(target.result.type!);
+  }
+
+  #show(type: FileType) {
+    const viewer = nextViewer(this.#viewers, this.#failed);
+    if (!viewer) {
+      this.#fail(diagnostic("preview-failed"));
+      return;
+    }
+
+    const frame = document.createElement("div");
+    frame.className = "frame";
+    frame.setAttribute("part", "frame");
+    Object.assign(
+      frame.style,
+      embedStyle(type, {
+        width: parseEmbedSize(this.getAttribute("width")),
+        height: parseEmbedSize(this.getAttribute("height")),
+        aspectRatio: this.getAttribute("aspect-ratio") ?? undefined,
+      }),
+    );
+
+    const el = this.#createViewer(viewer, type);
+    const loaded = () => {
+      window.clearTimeout(this.#timer);
+      this.dispatchEvent(
+        new CustomEvent<DriveEmbedLoadDetail>("load", {
+          detail: { viewer: viewer.kind, url: viewer.url, type },
+        }),
+      );
+    };
+    const next = () => {
+      window.clearTimeout(this.#timer);
+      // A late event from a viewer we already moved past
+      if (this.#failed.includes(viewer.url)) return;
+      this.#failed.push(viewer.url);
+      this.#show(type);
+    };
+
+    if (viewer.element === "iframe") {
+      el.addEventListener("load", loaded, { once: true });
+      // Cross-origin iframes report no errors
+      this.#timer = window.setTimeout(next, VIEWER_TIMEOUT_MS);
+    } else {
+      el.addEventListener(
+        viewer.element === "img" ? "load" : "loadeddata",
+        loaded,
+        { once: true },
+      );
+      el.addEventListener("error", next, { once: true });
+    }
+
+    frame.append(el);
+    this.#root.replaceChildren(this.#style(), frame);
+  }
+
+  #createViewer(viewer: ViewerOption, type: FileType): HTMLElement {
+    const title = this.getAttribute("title") ?? embedTitle(type, viewer);
+    const lazy = this.hasAttribute("lazy");
+
+    if (viewer.element === "iframe") {
+      const iframe = document.createElement("iframe");
+      iframe.title = title;
+      iframe.setAttribute("sandbox", IFRAME_SANDBOX);
+      iframe.allow = IFRAME_ALLOW;
+      iframe.referrerPolicy = EMBED_REFERRER_POLICY;
+      iframe.allowFullscreen = true;
+      if (lazy) iframe.loading = "lazy";
+      iframe.src = viewer.url;
+      return iframe;
+    }
+    if (viewer.element === "img") {
+      const img = document.createElement("img");
+      img.alt = title;
+      img.referrerPolicy = EMBED_REFERRER_POLICY;
+      if (lazy) img.loading = "lazy";
+      img.src = viewer.url;
+      return img;
+    }
+    const media = document.createElement(viewer.element);
+    media.setAttribute("aria-label", title);
+    media.controls = true;
+    media.preload = lazy ? "none" : "metadata";
+    media.src = viewer.url;
+    return media;
+  }
+
+  #fail(error: Diagnostic) {
+    // The element's children are the fallback
+    this.#root.replaceChildren(this.#style(), document.createElement("slot"));
+    this.dispatchEvent(
+      new CustomEvent<DriveEmbedErrorDetail>("error", { detail: { error } }),
+    );
+  }
+
+  #style() {
+    const style = document.createElement("style");
+    style.textContent = STYLE;
+    return style;
+  }
+}
+
+export function defineDriveEmbed(name = "drive-embed") {
+  if (typeof customElements === "undefined" || customElements.get(name)) {
+    return;
+  }
+  customElements.define(name, DriveEmbedElement);
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    "drive-embed": DriveEmbedElement;
+  }
+}
+
+defineDriveEmbed();
@@ -0,0 +1,151 @@
+import type {
+  ConvertOptions,
+  ConvertResult,
+  FileType,
+  FileTypeChoice,
+} from "./lib";
+
+/**
+ * Conversion history
+ * --------------------------------
+ * Entries are kept in localStorage so the same decks don't need
+ * re-pasting every week. Pinned entries are never trimmed.
+ */
+
+// Export options and viewer a link was converted with, restored with it
+export type HistoryOptions = Pick<
+  ConvertOptions,
+  "viewer" | "slides" | "docs" | "sheets" | "largeFile"
+>;
+
+export type HistoryEntry = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  input: string;
+  // What was picked in the UI ("auto" or a concrete type)
+  choice: FileTypeChoice;
+  // What it resolved to
+  type: FileType;
+  fileId?: string;
+  exportUrl: string;
+  // Missing in entries saved before options were recorded
+  options?: HistoryOptions;
+  pinned: boolean;
+  label?: string;
+};
+
+export type HistoryFilter = {
+  query?: string;
+  type?: FileType | "all";
+  pinnedOnly?: boolean;
+};
+
+export const HISTORY_STORAGE_KEY = "drive-link-converter:history";
+
+// Unpinned entries beyond this are dropped, oldest first
+const MAX_UNPINNED = 200;
+
+function newId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadHistory(storage: Storage): HistoryEntry[] {
+  try {
+    const raw = storage.getItem(HISTORY_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as HistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveHistory(storage: Storage, entries: HistoryEntry[]) {
+  try {
+    storage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries));
+  } catch {
+    // Storage full or disabled (private mode); history just won't persist.
+  }
+}
+
+// Adds a conversion, or bumps the existing entry for the same link + type.
+export function recordConversion(
+  entries: HistoryEntry[],
+  input: string,
+  choice: FileTypeChoice,
+  result: ConvertResult,
+  options: HistoryOptions = {},
+  now = Date.now(),
+): HistoryEntry[] {
+  if (!result.exportUrl || !result.type || result.error) return entries;
+  const link = input.trim();
+
+  const existing = entries.find(
+    (e) => e.input === link && e.type === result.type,
+  );
+  const entry: HistoryEntry = existing
+    ? {
+        ...existing,
+        choice,
+        fileId: result.fileId,
+        exportUrl: result.exportUrl,
+        options,
+        updatedAt: now,
+      }
+    : {
+        id: newId(),
+        createdAt: now,
+        updatedAt: now,
+        input: link,
+        choice,
+        type: result.type,
+        fileId: result.fileId,
+        exportUrl: result.exportUrl,
+        options,
+        pinned: false,
+      };
+
+  const rest = entries.filter((e) => e !== existing);
+  return trim([entry, ...rest]);
+}
+
+function trim(entries: HistoryEntry[]): HistoryEntry[] {
+  let unpinned = 0;
+  return entries.filter((e) => e.pinned || ++unpinned <= MAX_UNPINNED);
+}
+
+export function updateEntry(
+  entries: HistoryEntry[],
+  id: string,
+  patch: Partial<Pick<HistoryEntry, "pinned" | "label">>,
+): HistoryEntry[] {
+  return entries.map((e) => (e.id === id ? { ...e, ...patch } : e));
+}
+
+export function removeEntry(
+  entries: HistoryEntry[],
+  id: string,
+): HistoryEntry[] {
+  return entries.filter((e) => e.id !== id);
+}
+
+// Pinned first, then most recently used.
+export function filterHistory(
+  entries: HistoryEntry[],
+  filter: HistoryFilter,
+): HistoryEntry[] {
+  const q = filter.query?.trim().toLowerCase() ?? "";
+  return entries
+    .filter((e) => !filter.pinnedOnly || e.pinned)
+    .filter((e) => !filter.type || filter.type === "all" || e.type === filter.type)
+    .filter(
+      (e) =>
+        !q ||
+        [e.label, e.input, e.fileId, e.exportUrl].some((s) =>
+          s?.toLowerCase().includes(q),
+        ),
+    )
+    .sort(
+      (a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt,
+    );
+}
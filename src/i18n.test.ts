@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  LOCALES,
+  createI18n,
+  detectLocale,
+  matchLocale,
+  textDirection,
+} from "./i18n";
+import { MESSAGES } from "./lib";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { ta } from "./locales/ta";
+
+const REFERENCE = { ...MESSAGES, ...en };
+
+function placeholders(template: string) {
+  return [...template.matchAll(/\{(\w+)\}/g)].map((m) => m[1]).sort();
+}
+
+describe.each(LOCALES.filter((l) => l.code !== "en"))(
+  "$code catalogue",
+  ({ catalogue }) => {
+    it("only has keys the English copy has", () => {
+      const unknown = Object.keys(catalogue).filter(
+        (key) => !(key in REFERENCE),
+      );
+      expect(unknown).toEqual([]);
+    });
+
+    it("translates the page copy", () => {
+      const missing = Object.keys(en).filter((key) => !(key in catalogue));
+      expect(missing).toEqual([]);
+    });
+
+    it("keeps the English placeholders", () => {
+      for (const [key, template] of Object.entries(catalogue)) {
+        expect([key, placeholders(template)]).toEqual([
+          key,
+          placeholders(REFERENCE[key]),
+        ]);
+      }
+    });
+  },
+);
+
+describe("detectLocale", () => {
+  it("prefers ?lang=, then the saved choice, then the browser", () => {
+    const languages = ["hi-IN", "en"];
+    expect(detectLocale({ search: "?lang=ta", stored: "es", languages })).toBe(
+      "ta",
+    );
+    expect(detectLocale({ search: "?lang=xx", stored: "es", languages })).toBe(
+      "es",
+    );
+    expect(detectLocale({ languages })).toBe("hi");
+    expect(detectLocale({ languages: ["fr-FR"] })).toBe("en");
+  });
+
+  it("matches regional tags to the language", () => {
+    expect(matchLocale("es-MX")).toBe("es");
+    expect(matchLocale("ta_LK")).toBe("ta");
+    expect(matchLocale("fr")).toBeNull();
+  });
+});
+
+describe("createI18n", () => {
+  it("translates library messages inside page copy", () => {
+    const { t, dir } = createI18n("es");
+    expect(dir).toBe("ltr");
+    expect(t("page.detected", { type: "ppt", reason: "detect.slides" })).toBe(
+      es["page.detected"]
+        .replace("{type}", es["type.ppt.label"])
+        .replace("{reason}", es["detect.slides"]),
+    );
+  });
+
+  it("falls back to English, then to the key", () => {
+    const { t } = createI18n("ta");
+    expect(t("page.copy")).toBe(ta["page.copy"] ?? en["page.copy"]);
+    expect(createI18n("en").t("page.copy")).toBe("Copy");
+    expect(t("no.such.key")).toBe("no.such.key");
+  });
+});
+
+describe("textDirection", () => {
+  it("is rtl for right-to-left scripts only", () => {
+    expect(textDirection("ar")).toBe("rtl");
+    expect(textDirection("he-IL")).toBe("rtl");
+    expect(textDirection("ta")).toBe("ltr");
+    expect(textDirection("en")).toBe("ltr");
+  });
+});
@@ -0,0 +1,153 @@
+import { createContext, useContext } from "react";
+import {
+  formatMessage,
+  type Catalogue,
+  type Diagnostic,
+  type MessageParams,
+} from "./lib";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { hi } from "./locales/hi";
+import { ta } from "./locales/ta";
+import { writeUrlSearch } from "./urlState";
+
+/**
+ * Translations
+ * --------------------------------
+ * Page copy lives in src/locales (en.ts is the reference). Conversion
+ * notes, type labels and detection reasons come from the library's
+ * message catalogue and are rendered from their keys, so one locale file
+ * covers both. Missing keys fall back to English.
+ *
+ * The locale comes from ?lang=, then the saved choice, then the browser.
+ * Text direction follows the language; layouts use logical (start/end)
+ * classes so an RTL locale only needs its catalogue.
+ */
+
+export type Locale = "en" | "ta" | "hi" | "es";
+
+export type TextDirection = "ltr" | "rtl";
+
+export type LocaleInfo = {
+  code: Locale;
+  // In its own language, for the switcher
+  name: string;
+  catalogue: Catalogue;
+};
+
+export const LOCALES: LocaleInfo[] = [
+  { code: "en", name: "English", catalogue: {} },
+  { code: "ta", name: "தமிழ்", catalogue: ta },
+  { code: "hi", name: "हिन्दी", catalogue: hi },
+  { code: "es", name: "Español", catalogue: es },
+];
+
+export const LOCALE_STORAGE_KEY = "drive-link-converter:locale";
+
+// Scripts written right to left (ISO 639-1 codes)
+const RTL_LANGUAGES = [
+  "ar",
+  "dv",
+  "fa",
+  "he",
+  "ks",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+];
+
+export function textDirection(tag: string): TextDirection {
+  return RTL_LANGUAGES.includes(tag.toLowerCase().split(/[-_]/)[0])
+    ? "rtl"
+    : "ltr";
+}
+
+// "es-MX" -> "es"; null when we don't have that language
+export function matchLocale(tag: string | null | undefined): Locale | null {
+  const base = tag?.trim().toLowerCase().split(/[-_]/)[0];
+  return LOCALES.find((l) => l.code === base)?.code ?? null;
+}
+
+export function detectLocale({
+  search = "",
+  stored = null,
+  languages = [],
+}: {
+  search?: string;
+  stored?: string | null;
+  languages?: readonly string[];
+}): Locale {
+  const candidates = [
+    new URLSearchParams(search).get("lang"),
+    stored,
+    ...languages,
+  ];
+  for (const tag of candidates) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return "en";
+}
+
+export function loadLocale(): Locale {
+  let stored: string | null = null;
+  try {
+    stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+  } catch {
+    // Storage disabled (private mode); use the browser language
+  }
+  return detectLocale({
+    search: window.location.search,
+    stored,
+    languages: navigator.languages ?? [navigator.language],
+  });
+}
+
+export function saveLocale(locale: Locale) {
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Not remembered, still applied
+  }
+  // A ?lang= in the address bar would win on the next load
+  const params = new URLSearchParams(window.location.search);
+  if (params.has("lang")) {
+    params.set("lang", locale);
+    writeUrlSearch(`?${params}`);
+  }
+}
+
+export type Translate = (key: string, params?: MessageParams) => string;
+
+export type I18n = {
+  locale: Locale;
+  dir: TextDirection;
+  t: Translate;
+};
+
+export function createI18n(locale: Locale): I18n {
+  const catalogue = {
+    ...en,
+    ...LOCALES.find((l) => l.code === locale)?.catalogue,
+  };
+  return {
+    locale,
+    dir: textDirection(locale),
+    t: (key, params) => formatMessage(key, params, catalogue),
+  };
+}
+
+// lib's formatDiagnostic (message + fix on one line), translated
+export function translateDiagnostic(t: Translate, d: Diagnostic): string {
+  const message = t(d.key, d.params);
+  return d.fix ? `${message} ${t(`${d.key}.fix`, d.params)}` : message;
+}
+
+// English outside a provider, so components also work on their own
+export const I18nContext = createContext<I18n>(createI18n("en"));
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
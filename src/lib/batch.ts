@@ -0,0 +1,102 @@
+import { convertLink } from "./convert";
+import { diagnostic, formatDiagnostic } from "./diagnostics";
+import type { ConvertOptions, ConvertResult, FileTypeChoice } from "./types";
+
+export type BatchRow = {
+  // 1-based line number in the pasted text / file
+  line: number;
+  input: string;
+  result: ConvertResult;
+};
+
+// Matches full URLs plus scheme-less Drive/Docs links, stopping at the
+// separators you find in CSV cells and prose.
+const LINK_PATTERN =
+  /(?:https?:\/\/|\b(?:drive|docs)\.google\.com\/)[^\s,;"'<>]+/gi;
+const LINK_TEST = new RegExp(LINK_PATTERN.source, "i");
+
+// Every link in free text, e.g. a message shared from another app
+export function extractLinks(text: string): string[] {
+  return text.match(LINK_PATTERN) ?? [];
+}
+
+export function splitBatchInput(
+  text: string,
+): Array<{ line: number; input: string }> {
+  const items: Array<{ line: number; input: string }> = [];
+
+  text.split(/\r?\n/).forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    // A line can hold several links (e.g. CSV rows); take each one.
+    // Lines without a link are kept so they show up as errors in the results.
+    const links = line.match(LINK_PATTERN);
+    if (!links) {
+      items.push({ line: i + 1, input: line });
+      return;
+    }
+    for (const link of links) items.push({ line: i + 1, input: link });
+  });
+
+  return items;
+}
+
+export function convertBatch(
+  text: string,
+  type: FileTypeChoice,
+  options: ConvertOptions = {},
+): BatchRow[] {
+  return splitBatchInput(text).map(({ line, input }) => ({
+    line,
+    input,
+    result: LINK_TEST.test(input)
+      ? convertLink(input, type, options)
+      : { error: diagnostic("no-link") },
+  }));
+}
+
+function csvCell(value: string | number | undefined) {
+  const s = String(value ?? "");
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function batchToCsv(rows: BatchRow[]): string {
+  const header = [
+    "line",
+    "input",
+    "type",
+    "fileId",
+    "exportUrl",
+    "previewUrl",
+    "notes",
+    "error",
+    "errorCode",
+  ];
+  const lines = rows.map((r) =>
+    [
+      r.line,
+      r.input,
+      r.result.type,
+      r.result.fileId,
+      r.result.exportUrl,
+      r.result.previewUrl,
+      (r.result.notes ?? []).map(formatDiagnostic).join(" | "),
+      r.result.error && formatDiagnostic(r.result.error),
+      r.result.error?.code,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [header.join(","), ...lines].join("\n") + "\n";
+}
+
+export function batchToJson(rows: BatchRow[]): string {
+  return (
+    JSON.stringify(
+      rows.map((r) => ({ line: r.line, input: r.input, ...r.result })),
+      null,
+      2,
+    ) + "\n"
+  );
+}
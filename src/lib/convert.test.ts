@@ -0,0 +1,316 @@
+import { describe, expect, it } from "vitest";
+import { convertLink } from "./convert";
+import { detectFileType } from "./detect";
+import { hasCode, sortDiagnostics } from "./diagnostics";
+import { FILE_TYPES } from "./fileTypes";
+import { extractGoogleFileId, parseGoogleLink } from "./google";
+import { listViewers, nextViewer, orderViewers } from "./viewers";
+
+// Link shapes seen in the wild: share dialogs, address bars, old
+// open?id= / uc?id= links, multi-account /u/N/ paths, resource keys.
+const FILE_ID = "1AbCdEfGhIjKlMnOpQrStUvWxYz012345";
+const SLIDES_ID = "1SlIdEsIdAbCdEfGhIjKlMnOpQrStUv";
+
+const CORPUS: Array<{ name: string; url: string; id: string | null }> = [
+  {
+    name: "Drive file, share dialog",
+    url: `https://drive.google.com/file/d/${FILE_ID}/view?usp=sharing`,
+    id: FILE_ID,
+  },
+  {
+    name: "Drive file, second account",
+    url: `https://drive.google.com/file/u/1/d/${FILE_ID}/view`,
+    id: FILE_ID,
+  },
+  {
+    name: "Drive file with resource key",
+    url: `https://drive.google.com/file/d/${FILE_ID}/view?usp=sharing&resourcekey=0-kEy_123`,
+    id: FILE_ID,
+  },
+  {
+    name: "Drive open?id=",
+    url: `https://drive.google.com/open?id=${FILE_ID}`,
+    id: FILE_ID,
+  },
+  {
+    name: "Drive uc?id= download",
+    url: `https://drive.google.com/uc?id=${FILE_ID}&export=download`,
+    id: FILE_ID,
+  },
+  {
+    name: "Drive file without scheme",
+    url: `drive.google.com/file/d/${FILE_ID}/view`,
+    id: FILE_ID,
+  },
+  {
+    name: "Slides editor with slide anchor",
+    url: `https://docs.google.com/presentation/d/${SLIDES_ID}/edit#slide=id.g12ab_0_5`,
+    id: SLIDES_ID,
+  },
+  {
+    name: "Slides editor, first account",
+    url: `https://docs.google.com/presentation/u/0/d/${SLIDES_ID}/edit?usp=drive_link`,
+    id: SLIDES_ID,
+  },
+  {
+    name: "Slides published to the web",
+    url: "https://docs.google.com/presentation/d/e/2PACX-1vQpUbLiShEdId/pub?start=false",
+    id: "2PACX-1vQpUbLiShEdId",
+  },
+  {
+    name: "Docs editor",
+    url: "https://docs.google.com/document/d/1DoCsIdAbCdEfGhIjKlMnOpQrStUvWx/edit?usp=sharing",
+    id: "1DoCsIdAbCdEfGhIjKlMnOpQrStUvWx",
+  },
+  {
+    name: "Sheets editor with tab",
+    url: "https://docs.google.com/spreadsheets/d/1ShEeTsIdAbCdEfGhIjKlMnOpQrStU/edit#gid=123456",
+    id: "1ShEeTsIdAbCdEfGhIjKlMnOpQrStU",
+  },
+  {
+    name: "Forms",
+    url: "https://docs.google.com/forms/d/1FoRmSiDAbCdEfGhIjKlMnOpQrStUvW/viewform",
+    id: "1FoRmSiDAbCdEfGhIjKlMnOpQrStUvW",
+  },
+  {
+    name: "Drawings",
+    url: "https://docs.google.com/drawings/d/1DrAwInGiDAbCdEfGhIjKlMnOpQrSt/edit",
+    id: "1DrAwInGiDAbCdEfGhIjKlMnOpQrSt",
+  },
+  {
+    name: "Drive folder",
+    url: "https://drive.google.com/drive/folders/1FoLdErIdAbCdEfGhIjKlMnOpQrSt",
+    id: null,
+  },
+];
+
+describe("extractGoogleFileId", () => {
+  it.each(CORPUS)("$name", ({ url, id }) => {
+    expect(extractGoogleFileId(url)).toBe(id);
+  });
+
+  it("keeps the resource key", () => {
+    expect(parseGoogleLink(CORPUS[2].url)?.resourceKey).toBe("0-kEy_123");
+  });
+
+  it("returns null for non-Google links", () => {
+    expect(extractGoogleFileId("https://example.com/file.pdf")).toBeNull();
+  });
+});
+
+describe.each(CORPUS)("convertLink: $name", ({ url, id }) => {
+  it.each(FILE_TYPES.map((t) => t.key))("%s", (type) => {
+    const result = convertLink(url, type);
+
+    expect(result.type).toBe(type);
+    if (id) {
+      expect(result.error).toBeUndefined();
+      expect(result.exportUrl).toContain(id);
+    } else {
+      expect(result.error?.code).toBe("folder-link");
+      expect(result.error?.severity).toBe("error");
+      expect(result.exportUrl).toBeUndefined();
+    }
+    expect(result).toMatchSnapshot();
+  });
+
+  it("auto", () => {
+    expect(convertLink(url, "auto")).toMatchSnapshot();
+  });
+});
+
+describe("detectFileType", () => {
+  it("reads /thumbnail links as images", () => {
+    const url = `https://drive.google.com/thumbnail?id=${FILE_ID}&sz=w800`;
+    expect(detectFileType(url)?.key).toBe("detect.thumbnail");
+    expect(detectFileType(url)?.type).toBe("image");
+  });
+
+  it("only looks at the path for /thumbnail", () => {
+    const url = `https://drive.google.com/open?id=${FILE_ID}&next=/thumbnail?x`;
+    expect(detectFileType(url)?.key).not.toBe("detect.thumbnail");
+  });
+});
+
+describe("convertLink errors", () => {
+  it("asks for a link when the input is empty", () => {
+    expect(convertLink("   ", "pdf").error).toEqual({
+      code: "empty-input",
+      severity: "error",
+      key: "empty-input",
+      message: "Paste a link first.",
+    });
+  });
+
+  it("rejects Google links without a file id", () => {
+    expect(
+      convertLink("https://drive.google.com/drive/my-drive", "pdf").error?.code,
+    ).toBe("no-file-id");
+  });
+
+  it("uses other links as-is", () => {
+    const result = convertLink("https://example.com/deck.pptx", "ppt");
+    expect(result.exportUrl).toBe("https://example.com/deck.pptx");
+    expect(result.previewUrl).toContain("view.officeapps.live.com");
+  });
+});
+
+describe("convertLink diagnostics", () => {
+  it("offers the detected type when the picked one contradicts the link", () => {
+    const note = convertLink(CORPUS[6].url, "image").notes?.at(-1);
+    expect(note).toMatchObject({
+      code: "type-mismatch",
+      severity: "warning",
+      action: { kind: "set-type", type: "ppt", label: "Switch to PPT / PPTX" },
+    });
+  });
+
+  it("drops the Microsoft viewer suggestion once it is picked", () => {
+    const url = CORPUS[6].url;
+    expect(hasCode(convertLink(url, "ppt"), "pick-viewer")).toBe(true);
+
+    const result = convertLink(url, "ppt", { viewer: "office" });
+    expect(hasCode(result, "pick-viewer")).toBe(false);
+    expect(hasCode(result, "preview-switched")).toBe(true);
+  });
+
+  it("warns about single-tab CSV exports", () => {
+    const result = convertLink(
+      "https://docs.google.com/spreadsheets/d/1ShEeTs/edit",
+      "sheet",
+      { sheets: { format: "csv" } },
+    );
+    expect(result.notes?.find((n) => n.code === "single-tab")).toMatchObject({
+      severity: "warning",
+      message: "CSV exports only the first tab.",
+    });
+  });
+
+  it("puts warnings before info", () => {
+    const notes = convertLink(CORPUS[10].url, "image").notes ?? [];
+    expect(sortDiagnostics(notes).map((n) => n.severity)).toEqual([
+      "warning",
+      "info",
+    ]);
+  });
+});
+
+describe("large-file mode", () => {
+  const drive = CORPUS[0].url;
+
+  it("is the default for video and audio", () => {
+    for (const type of ["video", "audio"] as const) {
+      const result = convertLink(drive, type);
+      expect(result.exportUrl).toBe(
+        `https://drive.usercontent.google.com/download?id=${FILE_ID}&export=download&confirm=t`,
+      );
+      expect(hasCode(result, "large-file")).toBe(true);
+    }
+  });
+
+  it("can be turned off for media", () => {
+    const result = convertLink(drive, "video", { largeFile: false });
+    expect(result.exportUrl).toBe(
+      `https://drive.google.com/uc?export=download&id=${FILE_ID}`,
+    );
+    expect(hasCode(result, "large-file")).toBe(false);
+  });
+
+  it("can be turned on for other Drive downloads", () => {
+    const result = convertLink(drive, "pdf", { largeFile: true });
+    expect(result.exportUrl).toBe(
+      `https://drive.usercontent.google.com/download?id=${FILE_ID}&export=download&confirm=t`,
+    );
+  });
+
+  it("keeps the resource key", () => {
+    expect(
+      convertLink(CORPUS[2].url, "pdf", { largeFile: true }).exportUrl,
+    ).toBe(
+      `https://drive.usercontent.google.com/download?id=${FILE_ID}&export=download&confirm=t&resourcekey=0-kEy_123`,
+    );
+  });
+
+  it("doesn't touch native Google exports", () => {
+    const result = convertLink(CORPUS[9].url, "pdf", { largeFile: true });
+    expect(result.exportUrl).toContain("/document/d/");
+    expect(hasCode(result, "large-file")).toBe(false);
+  });
+
+  it("offers to switch back to the standard link", () => {
+    const note = convertLink(drive, "video").notes?.find(
+      (n) => n.code === "large-file",
+    );
+    expect(note?.action).toMatchObject({
+      kind: "set-large-file",
+      enabled: false,
+    });
+  });
+
+  it("reads large-file links as Drive files", () => {
+    expect(
+      extractGoogleFileId(
+        `https://drive.usercontent.google.com/download?id=${FILE_ID}&export=download&confirm=t`,
+      ),
+    ).toBe(FILE_ID);
+  });
+});
+
+describe("listViewers", () => {
+  it("only offers the published page for published Forms", () => {
+    const result = convertLink(
+      "https://docs.google.com/forms/d/e/1FAIpQLSfPuBlIsHeDfOrM/viewform",
+      "auto",
+    );
+    expect(result.published).toBe(true);
+    expect(listViewers(result).map((v) => [v.kind, v.url])).toEqual([
+      ["default", result.previewUrl],
+    ]);
+  });
+
+  it("skips Drive, Docs Viewer and Office for published documents", () => {
+    const result = convertLink(
+      "https://docs.google.com/document/d/e/2PACX-1vDoCpUbLiShEd/pub",
+      "auto",
+    );
+    const kinds = listViewers(result).map((v) => v.kind);
+    expect(kinds).toEqual(["default"]);
+  });
+
+  it("keeps every viewer for Drive files", () => {
+    const result = convertLink(
+      `https://docs.google.com/document/d/${FILE_ID}/edit`,
+      "doc",
+    );
+    expect(result.published).toBeUndefined();
+    expect(listViewers(result).map((v) => v.kind)).toEqual([
+      "default",
+      "drive",
+      "gview",
+      "office",
+      "thumbnail",
+    ]);
+  });
+});
+
+describe("viewer fallback chain", () => {
+  const viewers = listViewers(
+    convertLink(`https://drive.google.com/file/d/${FILE_ID}/view`, "ppt"),
+  );
+
+  it("starts at the preferred viewer and skips failed ones", () => {
+    const chain = orderViewers(viewers, "office");
+    expect(chain[0].kind).toBe("office");
+    expect(nextViewer(chain, [])).toBe(chain[0]);
+    expect(nextViewer(chain, [chain[0].url])).toBe(chain[1]);
+  });
+
+  it("ends once every viewer failed", () => {
+    expect(
+      nextViewer(
+        viewers,
+        viewers.map((v) => v.url),
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,579 @@
+import {
+  buildDocsExport,
+  buildDocsPreview,
+  buildDocsViewer,
+  buildDriveDirectDownload,
+  buildDriveDirectView,
+  buildDriveLargeFileDownload,
+  buildDrawingsExport,
+  buildMicrosoftOfficeViewer,
+  buildPublishedUrl,
+  buildSheetsExport,
+  buildSheetsPreview,
+  buildSlidesEmbed,
+  buildSlidesExport,
+  extractSheetGid,
+  extractSlidePageId,
+  parseGoogleLink,
+  withResourceKey,
+  type GoogleLink,
+} from "./google";
+import { detectFileType } from "./detect";
+import { diagnostic } from "./diagnostics";
+import { findProvider, type Provider } from "./providers";
+import { checkUrl, isGoogleUrl } from "./url";
+import { formatMessage } from "./messages";
+import { applyViewer } from "./viewers";
+import type {
+  ConvertOptions,
+  ConvertResult,
+  Diagnostic,
+  FileType,
+  FileTypeChoice,
+  TypeDetection,
+} from "./types";
+
+// Used by "auto" when the link itself carries no type hint.
+// Drive download + Docs Viewer previews the widest range of files.
+const AUTO_FALLBACK: FileType = "pdf";
+
+// Notes shared by several conversions
+const NOT_GOOGLE = diagnostic("not-google");
+const SHARE_PUBLICLY = diagnostic("must-be-public.share");
+const MUST_BE_PUBLIC = diagnostic("must-be-public");
+const FORM_LINK = diagnostic("form-link");
+
+const LARGE_FILE_HOST = "https://drive.usercontent.google.com/";
+const LARGE_FILE = diagnostic("large-file", undefined, {
+  kind: "set-large-file",
+  enabled: false,
+});
+
+function exportFormat(format: string): Diagnostic {
+  return diagnostic("export-format", { format: format.toUpperCase() });
+}
+
+export function resolveFileType(
+  input: string,
+  choice: FileTypeChoice,
+): { type: FileType; detection?: TypeDetection } {
+  if (choice !== "auto") return { type: choice };
+
+  const detected = detectFileType(input);
+  if (detected) return { type: detected.type, detection: detected };
+
+  return {
+    type: AUTO_FALLBACK,
+    detection: {
+      type: AUTO_FALLBACK,
+      reason: formatMessage("detect.fallback"),
+      key: "detect.fallback",
+    },
+  };
+}
+
+export function convertLink(
+  input: string,
+  choice: FileTypeChoice,
+  options: ConvertOptions = {},
+): ConvertResult {
+  const { type, detection } = resolveFileType(input, choice);
+  const r = withType(convertBase(input, type, options), type, detection);
+
+  // Picking a type that contradicts the link shape yields a broken link
+  // (e.g. "image" on a Slides URL) — say so instead of failing silently.
+  if (choice !== "auto" && !r.error) {
+    const hint = detectFileType(input);
+    if (hint && hint.type !== type) {
+      r.notes = [
+        ...(r.notes ?? []),
+        diagnostic(
+          "type-mismatch",
+          { ...hint.params, type: hint.type, reason: hint.key },
+          { kind: "set-type", type: hint.type },
+        ),
+      ];
+    }
+  }
+
+  // A specific preview viewer; msViewer is the older PPT-only switch
+  const viewer =
+    options.viewer ?? (options.msViewer && type === "ppt" ? "office" : null);
+  return viewer ? applyViewer(r, viewer) : r;
+}
+
+function withType(
+  r: ConvertResult,
+  type: FileType,
+  detection?: TypeDetection,
+): ConvertResult {
+  return detection ? { type, detection, ...r } : { type, ...r };
+}
+
+function convertBase(
+  input: string,
+  type: FileType,
+  options: ConvertOptions,
+): ConvertResult {
+  const raw = input.trim();
+  if (!raw) return { error: diagnostic("empty-input") };
+
+  // Only http(s) links with a real host get past here (see url.ts)
+  const checked = checkUrl(raw);
+  if ("error" in checked) return { error: checked.error };
+
+  const { url } = checked;
+  const warnings = [...checked.warnings];
+  // Google links are rebuilt on https; anything else is used as given
+  if (url.protocol === "http:" && !isGoogleUrl(url)) {
+    warnings.push(diagnostic("insecure-http"));
+  }
+
+  const r = convertUrl(raw, url, type, options);
+  if (!warnings.length || r.error) return r;
+  return { ...r, notes: [...warnings, ...(r.notes ?? [])] };
+}
+
+function convertUrl(
+  raw: string,
+  url: URL,
+  type: FileType,
+  options: ConvertOptions,
+): ConvertResult {
+  // If not a Google link, we still allow preview using the same strategy.
+  // But export conversion will only be done for Google links.
+  const google = isGoogleUrl(url);
+  const link = google ? parseGoogleLink(raw) : null;
+
+  // If it is a Google link but fileId couldn't be extracted
+  if (google && !link) {
+    return { error: diagnostic("no-file-id") };
+  }
+
+  // Dropbox, OneDrive, Box, GitHub, GitLab...
+  const provider = google ? null : findProvider(raw);
+  if (provider) return convertProvider(provider, url, type);
+
+  // If it's not google, treat raw as direct URL.
+  if (!google) {
+    // Normalised by the URL parser (scheme added, host lowercased)
+    const direct = url.href;
+
+    // Preview strategy
+    if (type === "ppt") {
+      return {
+        exportUrl: direct,
+        previewUrl: buildMicrosoftOfficeViewer(direct),
+        notes: [NOT_GOOGLE, diagnostic("must-be-public.ppt")],
+      };
+    }
+
+    if (type === "doc") {
+      return {
+        exportUrl: direct,
+        previewUrl: buildDocsViewer(direct),
+        notes: [NOT_GOOGLE, diagnostic("preview-viewer.docs-viewer-public")],
+      };
+    }
+
+    if (type === "sheet") {
+      return {
+        exportUrl: direct,
+        previewUrl: buildMicrosoftOfficeViewer(direct),
+        notes: [NOT_GOOGLE, diagnostic("preview-viewer.office-public")],
+      };
+    }
+
+    if (type === "pdf") {
+      return {
+        exportUrl: direct,
+        previewUrl: buildDocsViewer(direct),
+        notes: [NOT_GOOGLE, diagnostic("must-be-public.pdf")],
+      };
+    }
+
+    // For media
+    return {
+      exportUrl: direct,
+      previewUrl: direct,
+      notes: [NOT_GOOGLE],
+    };
+  }
+
+  // Google link
+  const r = convertGoogle(link!, raw, type, options);
+  if (r.error) return r;
+  const notes = [...(r.notes ?? [])];
+  if (r.exportUrl?.startsWith(LARGE_FILE_HOST)) notes.push(LARGE_FILE);
+  if (!link!.resourceKey) return { ...r, notes };
+  return {
+    ...r,
+    resourceKey: link!.resourceKey,
+    notes: [...notes, diagnostic("resource-key")],
+  };
+}
+
+function convertProvider(
+  provider: Provider,
+  url: URL,
+  type: FileType,
+): ConvertResult {
+  const id = provider.extractId(url);
+  if (!id) {
+    return {
+      provider: provider.key,
+      error: diagnostic("no-shared-file", { provider: provider.name }),
+    };
+  }
+
+  const exportUrl = provider.buildExport(url, type);
+  const embedUrl = provider.buildEmbed?.(url, type) ?? undefined;
+
+  // Same viewers as for any other direct URL
+  let previewUrl = embedUrl;
+  if (!previewUrl) {
+    previewUrl =
+      type === "ppt" || type === "sheet"
+        ? buildMicrosoftOfficeViewer(exportUrl)
+        : type === "pdf" || type === "doc"
+          ? buildDocsViewer(exportUrl)
+          : exportUrl;
+  }
+
+  return {
+    provider: provider.key,
+    fileId: id,
+    exportUrl,
+    ...(embedUrl ? { embedUrl } : {}),
+    previewUrl,
+    notes: [
+      diagnostic("provider-link", { provider: provider.name }),
+      ...(provider.notes?.(url, type) ?? []),
+      MUST_BE_PUBLIC,
+    ],
+  };
+}
+
+function convertGoogle(
+  link: GoogleLink,
+  raw: string,
+  type: FileType,
+  options: ConvertOptions,
+): ConvertResult {
+  if (link.kind === "folder") return convertFolder(link);
+  if (link.published) return convertPublished(link, raw, type, options);
+  if (link.kind === "forms") return convertForm(link);
+  if (link.kind === "drawings") return convertDrawing(link, type);
+
+  const id = link.id;
+  // Older shared files need their resourcekey on every Google URL
+  const rk = (url: string) => withResourceKey(url, link.resourceKey);
+  // Media players can't click through the virus-scan page, so they get
+  // the large-file form unless asked otherwise
+  const largeFile = options.largeFile ?? (type === "video" || type === "audio");
+  const driveDownload = () =>
+    largeFile ? buildDriveLargeFileDownload(id) : buildDriveDirectDownload(id);
+
+  // We generate both a recommended export URL and a preview URL.
+  // Different types need different URLs.
+  switch (type) {
+    case "ppt": {
+      // Best for your provided example (Google Slides link)
+      const slides = options.slides ?? {};
+      const format = slides.format ?? "pptx";
+      const pageId = slides.pageId || extractSlidePageId(raw);
+      const exportUrl = rk(buildSlidesExport(id, format, pageId));
+
+      // Preview:
+      // - Option A: Google Slides embed (works for Slides, not for PPTX)
+      // - Option B: Microsoft viewer using a direct file URL
+      // We'll do:
+      // 1) Prefer Slides embed (fast)
+      // 2) Provide Microsoft viewer too using exported PPTX link
+      const embedUrl = rk(buildSlidesEmbed(id, slides));
+
+      const notes = [exportFormat(format)];
+      if (format === "png" || format === "jpeg" || format === "svg") {
+        notes.push(
+          pageId
+            ? diagnostic("slide-page", { pageId })
+            : diagnostic("single-slide"),
+        );
+      } else if (format === "pdf") {
+        notes.push(diagnostic("all-slides"));
+      }
+      notes.push(
+        diagnostic("preview-viewer.slides"),
+        diagnostic("pick-viewer", undefined, {
+          kind: "set-viewer",
+          viewer: "office",
+        }),
+      );
+
+      return {
+        fileId: id,
+        exportUrl,
+        embedUrl,
+        previewUrl: embedUrl,
+        notes,
+      };
+    }
+
+    case "pdf": {
+      // If it was a Google Slides link, this also works:
+      // /export/pdf
+      // But user wants generic.
+      // For Drive files, we use direct download.
+      // For docs/slides links, we can use export/pdf.
+
+      let exportUrl = driveDownload();
+
+      if (link.kind === "presentation") {
+        exportUrl = buildSlidesExport(id, "pdf");
+      } else if (link.kind === "document") {
+        exportUrl = buildDocsExport(id, "pdf");
+      } else if (link.kind === "spreadsheets") {
+        exportUrl = buildSheetsExport(id, {
+          format: "pdf",
+          gid: extractSheetGid(raw) ?? undefined,
+        });
+      }
+      exportUrl = rk(exportUrl);
+
+      return {
+        fileId: id,
+        exportUrl,
+        previewUrl: buildDocsViewer(exportUrl),
+        notes: [diagnostic("preview-viewer.docs-viewer"), SHARE_PUBLICLY],
+      };
+    }
+
+    case "doc": {
+      // Format conversion only exists for native Google Docs.
+      // Uploaded .docx/.txt files on Drive are downloaded as they are.
+      if (link.kind !== "document") {
+        const exportUrl = rk(driveDownload());
+        return {
+          fileId: id,
+          exportUrl,
+          previewUrl: buildDocsViewer(exportUrl),
+          notes: [diagnostic("original-format.doc")],
+        };
+      }
+
+      const format = options.docs?.format ?? "pdf";
+      const notes = [
+        format === "html"
+          ? diagnostic("export-format.html-zip")
+          : exportFormat(format),
+        diagnostic("preview-viewer.docs"),
+        SHARE_PUBLICLY,
+      ];
+
+      return {
+        fileId: id,
+        exportUrl: rk(buildDocsExport(id, format)),
+        previewUrl: rk(buildDocsPreview(id)),
+        notes,
+      };
+    }
+
+    case "sheet": {
+      // Format conversion only exists for native Google Sheets.
+      // Uploaded .xlsx/.csv files on Drive are downloaded as they are.
+      if (link.kind !== "spreadsheets") {
+        const exportUrl = rk(driveDownload());
+        return {
+          fileId: id,
+          exportUrl,
+          previewUrl: buildMicrosoftOfficeViewer(exportUrl),
+          notes: [diagnostic("original-format.sheet")],
+        };
+      }
+
+      const sheets = options.sheets ?? {};
+      const format = sheets.format ?? "xlsx";
+      const gid = sheets.gid || extractSheetGid(raw) || undefined;
+      const exportUrl = rk(buildSheetsExport(id, { ...sheets, format, gid }));
+
+      const notes = [exportFormat(format)];
+      if (format === "csv" || format === "tsv") {
+        notes.push(
+          gid
+            ? diagnostic("sheet-tabs", { gid })
+            : diagnostic("single-tab", { format: format.toUpperCase() }),
+        );
+      } else if (format === "pdf") {
+        notes.push(
+          gid
+            ? diagnostic("sheet-tabs.pdf", { gid })
+            : diagnostic("sheet-tabs.pdf-all"),
+        );
+        if (sheets.range && !gid) notes.push(diagnostic("range-needs-gid"));
+      } else if (gid) {
+        notes.push(diagnostic("gid-ignored", { format: format.toUpperCase() }));
+      }
+      notes.push(diagnostic("preview-viewer.sheets"), SHARE_PUBLICLY);
+
+      return {
+        fileId: id,
+        exportUrl,
+        previewUrl: rk(buildSheetsPreview(id, gid)),
+        notes,
+      };
+    }
+
+    case "image": {
+      // Most reliable for images stored in Drive
+      // If it is a Google Docs/Slides, it won't be an image.
+      const exportUrl = rk(buildDriveDirectView(id));
+      return {
+        fileId: id,
+        exportUrl,
+        previewUrl: exportUrl,
+        notes: [diagnostic("image-only")],
+      };
+    }
+
+    case "video": {
+      // Direct download is the most consistent for <video>
+      const exportUrl = rk(driveDownload());
+      return {
+        fileId: id,
+        exportUrl,
+        previewUrl: exportUrl,
+        notes: [diagnostic("media-playback.video")],
+      };
+    }
+
+    case "audio": {
+      const exportUrl = rk(driveDownload());
+      return {
+        fileId: id,
+        exportUrl,
+        previewUrl: exportUrl,
+        notes: [diagnostic("media-playback.audio")],
+      };
+    }
+
+    default:
+      return { error: diagnostic("unsupported-type") };
+  }
+}
+
+function convertFolder(link: GoogleLink): ConvertResult {
+  // Shared drive roots have IDs starting with "0A"
+  return {
+    folderId: link.id,
+    error: diagnostic(
+      link.id.startsWith("0A") ? "folder-link.shared-drive" : "folder-link",
+    ),
+  };
+}
+
+function convertForm(link: GoogleLink): ConvertResult {
+  const base = `https://docs.google.com/forms/d/${link.id}/viewform`;
+  return {
+    fileId: link.id,
+    exportUrl: withResourceKey(base, link.resourceKey),
+    previewUrl: withResourceKey(`${base}?embedded=true`, link.resourceKey),
+    notes: [FORM_LINK, diagnostic("must-be-public.form")],
+  };
+}
+
+function convertDrawing(link: GoogleLink, type: FileType): ConvertResult {
+  const rk = (url: string) => withResourceKey(url, link.resourceKey);
+
+  if (type === "pdf") {
+    const exportUrl = rk(buildDrawingsExport(link.id, "pdf"));
+    return {
+      fileId: link.id,
+      exportUrl,
+      previewUrl: buildDocsViewer(exportUrl),
+      notes: [diagnostic("export-format.drawing", { format: "PDF" })],
+    };
+  }
+
+  const exportUrl = rk(buildDrawingsExport(link.id, "png"));
+  return {
+    fileId: link.id,
+    exportUrl,
+    previewUrl: exportUrl,
+    notes: [
+      diagnostic("export-format.drawing", { format: "PNG" }),
+      diagnostic("drawing-formats"),
+    ],
+  };
+}
+
+// Published-to-web links (/d/e/2PACX-...) only serve the published view:
+// no /export, no Drive download.
+function convertPublished(
+  link: GoogleLink,
+  raw: string,
+  type: FileType,
+  options: ConvertOptions,
+): ConvertResult {
+  const id = link.id;
+  const notes = [diagnostic("published-link")];
+
+  switch (link.kind) {
+    case "presentation": {
+      const embedUrl = buildSlidesEmbed(id, options.slides, true);
+      return {
+        fileId: id,
+        published: true,
+        exportUrl: buildPublishedUrl("presentation", id, "pub"),
+        embedUrl,
+        previewUrl: embedUrl,
+        notes: [...notes, diagnostic("preview-viewer.published-slides")],
+      };
+    }
+
+    case "spreadsheets": {
+      // Published Sheets can still be downloaded through /pub?output=
+      const sheets = options.sheets ?? {};
+      const format = type === "pdf" ? "pdf" : (sheets.format ?? "xlsx");
+      const gid = sheets.gid || extractSheetGid(raw) || undefined;
+      const params = new URLSearchParams({ output: format });
+      if (gid && format !== "xlsx" && format !== "ods") {
+        params.set("gid", gid);
+        params.set("single", "true");
+      }
+      return {
+        fileId: id,
+        published: true,
+        exportUrl: buildPublishedUrl("spreadsheets", id, `pub?${params}`),
+        previewUrl: buildPublishedUrl(
+          "spreadsheets",
+          id,
+          "pubhtml?widget=true&headers=false",
+        ),
+        notes: [
+          diagnostic("published-link.sheets"),
+          diagnostic("export-format.published", {
+            format: format.toUpperCase(),
+          }),
+        ],
+      };
+    }
+
+    case "forms":
+      return {
+        fileId: id,
+        published: true,
+        exportUrl: buildPublishedUrl("forms", id, "viewform"),
+        previewUrl: buildPublishedUrl("forms", id, "viewform?embedded=true"),
+        notes: [FORM_LINK],
+      };
+
+    default:
+      return {
+        fileId: id,
+        published: true,
+        exportUrl: buildPublishedUrl("document", id, "pub"),
+        previewUrl: buildPublishedUrl("document", id, "pub?embedded=true"),
+        notes: [...notes, diagnostic("preview-viewer.published-page")],
+      };
+  }
+}
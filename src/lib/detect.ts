@@ -0,0 +1,170 @@
+import {
+  isProbablyGoogleLink,
+  parseGoogleLink,
+  type GoogleLinkKind,
+} from "./google";
+import { formatMessage, type DetectionKey } from "./messages";
+import type { FileType, MessageParams, TypeDetection } from "./types";
+import { parseUrl } from "./url";
+
+const EXTENSIONS: Record<string, FileType> = {
+  ppt: "ppt",
+  pptx: "ppt",
+  pps: "ppt",
+  ppsx: "ppt",
+  odp: "ppt",
+  key: "ppt",
+  pdf: "pdf",
+  doc: "doc",
+  docx: "doc",
+  odt: "doc",
+  rtf: "doc",
+  epub: "doc",
+  md: "doc",
+  txt: "doc",
+  xlsx: "sheet",
+  xls: "sheet",
+  ods: "sheet",
+  csv: "sheet",
+  tsv: "sheet",
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  webp: "image",
+  svg: "image",
+  bmp: "image",
+  avif: "image",
+  ico: "image",
+  mp4: "video",
+  m4v: "video",
+  webm: "video",
+  mov: "video",
+  ogv: "video",
+  mkv: "video",
+  mp3: "audio",
+  wav: "audio",
+  ogg: "audio",
+  oga: "audio",
+  m4a: "audio",
+  aac: "audio",
+  flac: "audio",
+  opus: "audio",
+};
+
+// Google-native products, checked before anything else.
+const GOOGLE_KINDS: Partial<
+  Record<GoogleLinkKind, { type: FileType; key: DetectionKey }>
+> = {
+  presentation: { type: "ppt", key: "detect.slides" },
+  document: { type: "doc", key: "detect.docs" },
+  spreadsheets: { type: "sheet", key: "detect.sheets" },
+  drawings: { type: "image", key: "detect.drawings" },
+  forms: { type: "doc", key: "detect.forms" },
+};
+
+function detection(
+  type: FileType,
+  key: DetectionKey,
+  params?: MessageParams,
+): TypeDetection {
+  return {
+    type,
+    reason: formatMessage(key, params),
+    key,
+    ...(params ? { params } : {}),
+  };
+}
+
+function typeFromMime(mime: string): FileType | null {
+  const m = mime.toLowerCase();
+  if (m.startsWith("image/")) return "image";
+  if (m.startsWith("video/")) return "video";
+  if (m.startsWith("audio/")) return "audio";
+  if (m === "application/pdf") return "pdf";
+  if (
+    m.includes("msword") ||
+    m.includes("wordprocessing") || // openxml
+    m.includes("opendocument.text") ||
+    m.includes("google-apps.document") ||
+    m === "application/rtf" ||
+    m === "application/epub+zip" ||
+    m === "text/plain" ||
+    m === "text/markdown"
+  ) {
+    return "doc";
+  }
+  if (
+    m.includes("spreadsheet") || // openxml, opendocument, google-apps
+    m.includes("excel") ||
+    m === "text/csv" ||
+    m === "text/tab-separated-values"
+  ) {
+    return "sheet";
+  }
+  if (
+    m.includes("powerpoint") ||
+    m.includes("presentation") // openxml, opendocument, google-apps
+  ) {
+    return "ppt";
+  }
+  return null;
+}
+
+// SharePoint/OneDrive sharing links carry the Office app: /:x:/g/...
+const SHAREPOINT_KINDS: Record<string, FileType> = {
+  w: "doc",
+  x: "sheet",
+  p: "ppt",
+  b: "pdf",
+  i: "image",
+  v: "video",
+};
+
+/**
+ * Guess the file type from the shape of a link.
+ * Returns null when the link carries no hint (e.g. a bare /file/d/<ID> URL).
+ */
+export function detectFileType(input: string): TypeDetection | null {
+  const raw = input.trim();
+  if (!raw) return null;
+
+  const google = isProbablyGoogleLink(raw) ? parseGoogleLink(raw) : null;
+  const known = google && GOOGLE_KINDS[google.kind];
+  if (known) return detection(known.type, known.key);
+
+  const url = parseUrl(raw);
+  if (!url) return null;
+  if (google && url.pathname === "/thumbnail") {
+    return detection("image", "detect.thumbnail");
+  }
+
+  // mimeType hints, e.g. ...?mimeType=video/mp4
+  for (const [key, value] of url.searchParams) {
+    if (!/^(mime_?type|mime|content_?type)$/i.test(key)) continue;
+    const type = typeFromMime(value);
+    if (type) return detection(type, "detect.mime", { param: key, value });
+  }
+
+  const office = url.pathname.match(/^\/:([a-z]):\//i)?.[1]?.toLowerCase();
+  if (office && SHAREPOINT_KINDS[office]) {
+    return detection(SHAREPOINT_KINDS[office], "detect.sharepoint", {
+      office,
+    });
+  }
+
+  // File extension on the last path segment (or a filename-like param)
+  const candidates = [
+    url.pathname.split("/").pop() ?? "",
+    url.searchParams.get("filename") ?? "",
+    url.searchParams.get("name") ?? "",
+  ];
+  for (const c of candidates) {
+    const ext = c.match(/\.([a-z0-9]+)$/i)?.[1]?.toLowerCase();
+    if (ext && EXTENSIONS[ext]) {
+      return detection(EXTENSIONS[ext], "detect.extension", { ext });
+    }
+  }
+
+  return null;
+}
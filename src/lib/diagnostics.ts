@@ -0,0 +1,105 @@
+import {
+  MESSAGES,
+  actionMessage,
+  formatMessage,
+  type ActionInput,
+  type DiagnosticKey,
+} from "./messages";
+import type {
+  ConvertResult,
+  Diagnostic,
+  DiagnosticAction,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  MessageParams,
+} from "./types";
+
+// Every code has one severity, so callers can rely on either
+const SEVERITY: Record<DiagnosticCode, DiagnosticSeverity> = {
+  "empty-input": "error",
+  "no-link": "error",
+  "no-file-id": "error",
+  "no-shared-file": "error",
+  "folder-link": "error",
+  "unsupported-type": "error",
+  "invalid-url": "error",
+  "unsafe-scheme": "error",
+  "no-preview": "error",
+  "preview-failed": "error",
+  "type-mismatch": "warning",
+  "original-format": "warning",
+  "single-slide": "warning",
+  "single-tab": "warning",
+  "range-needs-gid": "warning",
+  "gid-ignored": "warning",
+  "media-playback": "warning",
+  "published-link": "warning",
+  "folder-zip": "warning",
+  "sharing-required": "warning",
+  "insecure-http": "warning",
+  "credentials-in-url": "warning",
+  "not-google": "info",
+  "provider-link": "info",
+  "export-format": "info",
+  "preview-viewer": "info",
+  "pick-viewer": "info",
+  "preview-switched": "info",
+  "all-slides": "info",
+  "slide-page": "info",
+  "sheet-tabs": "info",
+  "image-only": "info",
+  "form-link": "info",
+  "drawing-formats": "info",
+  "large-file": "info",
+  "raw-text": "info",
+  "resource-key": "info",
+  "must-be-public": "info",
+};
+
+// The code is the key up to its first "."; message, fix and action label
+// come from the English catalogue (messages.ts)
+export function diagnostic(
+  key: DiagnosticKey,
+  params?: MessageParams,
+  action?: ActionInput,
+): Diagnostic {
+  const code = key.split(".")[0] as DiagnosticCode;
+  const fixKey = `${key}.fix`;
+  const d: Diagnostic = {
+    code,
+    severity: SEVERITY[code],
+    key,
+    ...(params ? { params } : {}),
+    message: formatMessage(key, params),
+  };
+  if (fixKey in MESSAGES) d.fix = formatMessage(fixKey, params);
+  if (action) {
+    const label = actionMessage(action);
+    d.action = {
+      ...action,
+      label: formatMessage(label.key, label.params),
+    } as DiagnosticAction;
+  }
+  return d;
+}
+
+// Message and fix as one line, for CSV cells and terminals
+export function formatDiagnostic(d: Diagnostic): string {
+  return d.fix ? `${d.message} ${d.fix}` : d.message;
+}
+
+// Notes first by severity (warnings before info), keeping their order
+export function sortDiagnostics(notes: Diagnostic[]): Diagnostic[] {
+  const rank: Record<DiagnosticSeverity, number> = {
+    error: 0,
+    warning: 1,
+    info: 2,
+  };
+  return [...notes].sort((a, b) => rank[a.severity] - rank[b.severity]);
+}
+
+export function hasCode(result: ConvertResult, code: DiagnosticCode) {
+  return (
+    result.error?.code === code || !!result.notes?.some((n) => n.code === code)
+  );
+}
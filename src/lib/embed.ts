@@ -0,0 +1,328 @@
+import { convertLink } from "./convert";
+import { diagnostic, hasCode } from "./diagnostics";
+import { getFileTypeInfo } from "./fileTypes";
+import type {
+  ConvertOptions,
+  ConvertResult,
+  Diagnostic,
+  FileType,
+  FileTypeChoice,
+  ViewerKind,
+} from "./types";
+import { getProviders } from "./providers";
+import { isSafeUrl } from "./url";
+import {
+  defaultElement,
+  listViewers,
+  orderViewers,
+  type ViewerElement,
+  type ViewerOption,
+} from "./viewers";
+
+export type EmbedFormat = "html" | "markdown" | "bbcode" | "oembed";
+
+export type EmbedOptions = {
+  // Numbers are pixels; strings are used as-is (e.g. "100%")
+  width?: number | string;
+  height?: number | string;
+  // e.g. "16/9" or "4:3"; used when no height is given
+  aspectRatio?: string;
+  // loading="lazy" for iframes/images, preload="none" for media
+  lazy?: boolean;
+  title?: string;
+};
+
+// Matches what the page preview uses per type
+const DEFAULTS: Record<FileType, EmbedOptions> = {
+  ppt: { width: "100%", aspectRatio: "16/9" },
+  pdf: { width: "100%", height: 600 },
+  doc: { width: "100%", height: 600 },
+  sheet: { width: "100%", height: 600 },
+  image: {},
+  video: { width: "100%" },
+  audio: {},
+};
+
+// Attributes for third-party viewer iframes. Viewers need scripts and
+// their own origin; the sandbox still stops them navigating the page.
+export const IFRAME_SANDBOX =
+  "allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox allow-presentation allow-downloads";
+export const IFRAME_ALLOW = "autoplay; encrypted-media; fullscreen";
+// Keep the embedding page's URL (and any link in it) away from the host
+export const EMBED_REFERRER_POLICY = "no-referrer";
+
+function escapeAttr(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function cssSize(value: number | string) {
+  return typeof value === "number" ? `${value}px` : value;
+}
+
+function attrs(pairs: Array<[string, string | number | boolean | undefined]>) {
+  return pairs
+    .filter(([, v]) => v !== undefined && v !== false)
+    .map(([k, v]) => (v === true ? k : `${k}="${escapeAttr(String(v))}"`))
+    .join(" ");
+}
+
+function sizeAttrs(o: EmbedOptions) {
+  // width/height attributes only take pixels; anything else goes in style
+  const style: string[] = [];
+  const pairs: Array<[string, string | number | undefined]> = [];
+  for (const key of ["width", "height"] as const) {
+    const v = o[key];
+    if (v === undefined) continue;
+    if (typeof v === "number") pairs.push([key, v]);
+    else style.push(`${key}:${cssSize(v)}`);
+  }
+  if (o.aspectRatio && o.height === undefined) {
+    style.push(`aspect-ratio:${o.aspectRatio.replace(":", "/")}`);
+    if (o.width === undefined) style.push("width:100%");
+  }
+  return { pairs, style: style.length ? style.join(";") : undefined };
+}
+
+// A viewer's element can differ from the type's (a video in Drive's
+// player frame, a PDF as its thumbnail); frames for media are 16:9.
+function embedDefaults(type: FileType, element: ViewerElement): EmbedOptions {
+  if (element === "img") return DEFAULTS.image;
+  if (element === "iframe" && defaultElement(type) !== "iframe") {
+    return { width: "100%", aspectRatio: "16/9" };
+  }
+  return DEFAULTS[type];
+}
+
+function embedHtml(
+  element: ViewerElement,
+  type: FileType,
+  url: string,
+  o: EmbedOptions,
+): string {
+  const { pairs, style } = sizeAttrs(o);
+  const title = o.title ?? `${getFileTypeInfo(type)?.label} embed`;
+
+  switch (element) {
+    case "img":
+      return `<img ${attrs([
+        ["src", url],
+        ["alt", o.title ?? ""],
+        ...pairs,
+        ["style", style],
+        ["loading", o.lazy ? "lazy" : undefined],
+        ["referrerpolicy", EMBED_REFERRER_POLICY],
+      ])} />`;
+    case "video":
+      return `<video ${attrs([
+        ["src", url],
+        ...pairs,
+        ["style", style],
+        ["controls", true],
+        ["preload", o.lazy ? "none" : "metadata"],
+        ["title", o.title],
+      ])}></video>`;
+    case "audio":
+      return `<audio ${attrs([
+        ["src", url],
+        ...pairs,
+        ["style", style],
+        ["controls", true],
+        ["preload", o.lazy ? "none" : "metadata"],
+        ["title", o.title],
+      ])}></audio>`;
+    default:
+      return `<iframe ${attrs([
+        ["src", url],
+        ["title", title],
+        ...pairs,
+        ["style", style ? `border:0;${style}` : "border:0"],
+        ["loading", o.lazy ? "lazy" : undefined],
+        ["sandbox", IFRAME_SANDBOX],
+        ["allow", IFRAME_ALLOW],
+        ["referrerpolicy", EMBED_REFERRER_POLICY],
+        ["allowfullscreen", type === "ppt" || type === "video"],
+      ])}></iframe>`;
+  }
+}
+
+// Markdown link text: brackets and backslashes would end or escape it
+function escapeMarkdown(label: string) {
+  return label.replace(/[\\[\]]/g, "\\$&");
+}
+
+// BBCode has no escape character; entities keep the tag intact
+function escapeBbcode(label: string) {
+  return label.replace(/\[/g, "&#91;").replace(/\]/g, "&#93;");
+}
+
+// Characters that end a Markdown link target or a BBCode [url=] value
+function escapeLinkUrl(url: string) {
+  return url.replace(
+    /[()[\]]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+}
+
+// Who hosts the file, for oEmbed; null for plain links to other sites
+function oembedProvider(
+  result: ConvertResult,
+): { provider_name: string; provider_url?: string } | null {
+  if (result.provider) {
+    const provider = getProviders().find((p) => p.key === result.provider);
+    return provider
+      ? { provider_name: provider.name, provider_url: provider.url }
+      : null;
+  }
+  if (hasCode(result, "not-google")) return null;
+  return {
+    provider_name: "Google Drive",
+    provider_url: "https://drive.google.com/",
+  };
+}
+
+function oembedType(element: ViewerElement) {
+  if (element === "img") return "photo";
+  if (element === "video") return "video";
+  return "rich";
+}
+
+/**
+ * Ready-to-paste embed snippet for a conversion result. With a viewer
+ * (from listViewers), embeds that viewer's URL the way it renders;
+ * otherwise the result's previewUrl. Returns null when there is nothing
+ * to embed.
+ */
+export function buildEmbedCode(
+  result: ConvertResult,
+  format: EmbedFormat,
+  options: EmbedOptions = {},
+  viewer?: ViewerOption,
+): string | null {
+  const type = result.type;
+  const url = viewer?.url ?? result.previewUrl;
+  if (!type || !url || result.error || !isSafeUrl(url)) return null;
+
+  const element = viewer?.element ?? defaultElement(type);
+  const o: EmbedOptions = { ...embedDefaults(type, element), ...options };
+  const label = o.title || getFileTypeInfo(type)?.label || "File";
+  const link = result.exportUrl ?? url;
+
+  switch (format) {
+    case "html":
+      return embedHtml(element, type, url, o);
+
+    case "markdown":
+      // Markdown only has images; everything else becomes a link
+      return element === "img"
+        ? `![${escapeMarkdown(label)}](${escapeLinkUrl(url)})`
+        : `[${escapeMarkdown(label)}](${escapeLinkUrl(link)})`;
+
+    case "bbcode":
+      if (element === "img") {
+        const size =
+          typeof o.width === "number" && typeof o.height === "number"
+            ? `=${o.width}x${o.height}`
+            : "";
+        return `[img${size}]${escapeLinkUrl(url)}[/img]`;
+      }
+      return `[url=${escapeLinkUrl(link)}]${escapeBbcode(label)}[/url]`;
+
+    case "oembed": {
+      const width = typeof o.width === "number" ? o.width : undefined;
+      const height = typeof o.height === "number" ? o.height : undefined;
+      const kind = oembedType(element);
+      return JSON.stringify(
+        {
+          version: "1.0",
+          type: kind,
+          title: label,
+          ...oembedProvider(result),
+          ...(kind === "photo"
+            ? { url }
+            : { html: embedHtml(element, type, url, o) }),
+          width: width ?? null,
+          height: height ?? null,
+        },
+        null,
+        2,
+      );
+    }
+  }
+}
+
+// "640" -> 640 (pixels), "100%" -> "100%", "" -> undefined (type default)
+export function parseEmbedSize(
+  value: string | null | undefined,
+): number | string | undefined {
+  const v = value?.trim();
+  if (!v) return undefined;
+  return /^\d+$/.test(v) ? Number(v) : v;
+}
+
+// CSS size of a live embed (<DriveEmbed>, <drive-embed>)
+export type EmbedStyle = {
+  width?: string;
+  height?: string;
+  aspectRatio?: string;
+};
+
+// Same per-type defaults as the snippets. An aspect ratio without a
+// height replaces the default height.
+export function embedStyle(
+  type: FileType,
+  options: EmbedOptions = {},
+): EmbedStyle {
+  const d = DEFAULTS[type];
+  // Unset props (undefined) keep the defaults
+  const o: EmbedOptions = {
+    width: options.width ?? d.width,
+    height: options.height ?? (options.aspectRatio ? undefined : d.height),
+    aspectRatio: options.aspectRatio ?? d.aspectRatio,
+  };
+  const style: EmbedStyle = {};
+  if (o.width !== undefined) style.width = cssSize(o.width);
+  if (o.height !== undefined) style.height = cssSize(o.height);
+  else if (o.aspectRatio) {
+    style.aspectRatio = o.aspectRatio.replace(":", "/");
+    style.width ??= "100%";
+  }
+  return style;
+}
+
+// Accessible name of a live embed: "PDF", or "PDF (Drive preview)" when
+// it isn't the type's own viewer
+export function embedTitle(type: FileType, viewer: ViewerOption): string {
+  const label = getFileTypeInfo(type)?.label ?? type;
+  return viewer.kind === "default" ? label : `${label} (${viewer.label})`;
+}
+
+export type EmbedTarget = {
+  result: ConvertResult;
+  // The fallback chain, preferred viewer first; empty with an error
+  viewers: ViewerOption[];
+  error?: Diagnostic;
+};
+
+/**
+ * What a live embed should render for a link: the conversion plus the
+ * viewers to try in order. error is the conversion error, or no-preview
+ * when the link converted but nothing can display it.
+ */
+export function resolveEmbed(
+  input: string,
+  type: FileTypeChoice = "auto",
+  viewer: ViewerKind | "auto" = "auto",
+  options: ConvertOptions = {},
+): EmbedTarget {
+  const result = convertLink(input, type, options);
+  if (result.error) return { result, viewers: [], error: result.error };
+  const viewers = orderViewers(listViewers(result), viewer);
+  if (!viewers.length) {
+    return { result, viewers, error: diagnostic("no-preview") };
+  }
+  return { result, viewers };
+}
@@ -0,0 +1,60 @@
+import type { FileType, FileTypeInfo } from "./types";
+
+export const FILE_TYPES: FileTypeInfo[] = [
+  {
+    key: "ppt",
+    label: "PPT / PPTX",
+    hint: "Uses Microsoft Office viewer",
+    description: "PowerPoint Presentation - Slideshow format for presentations",
+  },
+  {
+    key: "pdf",
+    label: "PDF",
+    hint: "Uses PDF viewer (iframe)",
+    description:
+      "Portable Document Format - Universal document format for viewing and sharing",
+  },
+  {
+    key: "doc",
+    label: "Document",
+    hint: "pdf, docx, odt, epub, md…",
+    description:
+      "Text Document - Google Docs exported as Word, OpenDocument, RTF, plain text, EPUB, HTML or Markdown",
+  },
+  {
+    key: "sheet",
+    label: "Sheets",
+    hint: "xlsx, csv, tsv, ods, pdf",
+    description:
+      "Spreadsheet - Google Sheets exported as Excel, CSV/TSV, OpenDocument or PDF",
+  },
+  {
+    key: "image",
+    label: "Image",
+    hint: "Uses <img />",
+    description:
+      "Image File - Pictures and graphics in various formats (PNG, JPG, GIF, etc.)",
+  },
+  {
+    key: "video",
+    label: "Video",
+    hint: "Uses <video />",
+    description:
+      "Video File - Motion picture content in formats like MP4, WebM, etc.",
+  },
+  {
+    key: "audio",
+    label: "Audio",
+    hint: "Uses <audio />",
+    description:
+      "Audio File - Sound content in formats like MP3, WAV, OGG, etc.",
+  },
+];
+
+export function getFileTypeInfo(type: FileType): FileTypeInfo | undefined {
+  return FILE_TYPES.find((t) => t.key === type);
+}
+
+export function isFileType(value: string): value is FileType {
+  return FILE_TYPES.some((t) => t.key === value);
+}
@@ -0,0 +1,287 @@
+import type {
+  DocsFormat,
+  SheetsExportOptions,
+  SlidesExportOptions,
+  SlidesFormat,
+} from "./types";
+import { isGoogleUrl, parseUrl } from "./url";
+
+// Which Google product a link points at
+export type GoogleLinkKind =
+  | "file"
+  | "folder"
+  | "presentation"
+  | "document"
+  | "spreadsheets"
+  | "forms"
+  | "drawings";
+
+export type GoogleLink = {
+  kind: GoogleLinkKind;
+  id: string;
+  // Published-to-web link (/d/e/2PACX-...): only /pub and /embed work
+  published: boolean;
+  // Required for some files shared before 2021 (?resourcekey=...)
+  resourceKey?: string;
+};
+
+const ID = "([a-zA-Z0-9_-]+)";
+// Account-indexed paths: /u/1/
+const ACCOUNT = "(?:\\/u\\/\\d+)?";
+
+// Checked in order; published links must come before the editor ones
+// or "/d/e/2PACX-..." would yield the ID "e".
+const LINK_PATTERNS: Array<{
+  pattern: RegExp;
+  kind: GoogleLinkKind | null;
+  published?: boolean;
+}> = [
+  // https://docs.google.com/presentation/d/e/2PACX-<ID>/pub
+  {
+    pattern: new RegExp(
+      `\\/(presentation|document|spreadsheets|forms)${ACCOUNT}\\/d\\/e\\/${ID}`,
+    ),
+    kind: null,
+    published: true,
+  },
+  // https://docs.google.com/<product>/d/<ID>/edit, also /<product>/u/1/d/<ID>
+  {
+    pattern: new RegExp(
+      `\\/(presentation|document|spreadsheets|forms|drawings)${ACCOUNT}\\/d\\/${ID}`,
+    ),
+    kind: null,
+  },
+  // https://drive.google.com/file/d/<ID>/view, also /file/u/1/d/<ID>
+  { pattern: new RegExp(`\\/file${ACCOUNT}\\/d\\/${ID}`), kind: "file" },
+  // https://drive.google.com/drive/folders/<ID>, /drive/u/1/folders/<ID>
+  {
+    pattern: new RegExp(`\\/drive${ACCOUNT}\\/(?:mobile\\/)?folders\\/${ID}`),
+    kind: "folder",
+  },
+  // https://drive.google.com/(embedded)folderview?id=<ID>
+  { pattern: new RegExp(`folderview\\?(?:.*&)?id=${ID}`), kind: "folder" },
+  // https://drive.google.com/open?id=<ID>, /uc?id=<ID>, /thumbnail?id=<ID>
+  { pattern: new RegExp(`[?&]id=${ID}`), kind: "file" },
+];
+
+export function parseGoogleLink(input: string): GoogleLink | null {
+  const url = parseUrl(input);
+  if (!url || !isGoogleUrl(url)) return null;
+  // Patterns only look at the path and query, never at the host part
+  const path = url.pathname + url.search;
+
+  const resourceKey = path.match(/[?&]resourcekey=([a-zA-Z0-9_-]+)/)?.[1];
+
+  for (const p of LINK_PATTERNS) {
+    const m = path.match(p.pattern);
+    if (!m) continue;
+    // Patterns without a fixed kind capture the product first
+    const kind = p.kind ?? (m[1] as GoogleLinkKind);
+    const id = p.kind ? m[1] : m[2];
+    if (!id) continue;
+    return {
+      kind,
+      id,
+      published: !!p.published,
+      ...(resourceKey ? { resourceKey } : {}),
+    };
+  }
+
+  return null;
+}
+
+export function extractGoogleFileId(input: string): string | null {
+  // Common patterns:
+  // 1) https://drive.google.com/file/d/<ID>/view?...
+  // 2) https://docs.google.com/presentation/d/<ID>/edit?...
+  // 3) https://docs.google.com/document/d/<ID>/edit?...
+  // 4) https://docs.google.com/spreadsheets/d/<ID>/edit?...
+  // 5) https://drive.google.com/open?id=<ID>
+  // 6) https://drive.google.com/uc?id=<ID>&export=download
+  // plus /forms/d/, /drawings/d/, /thumbnail?id=, /u/<n>/ paths and
+  // published /d/e/2PACX-... links. Folders are not files: null.
+  const link = parseGoogleLink(input);
+  return link && link.kind !== "folder" ? link.id : null;
+}
+
+// Appends ?resourcekey= (before any #hash) so older shared files stay reachable
+export function withResourceKey(url: string, resourceKey?: string | null) {
+  if (!resourceKey) return url;
+  const [base, hash] = url.split("#", 2);
+  const sep = base.includes("?") ? "&" : "?";
+  return `${base}${sep}resourcekey=${resourceKey}${hash !== undefined ? `#${hash}` : ""}`;
+}
+
+// Tab id of a Sheets link: .../edit#gid=123 or ...?gid=123
+export function extractSheetGid(input: string): string | null {
+  return input.match(/[#?&]gid=(\d+)/)?.[1] ?? null;
+}
+
+// Slide object id of a Slides link: .../edit#slide=id.g12ab_0_5
+export function extractSlidePageId(input: string): string | null {
+  return input.match(/[#?&]slide=id\.([a-zA-Z0-9_-]+)/)?.[1] ?? null;
+}
+
+// Parsed hostname is drive.google.com or docs.google.com (http or https)
+export function isProbablyGoogleLink(input: string) {
+  const url = parseUrl(input);
+  return !!url && isGoogleUrl(url);
+}
+
+export function buildDriveDirectDownload(fileId: string) {
+  // Works for Drive files (when permissions allow public access)
+  // For large files, Google may show a warning page; still the standard direct link.
+  // buildDriveLargeFileDownload skips that page.
+  return `https://drive.google.com/uc?export=download&id=${fileId}`;
+}
+
+export function buildDriveLargeFileDownload(fileId: string) {
+  // confirm=t answers the large-file virus-scan page up front, so the
+  // bytes come straight back (what <video>/<audio> need)
+  return `https://drive.usercontent.google.com/download?id=${fileId}&export=download&confirm=t`;
+}
+
+// Either Drive download form: uc?export=download or drive.usercontent
+export function isDriveDownloadUrl(input: string) {
+  const url = parseUrl(input);
+  if (!url) return false;
+  if (url.hostname === "drive.usercontent.google.com") {
+    return url.pathname === "/download";
+  }
+  return (
+    url.hostname === "drive.google.com" &&
+    url.pathname === "/uc" &&
+    url.searchParams.get("export") === "download"
+  );
+}
+
+export function buildDriveDirectView(fileId: string) {
+  // Often works for images, sometimes for other media types.
+  return `https://drive.google.com/uc?export=view&id=${fileId}`;
+}
+
+export function buildDrivePreview(fileId: string) {
+  // Drive's own viewer; works for most file types, including videos
+  return `https://drive.google.com/file/d/${fileId}/preview`;
+}
+
+export function buildDriveThumbnail(fileId: string, width = 1000) {
+  // Rendered first page / frame as an image; public files only
+  return `https://drive.google.com/thumbnail?id=${fileId}&sz=w${width}`;
+}
+
+export function buildSlidesExportPptx(fileId: string) {
+  // For Google Slides
+  return `https://docs.google.com/presentation/d/${fileId}/export/pptx`;
+}
+
+export function buildSlidesExport(
+  fileId: string,
+  format: SlidesFormat = "pptx",
+  pageId?: string | null,
+) {
+  // For Google Slides: /export/<format>, images need ?pageid=<slide object id>
+  const base = `https://docs.google.com/presentation/d/${fileId}/export/${format}`;
+  const perSlide = format === "png" || format === "jpeg" || format === "svg";
+  return perSlide && pageId
+    ? `${base}?pageid=${encodeURIComponent(pageId)}`
+    : base;
+}
+
+export function buildSlidesEmbed(
+  fileId: string,
+  options: SlidesExportOptions = {},
+  published = false,
+) {
+  // For Google Slides embed (published-to-web IDs live under /d/e/)
+  const params = new URLSearchParams({
+    start: String(options.autoplay ?? false),
+    loop: String(options.loop ?? false),
+    delayms: String(options.delayMs ?? 3000),
+  });
+  const start = options.startSlide?.trim();
+  const hash = !start
+    ? ""
+    : /^\d+$/.test(start)
+      ? `#slide=${start}`
+      : `#slide=id.${start.replace(/^id\./, "")}`;
+  const path = published ? `e/${fileId}` : fileId;
+  return `https://docs.google.com/presentation/d/${path}/embed?${params}${hash}`;
+}
+
+export function buildDocsExport(fileId: string, format: DocsFormat = "pdf") {
+  // For Google Docs: /export?format=pdf|docx|odt|rtf|txt|epub|zip|md
+  // HTML comes as a zip (page + images).
+  const param = format === "html" ? "zip" : format;
+  return `https://docs.google.com/document/d/${fileId}/export?format=${param}`;
+}
+
+export function buildDocsPreview(fileId: string) {
+  // For Google Docs preview (read-only, no toolbar)
+  return `https://docs.google.com/document/d/${fileId}/preview`;
+}
+
+export function buildSheetsExport(
+  fileId: string,
+  options: SheetsExportOptions = {},
+) {
+  // For Google Sheets: /export?format=xlsx|csv|tsv|ods|pdf
+  const format = options.format ?? "xlsx";
+  const params = new URLSearchParams({ format });
+  // xlsx/ods always contain every tab, so gid only matters for the rest
+  if (options.gid && format !== "xlsx" && format !== "ods") {
+    params.set("gid", options.gid);
+  }
+
+  if (format === "pdf") {
+    if (options.orientation) {
+      params.set("portrait", String(options.orientation === "portrait"));
+    }
+    if (options.fitToWidth !== undefined) {
+      params.set("fitw", String(options.fitToWidth));
+    }
+    if (options.gridlines !== undefined) {
+      params.set("gridlines", String(options.gridlines));
+    }
+    if (options.range) params.set("range", options.range);
+  }
+
+  return `https://docs.google.com/spreadsheets/d/${fileId}/export?${params}`;
+}
+
+export function buildSheetsPreview(fileId: string, gid?: string | null) {
+  // For Google Sheets preview (read-only, no toolbar)
+  return `https://docs.google.com/spreadsheets/d/${fileId}/preview${gid ? `#gid=${gid}` : ""}`;
+}
+
+export function buildDrawingsExport(
+  fileId: string,
+  format: "png" | "jpeg" | "svg" | "pdf" = "png",
+) {
+  // For Google Drawings
+  return `https://docs.google.com/drawings/d/${fileId}/export/${format}`;
+}
+
+export function buildFolderEmbed(folderId: string) {
+  // Read-only grid of a public folder's files
+  return `https://drive.google.com/embeddedfolderview?id=${folderId}#grid`;
+}
+
+export function buildPublishedUrl(
+  kind: Exclude<GoogleLinkKind, "file" | "folder" | "drawings">,
+  publishedId: string,
+  path: string,
+) {
+  // Published-to-web links (/d/e/2PACX-...): /pub, /embed, /pubhtml, /viewform
+  return `https://docs.google.com/${kind}/d/e/${publishedId}/${path}`;
+}
+
+export function buildDocsViewer(urlToFile: string) {
+  // Google Docs Viewer for direct file URLs
+  return `https://docs.google.com/gview?embedded=true&url=${encodeURIComponent(urlToFile)}`;
+}
+
+export function buildMicrosoftOfficeViewer(urlToFile: string) {
+  // Microsoft Office online viewer for PPT/PPTX
+  return `https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(urlToFile)}`;
+}
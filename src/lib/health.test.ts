@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  FINAL_URL_HEADER,
+  checkUrlHealth,
+  proxyFetcher,
+  type Fetcher,
+} from "./health";
+
+const PDF = "https://drive.google.com/uc?export=download&id=1AbCdEf";
+const PREVIEW = "https://drive.google.com/file/d/1AbCdEf/preview";
+
+// A fetcher that answers every request with the same response
+function stub(
+  body: BodyInit | null,
+  init: ResponseInit & { url?: string } = {},
+): Fetcher {
+  return async () => {
+    const res = new Response(body, init);
+    // Response.url can't be set through the constructor
+    if (init.url) Object.defineProperty(res, "url", { value: init.url });
+    return res;
+  };
+}
+
+const html = (body: string, init: ResponseInit & { url?: string } = {}) =>
+  stub(body, { ...init, headers: { "Content-Type": "text/html" } });
+
+describe("checkUrlHealth", () => {
+  it("reports a file of the expected type as ok", async () => {
+    const fetcher = stub("%PDF-1.7", {
+      headers: { "Content-Type": "application/pdf" },
+    });
+    const h = await checkUrlHealth(PDF, "pdf", { fetcher });
+    expect(h).toMatchObject({
+      status: "ok",
+      url: PDF,
+      httpStatus: 200,
+      contentType: "application/pdf",
+    });
+  });
+
+  it("reports a viewer page as ok", async () => {
+    const fetcher = html("<title>Preview</title>");
+    const h = await checkUrlHealth(PREVIEW, "pdf", { fetcher });
+    expect(h.status).toBe("ok");
+  });
+
+  it("detects a redirect to Google sign-in", async () => {
+    const fetcher = html("<title>Sign in</title>", {
+      url: "https://accounts.google.com/ServiceLogin?continue=x",
+    });
+    const h = await checkUrlHealth(PDF, "pdf", { fetcher });
+    expect(h.status).toBe("sign-in");
+  });
+
+  it("detects a sign-in redirect reported by a proxy", async () => {
+    const base = stub("", {
+      headers: {
+        "Content-Type": "text/plain",
+        [FINAL_URL_HEADER]: "https://accounts.google.com/ServiceLogin",
+      },
+      url: "https://proxy.example/?url=x",
+    });
+    const fetcher = proxyFetcher("https://proxy.example/?url=", base);
+    const h = await checkUrlHealth(PDF, "pdf", { fetcher });
+    expect(h.status).toBe("sign-in");
+  });
+
+  it("treats 401 and 403 as needing sign-in", async () => {
+    for (const status of [401, 403]) {
+      const h = await checkUrlHealth(PDF, "pdf", {
+        fetcher: stub("", { status }),
+      });
+      expect(h).toMatchObject({ status: "sign-in", httpStatus: status });
+    }
+  });
+
+  it("reports a 404 as not found", async () => {
+    const h = await checkUrlHealth(PDF, "pdf", {
+      fetcher: stub("", { status: 404 }),
+    });
+    expect(h.status).toBe("not-found");
+  });
+
+  it("reports a 429 and Google's quota page as quota", async () => {
+    const tooMany = await checkUrlHealth(PDF, "pdf", {
+      fetcher: stub("", { status: 429 }),
+    });
+    expect(tooMany.status).toBe("quota");
+
+    const page = await checkUrlHealth(PDF, "pdf", {
+      fetcher: html(
+        "<p>Too many users have viewed or downloaded this file recently.</p>",
+      ),
+    });
+    expect(page.status).toBe("quota");
+  });
+
+  it("detects the large-file virus-scan page", async () => {
+    const fetcher = html(
+      "<p>Google Drive can't scan this file for viruses.</p>" +
+        '<form><input type="hidden" name="confirm" value="t"></form>',
+    );
+    const h = await checkUrlHealth(PDF, "pdf", { fetcher });
+    expect(h.status).toBe("virus-scan");
+  });
+
+  it("flags a content type that doesn't match the file type", async () => {
+    const fetcher = stub("{}", {
+      headers: { "Content-Type": "application/json" },
+    });
+    const h = await checkUrlHealth(PDF, "image", { fetcher });
+    expect(h).toMatchObject({
+      status: "wrong-type",
+      contentType: "application/json",
+    });
+  });
+
+  it("flags a web page where a file was expected", async () => {
+    const h = await checkUrlHealth(PDF, "pdf", {
+      fetcher: html("<title>Something else</title>"),
+    });
+    expect(h.status).toBe("wrong-type");
+  });
+
+  it("reports a failed request as unreachable", async () => {
+    const fetcher: Fetcher = async () => {
+      throw new TypeError("Failed to fetch");
+    };
+    const h = await checkUrlHealth(PDF, "pdf", { fetcher });
+    expect(h).toMatchObject({ status: "unreachable", url: PDF });
+    expect(h.message).toContain("Failed to fetch");
+  });
+
+  it("reports a body that can't be read as unreachable", async () => {
+    const body = new ReadableStream({
+      start(controller) {
+        controller.error(new Error("connection reset"));
+      },
+    });
+    const fetcher = stub(body, { headers: { "Content-Type": "text/html" } });
+    const h = await checkUrlHealth(PDF, "pdf", { fetcher });
+    expect(h).toMatchObject({ status: "unreachable", httpStatus: 200 });
+    expect(h.message).toContain("connection reset");
+  });
+});
+
+describe("proxyFetcher", () => {
+  it("appends the encoded target URL to the prefix", async () => {
+    const requested: string[] = [];
+    const base: Fetcher = async (url) => {
+      requested.push(url);
+      return new Response("");
+    };
+    await proxyFetcher("https://proxy.example/?url=", base)(PDF);
+    expect(requested).toEqual([
+      `https://proxy.example/?url=${encodeURIComponent(PDF)}`,
+    ]);
+  });
+});
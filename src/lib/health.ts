@@ -0,0 +1,267 @@
+import { formatMessage, type HealthKey } from "./messages";
+import type { ConvertResult, FileType, MessageParams } from "./types";
+
+/**
+ * Link health checks
+ * --------------------------------
+ * Probes a converted URL and classifies what Google actually serves:
+ * the file, a sign-in page, a 404, the quota page or the large-file
+ * virus-scan interstitial.
+ *
+ * Browsers can't read Google's responses cross-origin (no CORS headers),
+ * so the fetcher is pluggable: pass proxyFetcher(...) in the browser,
+ * plain fetch in Node, or a stub in tests. A proxy's response URL is its
+ * own, so proxies report where Google's redirects ended in the
+ * X-Final-Url header (scripts/health-proxy.mjs does).
+ */
+
+export type HealthStatus =
+  | "ok"
+  | "sign-in"
+  | "not-found"
+  | "quota"
+  | "virus-scan"
+  | "wrong-type"
+  | "unreachable";
+
+export type LinkHealth = {
+  status: HealthStatus;
+  url: string;
+  httpStatus?: number;
+  contentType?: string;
+  // English explanation; key and params render it in other languages
+  message: string;
+  key: HealthKey;
+  params?: MessageParams;
+};
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export type HealthCheckOptions = {
+  fetcher?: Fetcher;
+  timeoutMs?: number;
+};
+
+// What a URL should serve: a web page (viewers, embeds) or a file of a type
+type Expectation = { page: true } | { page: false; type: FileType };
+
+export const HEALTH_LABELS: Record<HealthStatus, string> = {
+  ok: "OK",
+  "sign-in": "Requires sign-in",
+  "not-found": "Not found",
+  quota: "Quota exceeded",
+  "virus-scan": "Virus-scan page",
+  "wrong-type": "Wrong content type",
+  unreachable: "Unreachable",
+};
+
+// Paths that serve an HTML page rather than the file itself
+const PAGE_PATH =
+  /\/(pub|pubhtml|viewform|embed|preview|gview|embed\.aspx|embeddedfolderview)(?:$|[?#])/;
+
+function expectationFor(url: string, type: FileType): Expectation {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Not a URL; fetch will fail and report it
+  }
+  return PAGE_PATH.test(path) ? { page: true } : { page: false, type };
+}
+
+function matchesType(contentType: string, type: FileType) {
+  const ct = contentType.toLowerCase();
+  // Drive often serves downloads as a generic binary
+  if (ct.startsWith("application/octet-stream") || ct.startsWith("binary/")) {
+    return true;
+  }
+  switch (type) {
+    case "image":
+      return ct.startsWith("image/");
+    case "video":
+      return ct.startsWith("video/");
+    case "audio":
+      return ct.startsWith("audio/");
+    case "pdf":
+      return ct.startsWith("application/pdf");
+    default:
+      // Office / OpenDocument / text / zip exports: anything but a web page
+      return !ct.startsWith("text/html");
+  }
+}
+
+// Set by proxies to the URL the redirects ended at
+export const FINAL_URL_HEADER = "X-Final-Url";
+
+function finalUrl(res: Response) {
+  return res.headers.get(FINAL_URL_HEADER) || res.url;
+}
+
+function isSignInUrl(url: string) {
+  return /accounts\.google\.com|ServiceLogin/i.test(url);
+}
+
+// Markers in the HTML Google serves instead of the file
+const VIRUS_SCAN =
+  /can(?:'|&#39;|’)t scan this file for viruses|virus scan warning|uc-download-link|name="confirm"/i;
+const QUOTA =
+  /too many users have viewed or downloaded this file|download quota|quota (?:has been )?exceeded/i;
+const SIGN_IN =
+  /sign in to continue|accounts\.google\.com\/ServiceLogin|you need access|request access/i;
+
+function health(
+  status: HealthStatus,
+  url: string,
+  res: Response | null,
+  key: HealthKey,
+  params?: MessageParams,
+): LinkHealth {
+  return {
+    status,
+    url,
+    ...(res
+      ? {
+          httpStatus: res.status,
+          contentType: res.headers.get("content-type") ?? undefined,
+        }
+      : {}),
+    message: formatMessage(key, params),
+    key,
+    ...(params ? { params } : {}),
+  };
+}
+
+function errorText(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+export async function checkUrlHealth(
+  url: string,
+  type: FileType,
+  options: HealthCheckOptions = {},
+): Promise<LinkHealth> {
+  const fetcher = options.fetcher ?? ((u, init) => fetch(u, init));
+  const expect = expectationFor(url, type);
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(),
+    options.timeoutMs ?? 10000,
+  );
+
+  let res: Response;
+  try {
+    res = await fetcher(url, {
+      method: "GET",
+      redirect: "follow",
+      signal: controller.signal,
+    });
+  } catch (e) {
+    clearTimeout(timer);
+    const timedOut = controller.signal.aborted;
+    return health(
+      "unreachable",
+      url,
+      null,
+      timedOut ? "health-check.timeout" : "health-check.request-failed",
+      timedOut ? undefined : { error: errorText(e) },
+    );
+  }
+
+  try {
+    const contentType = res.headers.get("content-type") ?? "";
+    const isHtml = contentType.toLowerCase().startsWith("text/html");
+
+    if (isSignInUrl(finalUrl(res))) {
+      return health("sign-in", url, res, "health-check.sign-in-redirect");
+    }
+    if (res.status === 401 || res.status === 403) {
+      return health("sign-in", url, res, "health-check.access-denied");
+    }
+    if (res.status === 404) {
+      return health("not-found", url, res, "health-check.not-found");
+    }
+    if (res.status === 429) {
+      return health("quota", url, res, "health-check.too-many-requests");
+    }
+    if (res.status >= 400) {
+      return health("unreachable", url, res, "health-check.http-error", {
+        status: res.status,
+      });
+    }
+
+    if (!isHtml) {
+      if (expect.page || matchesType(contentType, expect.type)) {
+        return health("ok", url, res, "health-check.ok");
+      }
+      return contentType
+        ? health("wrong-type", url, res, "health-check.wrong-type", {
+            contentType,
+          })
+        : health("wrong-type", url, res, "health-check.no-content-type");
+    }
+
+    // HTML: either the expected page, or Google's page in place of the file
+    let body: string;
+    try {
+      body = await res.text();
+    } catch (e) {
+      const timedOut = controller.signal.aborted;
+      return health(
+        "unreachable",
+        url,
+        res,
+        timedOut ? "health-check.timeout" : "health-check.read-failed",
+        timedOut ? undefined : { error: errorText(e) },
+      );
+    }
+    if (VIRUS_SCAN.test(body)) {
+      return health("virus-scan", url, res, "health-check.virus-scan");
+    }
+    if (QUOTA.test(body)) {
+      return health("quota", url, res, "health-check.quota");
+    }
+    if (SIGN_IN.test(body)) {
+      return health("sign-in", url, res, "health-check.sign-in");
+    }
+    if (!expect.page) {
+      return health("wrong-type", url, res, "health-check.page");
+    }
+    return health("ok", url, res, "health-check.ok");
+  } finally {
+    clearTimeout(timer);
+    // Don't download whole files just to check them
+    if (!res.bodyUsed) void res.body?.cancel().catch(() => {});
+  }
+}
+
+export type ConversionHealth = {
+  export?: LinkHealth;
+  preview?: LinkHealth;
+};
+
+export async function checkConversion(
+  result: ConvertResult,
+  options: HealthCheckOptions = {},
+): Promise<ConversionHealth> {
+  if (!result.type || result.error) return {};
+  const type = result.type;
+
+  const exportCheck = result.exportUrl
+    ? checkUrlHealth(result.exportUrl, type, options)
+    : undefined;
+  // Media previews use the export URL itself; don't fetch it twice
+  const previewCheck =
+    result.previewUrl && result.previewUrl !== result.exportUrl
+      ? checkUrlHealth(result.previewUrl, type, options)
+      : exportCheck;
+
+  const [exp, preview] = await Promise.all([exportCheck, previewCheck]);
+  return { export: exp, preview };
+}
+
+// Sends checks through a CORS proxy that takes the target URL appended,
+// e.g. proxyFetcher("https://proxy.example/?url="). The proxy should send
+// X-Final-Url (and expose it) so sign-in redirects are recognised.
+export function proxyFetcher(prefix: string, base: Fetcher = fetch): Fetcher {
+  return (url, init) => base(`${prefix}${encodeURIComponent(url)}`, init);
+}
@@ -0,0 +1,168 @@
+/**
+ * Drive link conversion library
+ * --------------------------------
+ * UI-free core of the converter. No React, no DOM — safe to import from
+ * Node scripts and other front ends.
+ *
+ * Public API:
+ * - convertLink(input, type, options) -> ConvertResult ("auto" infers the type)
+ * - detectFileType(input) -> { type, reason } from the URL shape
+ * - Diagnostics: result.error / result.notes carry a code, severity, fix and action
+ * - MESSAGES + formatMessage(key, params, catalogue): every string above, by key
+ * - parseGoogleLink / extractGoogleFileId / isProbablyGoogleLink
+ * - checkUrl / isSafeUrl: strict parsing, only http(s) links reach a src
+ * - Providers for Dropbox, OneDrive/SharePoint, Box, GitHub, GitLab (+ registerProvider)
+ * - build* URL helpers
+ * - convertBatch + CSV/JSON serialisers for many links at once
+ * - rewriteDocument(text, type) -> Markdown/HTML/CSV with every Google link converted
+ * - checkConversion(result, { fetcher }) -> reachability / permission diagnosis
+ * - listViewers(result) -> preview viewers (Drive, Docs Viewer, Office...) best first
+ * - shortenUrl(url, { endpoint }) -> short link from a configurable shortener
+ * - buildEmbedCode(result, format) -> HTML / Markdown / BBCode / oEmbed snippet
+ * - resolveEmbed(input, type, viewer) -> viewer fallback chain for live embeds
+ * - nextViewer(viewers, failed) -> the viewer to show after failures
+ * - FILE_TYPES metadata (labels, hints, descriptions)
+ */
+
+export type {
+  ConvertOptions,
+  ConvertResult,
+  Diagnostic,
+  DiagnosticAction,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  DocsExportOptions,
+  DocsFormat,
+  FileType,
+  FileTypeChoice,
+  FileTypeInfo,
+  MessageParams,
+  SheetsExportOptions,
+  SheetsFormat,
+  SlidesExportOptions,
+  SlidesFormat,
+  TypeDetection,
+  ViewerKind,
+} from "./types";
+export { FILE_TYPES, getFileTypeInfo, isFileType } from "./fileTypes";
+export {
+  buildDocsExport,
+  buildDocsPreview,
+  buildDocsViewer,
+  buildDrawingsExport,
+  buildDriveDirectDownload,
+  buildDriveDirectView,
+  buildDriveLargeFileDownload,
+  buildDrivePreview,
+  buildDriveThumbnail,
+  buildFolderEmbed,
+  buildMicrosoftOfficeViewer,
+  buildPublishedUrl,
+  buildSheetsExport,
+  buildSheetsPreview,
+  buildSlidesEmbed,
+  buildSlidesExport,
+  buildSlidesExportPptx,
+  extractGoogleFileId,
+  extractSheetGid,
+  extractSlidePageId,
+  isDriveDownloadUrl,
+  isProbablyGoogleLink,
+  parseGoogleLink,
+  withResourceKey,
+} from "./google";
+export type { GoogleLink, GoogleLinkKind } from "./google";
+export { convertLink, resolveFileType } from "./convert";
+export { detectFileType } from "./detect";
+export {
+  diagnostic,
+  formatDiagnostic,
+  hasCode,
+  sortDiagnostics,
+} from "./diagnostics";
+export type {
+  ActionInput,
+  Catalogue,
+  DetectionKey,
+  DiagnosticKey,
+  HealthKey,
+  RewriteKey,
+  ShortenKey,
+} from "./messages";
+export { MESSAGES, actionMessage, formatMessage } from "./messages";
+export type { BatchRow } from "./batch";
+export {
+  batchToCsv,
+  batchToJson,
+  convertBatch,
+  extractLinks,
+  splitBatchInput,
+} from "./batch";
+export type {
+  EmbedFormat,
+  EmbedOptions,
+  EmbedStyle,
+  EmbedTarget,
+} from "./embed";
+export {
+  EMBED_REFERRER_POLICY,
+  IFRAME_ALLOW,
+  IFRAME_SANDBOX,
+  buildEmbedCode,
+  embedStyle,
+  embedTitle,
+  parseEmbedSize,
+  resolveEmbed,
+} from "./embed";
+export type {
+  ConversionHealth,
+  Fetcher,
+  HealthCheckOptions,
+  HealthStatus,
+  LinkHealth,
+} from "./health";
+export {
+  HEALTH_LABELS,
+  checkConversion,
+  checkUrlHealth,
+  proxyFetcher,
+} from "./health";
+export type {
+  DiffLine,
+  DocumentFormat,
+  LinkChange,
+  LinkChangeStatus,
+  RewriteResult,
+} from "./rewrite";
+export { detectDocumentFormat, rewriteDocument } from "./rewrite";
+export type { Provider } from "./providers";
+export {
+  box,
+  dropbox,
+  findProvider,
+  getProviders,
+  github,
+  gitlab,
+  onedrive,
+  registerProvider,
+} from "./providers";
+export type { ViewerElement, ViewerOption } from "./viewers";
+export {
+  VIEWER_LABELS,
+  VIEWER_TIMEOUT_MS,
+  applyViewer,
+  isViewerKind,
+  listViewers,
+  nextViewer,
+  orderViewers,
+} from "./viewers";
+export type { ShortenOptions } from "./shorten";
+export { ShortenError, shortenUrl } from "./shorten";
+export type { CheckedUrl } from "./url";
+export {
+  GOOGLE_HOSTS,
+  checkUrl,
+  isGoogleUrl,
+  isSafeUrl,
+  parseUrl,
+} from "./url";
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { convertLink } from "./convert";
+import { diagnostic } from "./diagnostics";
+import { checkUrlHealth } from "./health";
+import { MESSAGES, formatMessage, type DiagnosticKey } from "./messages";
+import { rewriteDocument } from "./rewrite";
+
+const FILE_ID = "1AbCdEfGhIjKlMnOpQrStUvWxYz012345";
+
+// A partial catalogue, the way a translation starts out
+const PIRATE = {
+  "type.ppt.label": "Slideshow o' yer own",
+  "viewer.office": "Bill's viewer",
+  "detect.slides": "a Slides chart",
+  "type-mismatch": "Arr, that be {type}: {reason}.",
+};
+
+const DIAGNOSTIC_KEYS = Object.keys(MESSAGES).filter(
+  (key) =>
+    !/^(detect|health-check|rewrite|shorten|action|viewer|type)\./.test(key) &&
+    !key.endsWith(".fix"),
+) as DiagnosticKey[];
+
+describe("message catalogue", () => {
+  it.each(DIAGNOSTIC_KEYS)("%s starts with a known code", (key) => {
+    const d = diagnostic(key);
+    expect(d.severity).toBeDefined();
+    expect(key === d.code || key.startsWith(`${d.code}.`)).toBe(true);
+  });
+
+  it("has no fix without its message", () => {
+    const orphans = Object.keys(MESSAGES).filter(
+      (key) => key.endsWith(".fix") && !(key.slice(0, -4) in MESSAGES),
+    );
+    expect(orphans).toEqual([]);
+  });
+});
+
+describe("formatMessage", () => {
+  it("fills in placeholders and leaves unknown ones alone", () => {
+    expect(formatMessage("slide-page", { pageId: "p7" })).toBe(
+      "Exports only the slide with id p7.",
+    );
+    expect(formatMessage("slide-page")).toBe(
+      "Exports only the slide with id {pageId}.",
+    );
+  });
+
+  it("resolves type, viewer and reason through the catalogue", () => {
+    expect(
+      formatMessage("type-mismatch", { type: "ppt", reason: "detect.slides" }),
+    ).toBe(
+      "This looks like PPT / PPTX (Google Slides link (/presentation/d/)).",
+    );
+    expect(
+      formatMessage("preview-switched", { viewer: "office" }, PIRATE),
+    ).toBe("Preview switched to Bill's viewer.");
+  });
+
+  it("falls back to English, then to the key", () => {
+    expect(formatMessage("empty-input", {}, PIRATE)).toBe(
+      "Paste a link first.",
+    );
+    expect(formatMessage("no.such.key")).toBe("no.such.key");
+  });
+});
+
+describe("translated results", () => {
+  it("re-renders notes and actions from their keys and params", () => {
+    const r = convertLink(
+      `https://docs.google.com/presentation/d/${FILE_ID}/edit`,
+      "pdf",
+    );
+    const mismatch = r.notes?.find((n) => n.code === "type-mismatch");
+    expect(mismatch?.message).toBe(
+      "This looks like PPT / PPTX (Google Slides link (/presentation/d/)).",
+    );
+    expect(formatMessage(mismatch!.key, mismatch!.params, PIRATE)).toBe(
+      "Arr, that be Slideshow o' yer own: a Slides chart.",
+    );
+    expect(mismatch?.action?.label).toBe("Switch to PPT / PPTX");
+  });
+
+  it("keeps health check messages translatable", async () => {
+    const h = await checkUrlHealth(
+      `https://drive.google.com/uc?export=download&id=${FILE_ID}`,
+      "pdf",
+      { fetcher: async () => new Response("", { status: 502 }) },
+    );
+    expect(h).toMatchObject({
+      message: "Server answered HTTP 502.",
+      key: "health-check.http-error",
+      params: { status: 502 },
+    });
+  });
+
+  it("keeps rewrite reasons translatable", () => {
+    const [skipped, failed] = rewriteDocument(
+      [
+        `https://drive.google.com/uc?export=download&id=${FILE_ID}`,
+        "https://drive.google.com/drive/folders/1FoLdEr",
+      ].join("\n"),
+      "auto",
+    ).changes;
+    expect(skipped).toMatchObject({
+      status: "skipped",
+      reason: "Already a direct link.",
+      reasonKey: "rewrite.direct-link",
+    });
+    expect(failed.status).toBe("failed");
+    expect(failed.reasonKey).toBe(failed.result?.error?.key);
+    expect(formatMessage(failed.reasonKey!, failed.reasonParams)).toBe(
+      failed.reason,
+    );
+  });
+
+  it("keeps detection reasons translatable", () => {
+    const r = convertLink(`https://example.com/files/report.docx`, "auto");
+    expect(r.detection).toMatchObject({
+      type: "doc",
+      reason: ".docx file extension",
+      key: "detect.extension",
+      params: { ext: "docx" },
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { FILE_TYPES } from "./fileTypes";
+import type { DiagnosticAction, MessageParams, ViewerKind } from "./types";
+
+/**
+ * Message catalogue
+ * --------------------------------
+ * Every user-facing string the library builds, in English, keyed by a
+ * stable message key. Diagnostics, type detections, health checks,
+ * rewrite reasons and shortener errors carry the key and its parameters
+ * next to the English text, so a front end can render them from its own
+ * catalogue with formatMessage(key, params, catalogue).
+ *
+ * Keys are "<code>" or "<code>.<variant>" for diagnostics; "<key>.fix"
+ * holds the fix text. Placeholders are {name}; three names are resolved
+ * through the catalogue too: {type} (a FileType), {viewer} (a ViewerKind)
+ * and {reason} (another message key, formatted with the same params).
+ */
+
+export type Catalogue = Record<string, string>;
+
+// An action before its label is filled in
+export type ActionInput = DiagnosticAction extends infer A
+  ? A extends DiagnosticAction
+    ? Omit<A, "label">
+    : never
+  : never;
+
+const DIAGNOSTIC_MESSAGES = {
+  // errors
+  "empty-input": "Paste a link first.",
+  "no-link": "No link found on this line.",
+  "no-file-id":
+    "This looks like a Google link, but I couldn't extract the file ID.",
+  "no-file-id.fix": "Please paste a full Drive/Docs link.",
+  "no-shared-file":
+    "This looks like a {provider} link, but I couldn't find a shared file in it.",
+  "no-shared-file.fix": "Paste the file's share link.",
+  "folder-link":
+    "This is a Google Drive folder link, not a file. Folders can't be exported.",
+  "folder-link.fix": "Open the folder and copy the link of a file inside it.",
+  "folder-link.shared-drive":
+    "This is a Google Drive shared drive link, not a file. Folders can't be exported.",
+  "folder-link.shared-drive.fix":
+    "Open the shared drive and copy the link of a file inside it.",
+  "unsupported-type": "Unsupported type.",
+  "invalid-url": "This doesn't look like a link.",
+  "invalid-url.fix": "Paste the full address, starting with https://.",
+  "unsafe-scheme": "{scheme} links can't be converted or previewed.",
+  "unsafe-scheme.fix": "Paste the https:// share link of the file.",
+  "no-preview": "This link has nothing to preview.",
+  "no-preview.fix": "Open the export link instead.",
+  "preview-failed": "None of the viewers could load this file.",
+  "preview-failed.fix": "Check that it's shared as Anyone with the link.",
+
+  // warnings
+  "type-mismatch": "This looks like {type} ({reason}).",
+  "type-mismatch.fix": "Try that type or Auto if the link doesn't work.",
+  "original-format.doc":
+    "This is a Drive file, not a Google Doc: it downloads in its original format.",
+  "original-format.doc.fix":
+    "Format options only apply to docs.google.com/document links.",
+  "original-format.sheet":
+    "This is a Drive file, not a Google Sheet: it downloads in its original format.",
+  "original-format.sheet.fix":
+    "Format options only apply to docs.google.com/spreadsheets links.",
+  "single-slide": "Image exports contain only the first slide.",
+  "single-slide.fix":
+    "Copy the link while the slide you want is selected (#slide=id.…) or enter its page id.",
+  "single-tab": "{format} exports only the first tab.",
+  "single-tab.fix":
+    "Copy the link while the tab you want is open to export that one.",
+  "range-needs-gid": "A range applies to a single tab.",
+  "range-needs-gid.fix": "Include the tab's gid.",
+  "gid-ignored":
+    "{format} export contains every tab; gid only affects CSV, TSV and PDF.",
+  "media-playback.video":
+    "For Drive videos, direct playback depends on CORS and file permissions.",
+  "media-playback.video.fix":
+    "If it doesn't play, try hosting on a CDN or use a streaming server.",
+  "media-playback.audio":
+    "For Drive audio, direct playback depends on permissions and browser support.",
+  "published-link":
+    "This is a published-to-web link (File → Share → Publish to web). Google only serves the published view, not file downloads.",
+  "published-link.sheets":
+    "This is a published-to-web link (File → Share → Publish to web).",
+  "folder-zip": "This is a Dropbox folder: the link downloads it as a ZIP.",
+  "sharing-required.sharepoint":
+    "SharePoint links only download when the organisation allows anonymous sharing.",
+  "sharing-required.box":
+    'Box direct links need the shared link set to "People with the link"; some plans disable them.',
+  "insecure-http":
+    "This link uses plain http: browsers block it inside https pages and it can be tampered with.",
+  "insecure-http.fix":
+    "Use the https:// version of the link if the host has one.",
+  "credentials-in-url":
+    "The link has a user name or password before the host; it really points to {host}.",
+  "credentials-in-url.fix": "Only use it if you trust that host.",
+
+  // info
+  "not-google": "This is not a Google Drive link. Using it as-is.",
+  "provider-link": "Converted the {provider} share link to a direct link.",
+  "export-format": "Export URL downloads as {format}.",
+  "export-format.html-zip":
+    "Export URL downloads a ZIP with the HTML page and its images.",
+  "export-format.drawing": "Export URL downloads the drawing as {format}.",
+  "export-format.published":
+    "Export URL downloads the published data as {format}; PDF layout options don't apply.",
+  "preview-viewer.docs-viewer": "Preview uses Google Docs Viewer.",
+  "preview-viewer.docs-viewer-public":
+    "Preview uses Google Docs Viewer; the URL must be publicly accessible.",
+  "preview-viewer.office-public":
+    "Preview uses Microsoft Office viewer; the URL must be publicly accessible.",
+  "preview-viewer.slides": "Preview uses Google Slides embed.",
+  "preview-viewer.docs": "Preview uses Google Docs preview.",
+  "preview-viewer.sheets": "Preview uses Google Sheets preview.",
+  "preview-viewer.published-slides": "Preview uses the published Slides embed.",
+  "preview-viewer.published-page": "Preview embeds the published page.",
+  "pick-viewer": "If you want PPT-style preview, pick the Microsoft viewer.",
+  "preview-switched": "Preview switched to {viewer}.",
+  "all-slides":
+    "PDF contains every slide; Google's export has no page-range option.",
+  "all-slides.fix": "Use PNG/JPEG/SVG for a single slide.",
+  "slide-page": "Exports only the slide with id {pageId}.",
+  "sheet-tabs": "Exports the tab with gid={gid}.",
+  "sheet-tabs.pdf": "PDF contains the tab with gid={gid}.",
+  "sheet-tabs.pdf-all": "PDF contains every tab.",
+  "image-only": "This works best when the Drive file is actually an image.",
+  "image-only.fix":
+    "If it fails, your file may not be an image or it may not be public.",
+  "form-link": "Google Forms can't be downloaded; the link opens the form.",
+  "drawing-formats":
+    "Drawings also export as /export/svg, /export/jpeg and /export/pdf.",
+  "large-file":
+    "Large-file mode: the link downloads from drive.usercontent.google.com with confirm=t, skipping the virus-scan page Google shows for files over ~100 MB. The tradeoff: Google doesn't virus-scan these downloads, and the URL form is undocumented and may change.",
+  "raw-text":
+    "raw.githubusercontent.com serves text files as plain text, so HTML won't render.",
+  "resource-key":
+    "Kept the resourcekey from the link; older shared files need it.",
+  "must-be-public": "The file must be shared publicly for the link to work.",
+  "must-be-public.share":
+    "Make sure the file is shared publicly (Anyone with the link → Viewer).",
+  "must-be-public.ppt": "For PPT preview, the URL must be publicly accessible.",
+  "must-be-public.pdf":
+    "If the PDF doesn't render, ensure the link is public and allows direct access.",
+  "must-be-public.form":
+    "Preview embeds the form. It must accept responses from anyone with the link.",
+  "must-be-public.github":
+    "Private repositories need a token; the raw link only works for public ones.",
+} as const;
+
+// Why detectFileType picked a type
+const DETECTION_MESSAGES = {
+  "detect.slides": "Google Slides link (/presentation/d/)",
+  "detect.docs": "Google Docs link (/document/d/)",
+  "detect.sheets": "Google Sheets link (/spreadsheets/d/)",
+  "detect.drawings": "Google Drawings link (/drawings/d/)",
+  "detect.forms": "Google Forms link (/forms/d/), embedded as a page",
+  "detect.thumbnail": "Drive thumbnail link (/thumbnail?id=)",
+  "detect.mime": "{param}={value} in the query string",
+  "detect.sharepoint": "/:{office}:/ in the SharePoint link",
+  "detect.extension": ".{ext} file extension",
+  "detect.fallback": "No type hint in the link; defaulting to PDF",
+} as const;
+
+// What checkUrlHealth found (LinkHealth.key)
+const HEALTH_MESSAGES = {
+  "health-check.ok": "Reachable.",
+  "health-check.timeout": "No response before the timeout.",
+  "health-check.request-failed":
+    "Request failed ({error}). In a browser this is usually CORS; check through a proxy.",
+  "health-check.read-failed": "Couldn't read the response ({error}).",
+  "health-check.sign-in-redirect":
+    "Redirected to Google sign-in: the file isn't public.",
+  "health-check.access-denied":
+    "Access denied: share the file as Anyone with the link → Viewer.",
+  "health-check.not-found":
+    "Google says the file doesn't exist (or was deleted).",
+  "health-check.too-many-requests":
+    "Too many requests: the download quota is exceeded. Try again later.",
+  "health-check.http-error": "Server answered HTTP {status}.",
+  "health-check.wrong-type":
+    "Got {contentType}, which doesn't look like the selected type.",
+  "health-check.no-content-type":
+    "Got no content type, which doesn't look like the selected type.",
+  "health-check.virus-scan":
+    "Google shows its large-file virus-scan confirmation page instead of the file. Turn on large-file mode to skip it.",
+  "health-check.quota":
+    "Download quota exceeded for this file. Try again later or make a copy.",
+  "health-check.sign-in":
+    "Google asks to sign in or request access: the file isn't public.",
+  "health-check.page": "Got a web page where a file was expected.",
+} as const;
+
+// Why rewriteDocument left a link alone (LinkChange.reasonKey)
+const REWRITE_MESSAGES = {
+  "rewrite.direct-link": "Already a direct link.",
+  "rewrite.no-export": "No export link for this type.",
+} as const;
+
+// Why shortenUrl failed (ShortenError.key)
+const SHORTEN_MESSAGES = {
+  "shorten.request-failed": "Couldn't reach the shortener ({error}).",
+  "shorten.http-error": "Shortener responded with HTTP {status}.",
+  "shorten.no-short-url": "Shortener response had no short URL in it.",
+} as const;
+
+const ACTION_MESSAGES = {
+  "action.set-type": "Switch to {type}",
+  "action.set-viewer": "Use {viewer}",
+  "action.set-large-file.on": "Use the large-file download link",
+  "action.set-large-file.off": "Use the standard download link",
+} as const;
+
+export const VIEWER_MESSAGES = {
+  "viewer.default": "Default",
+  "viewer.drive": "Drive preview",
+  "viewer.gview": "Google Docs Viewer",
+  "viewer.office": "Microsoft viewer",
+  "viewer.native": "Browser",
+  "viewer.thumbnail": "Drive thumbnail",
+} as const satisfies Record<`viewer.${ViewerKind}`, string>;
+
+// type.<key>.label / .hint / .description, from FILE_TYPES
+const TYPE_MESSAGES: Catalogue = Object.fromEntries(
+  FILE_TYPES.flatMap((t) => [
+    [`type.${t.key}.label`, t.label],
+    [`type.${t.key}.hint`, t.hint],
+    [`type.${t.key}.description`, t.description],
+  ]),
+);
+
+export const MESSAGES: Catalogue = {
+  ...DIAGNOSTIC_MESSAGES,
+  ...DETECTION_MESSAGES,
+  ...HEALTH_MESSAGES,
+  ...REWRITE_MESSAGES,
+  ...SHORTEN_MESSAGES,
+  ...ACTION_MESSAGES,
+  ...VIEWER_MESSAGES,
+  ...TYPE_MESSAGES,
+};
+
+// Keys diagnostic() accepts; fix texts are looked up from them
+export type DiagnosticKey = Exclude<
+  keyof typeof DIAGNOSTIC_MESSAGES,
+  `${string}.fix`
+>;
+
+export type DetectionKey = keyof typeof DETECTION_MESSAGES;
+
+export type HealthKey = keyof typeof HEALTH_MESSAGES;
+
+export type RewriteKey = keyof typeof REWRITE_MESSAGES;
+
+export type ShortenKey = keyof typeof SHORTEN_MESSAGES;
+
+/**
+ * Fill in a message. Keys missing from the catalogue fall back to the
+ * English text, then to the key itself.
+ */
+export function formatMessage(
+  key: string,
+  params: MessageParams = {},
+  catalogue: Catalogue = MESSAGES,
+): string {
+  const template = catalogue[key] ?? MESSAGES[key] ?? key;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    if (name === "type") {
+      return formatMessage(`type.${value}.label`, {}, catalogue);
+    }
+    if (name === "viewer")
+      return formatMessage(`viewer.${value}`, {}, catalogue);
+    if (name === "reason")
+      return formatMessage(String(value), params, catalogue);
+    return String(value);
+  });
+}
+
+// Key and params of an action's button label
+export function actionMessage(action: ActionInput): {
+  key: string;
+  params: MessageParams;
+} {
+  switch (action.kind) {
+    case "set-type":
+      return { key: "action.set-type", params: { type: action.type } };
+    case "set-viewer":
+      return { key: "action.set-viewer", params: { viewer: action.viewer } };
+    case "set-large-file":
+      return {
+        key: `action.set-large-file.${action.enabled ? "on" : "off"}`,
+        params: {},
+      };
+  }
+}
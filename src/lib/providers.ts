@@ -0,0 +1,177 @@
+import { diagnostic } from "./diagnostics";
+import { isSafeUrl, parseUrl } from "./url";
+import type { Diagnostic, FileType } from "./types";
+
+/**
+ * Non-Google file hosts. Each provider recognises its share links, pulls
+ * out the shared item's id and builds a direct export (and optionally an
+ * embed) URL. Google Drive/Docs keeps its own richer path in convert.ts;
+ * links no provider claims are used as-is.
+ */
+
+export type Provider = {
+  key: string;
+  name: string;
+  // Home page, reported as the oEmbed provider_url
+  url?: string;
+  matches: (url: URL) => boolean;
+  // null when the link is on the host but isn't a shared file
+  extractId: (url: URL) => string | null;
+  buildExport: (url: URL, type: FileType) => string;
+  // Viewer page for the file; falls back to the type's generic viewer
+  buildEmbed?: (url: URL, type: FileType) => string | null;
+  notes?: (url: URL, type: FileType) => Diagnostic[];
+};
+
+const MEDIA: FileType[] = ["image", "video", "audio"];
+
+function hostIs(url: URL, ...hosts: string[]) {
+  const h = url.hostname.toLowerCase();
+  return hosts.some((host) => h === host || h.endsWith(`.${host}`));
+}
+
+function withParams(url: URL, params: Record<string, string | null>) {
+  const next = new URL(url.href);
+  for (const [k, v] of Object.entries(params)) {
+    if (v === null) next.searchParams.delete(k);
+    else next.searchParams.set(k, v);
+  }
+  return next.href;
+}
+
+// https://www.dropbox.com/s/<id>/<name>?dl=0
+// https://www.dropbox.com/scl/fi/<id>/<name>?rlkey=...&dl=0
+export const dropbox: Provider = {
+  key: "dropbox",
+  name: "Dropbox",
+  url: "https://www.dropbox.com/",
+  matches: (url) => hostIs(url, "dropbox.com", "dropboxusercontent.com"),
+  extractId: (url) =>
+    url.pathname.match(/^\/(?:s|scl\/fi|sh|scl\/fo)\/([^/]+)/)?.[1] ?? null,
+  // raw=1 serves the file inline (what <img>/<video> need), dl=1 downloads
+  buildExport: (url, type) =>
+    MEDIA.includes(type)
+      ? withParams(url, { dl: null, raw: "1" })
+      : withParams(url, { raw: null, dl: "1" }),
+  notes: (url) =>
+    /^\/(?:sh|scl\/fo)\//.test(url.pathname) ? [diagnostic("folder-zip")] : [],
+};
+
+function base64Url(text: string) {
+  return btoa(text).replace(/=+$/, "").replace(/\//g, "_").replace(/\+/g, "-");
+}
+
+// https://onedrive.live.com/redir?resid=<id>&authkey=...  (and /view.aspx, /embed)
+// https://1drv.ms/<x>/s!<token>                             (short share link)
+// https://<tenant>.sharepoint.com/:x:/g/personal/<user>/<token>
+export const onedrive: Provider = {
+  key: "onedrive",
+  name: "OneDrive",
+  url: "https://onedrive.live.com/",
+  matches: (url) =>
+    hostIs(url, "onedrive.live.com", "1drv.ms", "sharepoint.com"),
+  extractId: (url) => {
+    if (hostIs(url, "onedrive.live.com")) {
+      return url.searchParams.get("resid") ?? url.searchParams.get("id");
+    }
+    if (hostIs(url, "1drv.ms")) {
+      return url.pathname.split("/").filter(Boolean).pop() ?? null;
+    }
+    // SharePoint sharing links: /:<kind>:/<scope>/<site...>/<token>
+    return url.pathname.match(/^\/:[a-z]:\/[a-z]\/.+\/([^/]+)$/i)?.[1] ?? null;
+  },
+  buildExport: (url) => {
+    if (hostIs(url, "onedrive.live.com")) {
+      const next = new URL(url.href);
+      next.pathname = "/download";
+      return next.href;
+    }
+    if (hostIs(url, "1drv.ms")) {
+      // Short links can't be rewritten in place; the shares API resolves them
+      return `https://api.onedrive.com/v1.0/shares/u!${base64Url(url.href)}/root/content`;
+    }
+    return withParams(url, { download: "1" });
+  },
+  buildEmbed: (url, type) => {
+    if (MEDIA.includes(type)) return null;
+    if (hostIs(url, "onedrive.live.com")) {
+      const next = new URL(url.href);
+      next.pathname = "/embed";
+      return next.href;
+    }
+    if (hostIs(url, "sharepoint.com")) {
+      return withParams(url, { action: "embedview" });
+    }
+    return null;
+  },
+  notes: (url) =>
+    hostIs(url, "sharepoint.com")
+      ? [diagnostic("sharing-required.sharepoint")]
+      : [],
+};
+
+// https://app.box.com/s/<shared name>, https://<company>.app.box.com/s/<shared name>
+export const box: Provider = {
+  key: "box",
+  name: "Box",
+  url: "https://www.box.com/",
+  matches: (url) => hostIs(url, "box.com"),
+  extractId: (url) =>
+    url.pathname.match(/^\/(?:s|shared\/static)\/([a-z0-9]+)/i)?.[1] ?? null,
+  buildExport: (url) => `${url.origin}/shared/static/${box.extractId(url)}`,
+  buildEmbed: (url, type) =>
+    MEDIA.includes(type) ? null : `${url.origin}/embed/s/${box.extractId(url)}`,
+  notes: () => [diagnostic("sharing-required.box")],
+};
+
+// https://github.com/<owner>/<repo>/blob/<ref>/<path>
+export const github: Provider = {
+  key: "github",
+  name: "GitHub",
+  url: "https://github.com/",
+  matches: (url) => hostIs(url, "github.com", "raw.githubusercontent.com"),
+  extractId: (url) => {
+    if (hostIs(url, "raw.githubusercontent.com")) {
+      return url.pathname.slice(1) || null;
+    }
+    const m = url.pathname.match(/^\/([^/]+)\/([^/]+)\/(?:blob|raw)\/(.+)$/);
+    return m ? `${m[1]}/${m[2]}/${m[3]}` : null;
+  },
+  buildExport: (url) =>
+    `https://raw.githubusercontent.com/${github.extractId(url)}`,
+  notes: () => [diagnostic("raw-text"), diagnostic("must-be-public.github")],
+};
+
+// https://gitlab.com/<group>/<project>/-/blob/<ref>/<path> (self-hosted too)
+export const gitlab: Provider = {
+  key: "gitlab",
+  name: "GitLab",
+  url: "https://gitlab.com/",
+  matches: (url) =>
+    hostIs(url, "gitlab.com") || /\/-\/(?:blob|raw)\//.test(url.pathname),
+  extractId: (url) => {
+    const m = url.pathname.match(/^\/(.+?)\/-\/(?:blob|raw)\/(.+)$/);
+    return m ? `${m[1]}/${m[2]}` : null;
+  },
+  buildExport: (url) =>
+    `${url.origin}${url.pathname.replace("/-/blob/", "/-/raw/")}`,
+};
+
+const BUILT_IN: Provider[] = [dropbox, onedrive, box, github, gitlab];
+
+// Registered providers are checked before the built-in ones
+const registered: Provider[] = [];
+
+export function registerProvider(provider: Provider) {
+  registered.unshift(provider);
+}
+
+export function getProviders(): Provider[] {
+  return [...registered, ...BUILT_IN];
+}
+
+export function findProvider(input: string): Provider | null {
+  const url = parseUrl(input);
+  if (!url || !isSafeUrl(url.href)) return null;
+  return getProviders().find((p) => p.matches(url)) ?? null;
+}
@@ -0,0 +1,194 @@
+import { convertLink } from "./convert";
+import { detectFileType } from "./detect";
+import { isProbablyGoogleLink } from "./google";
+import { formatMessage, type RewriteKey } from "./messages";
+import { findProvider } from "./providers";
+import type {
+  ConvertOptions,
+  ConvertResult,
+  FileType,
+  FileTypeChoice,
+  MessageParams,
+} from "./types";
+
+export type DocumentFormat = "markdown" | "html" | "csv" | "text";
+
+export type LinkChangeStatus = "changed" | "skipped" | "failed";
+
+export type LinkChange = {
+  // 1-based line of the link in the original document
+  line: number;
+  original: string;
+  status: LinkChangeStatus;
+  // Set when status is "changed"
+  replacement?: string;
+  type?: FileType;
+  // Why the link was skipped or failed (English), and its message key
+  reason?: string;
+  reasonKey?: string;
+  reasonParams?: MessageParams;
+  result?: ConvertResult;
+};
+
+export type DiffLine = {
+  line: number;
+  before: string;
+  after: string;
+};
+
+export type RewriteResult = {
+  format: DocumentFormat;
+  output: string;
+  changes: LinkChange[];
+  summary: Record<LinkChangeStatus, number>;
+  // Only the lines that changed (links never span lines)
+  diff: DiffLine[];
+};
+
+// Looser than the batch pattern: keeps ";" so HTML "&amp;" survives,
+// stops at brackets so Markdown "[x](url)" and "<url>" work.
+const URL_PATTERN =
+  /(?:https?:\/\/|\b(?:drive|docs)\.google\.com\/)[^\s,"'<>()[\]{}|\\^`]+/gi;
+
+// Sentence punctuation after a bare link is not part of it
+const TRAILING_PUNCTUATION = /[.;:!?]+$/;
+
+// Already a download/export link: converting again could change the format
+const EXPORT_LINK =
+  /\/export(?:\/|\?|$)|[?&]export=(?:download|view)\b|\/uc\?|\/pub(?:\?|$)|\/embed(?:\?|$)/;
+
+export function detectDocumentFormat(
+  text: string,
+  filename?: string,
+): DocumentFormat {
+  const ext = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (ext === "md" || ext === "markdown" || ext === "mdx") return "markdown";
+  if (ext === "html" || ext === "htm") return "html";
+  if (ext === "csv" || ext === "tsv") return "csv";
+  if (ext === "txt") return "text";
+
+  if (/<(?:!doctype|html|a|p|div|img|iframe)\b/i.test(text)) return "html";
+  if (/\[[^\]]*\]\([^)]*\)|^#{1,6} /m.test(text)) return "markdown";
+  return "text";
+}
+
+const HTML_TAG_TYPES: Record<string, FileType> = {
+  img: "image",
+  video: "video",
+  audio: "audio",
+};
+
+// Type implied by where the link sits, e.g. <img src> or ![alt](url)
+function contextType(
+  text: string,
+  index: number,
+  format: DocumentFormat,
+): FileType | null {
+  const before = text.slice(Math.max(0, index - 300), index);
+  if (format === "markdown" && /!\[[^\]]*\]\(\s*<?$/.test(before)) {
+    return "image";
+  }
+  if (format === "html") {
+    const tag = before.match(/<(img|video|audio)\b[^>]*$/i)?.[1];
+    if (tag) return HTML_TAG_TYPES[tag.toLowerCase()];
+  }
+  return null;
+}
+
+function decodeUrl(url: string, format: DocumentFormat) {
+  return format === "html" ? url.replace(/&amp;/g, "&") : url;
+}
+
+function encodeUrl(url: string, format: DocumentFormat) {
+  return format === "html" ? url.replace(/&/g, "&amp;") : url;
+}
+
+function reason(key: RewriteKey) {
+  return { reason: formatMessage(key), reasonKey: key };
+}
+
+function convertOne(
+  url: string,
+  choice: FileTypeChoice,
+  context: FileType | null,
+  options: ConvertOptions,
+): Omit<LinkChange, "line" | "original"> {
+  if (EXPORT_LINK.test(url)) {
+    return { status: "skipped", ...reason("rewrite.direct-link") };
+  }
+
+  // The surrounding markup beats the fallback guess, not a real detection
+  const type =
+    choice === "auto" && context && !detectFileType(url) ? context : choice;
+  const result = convertLink(url, type, options);
+
+  if (result.error || !result.exportUrl) {
+    return {
+      status: "failed",
+      type: result.type,
+      ...(result.error
+        ? {
+            reason: result.error.message,
+            reasonKey: result.error.key,
+            reasonParams: result.error.params,
+          }
+        : reason("rewrite.no-export")),
+      result,
+    };
+  }
+  if (result.exportUrl === url) {
+    return {
+      status: "skipped",
+      type: result.type,
+      ...reason("rewrite.direct-link"),
+      result,
+    };
+  }
+  return {
+    status: "changed",
+    type: result.type,
+    replacement: result.exportUrl,
+    result,
+  };
+}
+
+export function rewriteDocument(
+  text: string,
+  choice: FileTypeChoice,
+  options: ConvertOptions = {},
+  format: DocumentFormat = detectDocumentFormat(text),
+): RewriteResult {
+  const changes: LinkChange[] = [];
+  const lineOf = (index: number) => text.slice(0, index).split("\n").length;
+
+  const output = text.replace(URL_PATTERN, (match, index: number) => {
+    const raw = match.replace(TRAILING_PUNCTUATION, "");
+    const trailing = match.slice(raw.length);
+    const url = decodeUrl(raw, format);
+    if (!isProbablyGoogleLink(url) && !findProvider(url)) return match;
+
+    const change: LinkChange = {
+      line: lineOf(index),
+      original: url,
+      ...convertOne(url, choice, contextType(text, index, format), options),
+    };
+    changes.push(change);
+
+    return change.replacement
+      ? encodeUrl(change.replacement, format) + trailing
+      : match;
+  });
+
+  const summary = { changed: 0, skipped: 0, failed: 0 };
+  for (const c of changes) summary[c.status]++;
+
+  const beforeLines = text.split("\n");
+  const afterLines = output.split("\n");
+  const diff = beforeLines.flatMap((before, i) =>
+    before === afterLines[i]
+      ? []
+      : [{ line: i + 1, before, after: afterLines[i] }],
+  );
+
+  return { format, output, changes, summary, diff };
+}
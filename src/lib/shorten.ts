@@ -0,0 +1,76 @@
+import type { Fetcher } from "./health";
+import { formatMessage, type ShortenKey } from "./messages";
+import type { MessageParams } from "./types";
+
+/**
+ * Short links through a configurable shortener endpoint.
+ *
+ * - An endpoint containing "{url}" is called with GET and the long URL
+ *   substituted (e.g. "https://is.gd/create.php?format=simple&url={url}").
+ * - Any other endpoint gets POST {"url": "<long url>"} as JSON.
+ *
+ * The response may be JSON ({ shortUrl } / { short_url } / { link } /
+ * { url }) or the short URL as plain text. Failures throw a ShortenError
+ * whose key and params render the message in other languages.
+ */
+
+export type ShortenOptions = {
+  endpoint: string;
+  fetcher?: Fetcher;
+};
+
+export class ShortenError extends Error {
+  key: ShortenKey;
+  params?: MessageParams;
+
+  constructor(key: ShortenKey, params?: MessageParams) {
+    super(formatMessage(key, params));
+    this.name = "ShortenError";
+    this.key = key;
+    this.params = params;
+  }
+}
+
+const JSON_FIELDS = ["shortUrl", "short_url", "link", "url"];
+
+function readShortUrl(body: string): string | null {
+  const text = body.trim();
+  try {
+    const data = JSON.parse(text) as Record<string, unknown>;
+    for (const field of JSON_FIELDS) {
+      if (typeof data[field] === "string") return data[field];
+    }
+    return null;
+  } catch {
+    return /^https?:\/\/\S+$/.test(text) ? text : null;
+  }
+}
+
+export async function shortenUrl(
+  url: string,
+  { endpoint, fetcher = fetch }: ShortenOptions,
+): Promise<string> {
+  let res: Response;
+  let body: string;
+  try {
+    res = endpoint.includes("{url}")
+      ? await fetcher(endpoint.replace("{url}", encodeURIComponent(url)))
+      : await fetcher(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ url }),
+        });
+    body = res.ok ? await res.text() : "";
+  } catch (e) {
+    throw new ShortenError("shorten.request-failed", {
+      error: e instanceof Error ? e.message : String(e),
+    });
+  }
+
+  if (!res.ok) {
+    throw new ShortenError("shorten.http-error", { status: res.status });
+  }
+  const short = readShortUrl(body);
+  if (!short) throw new ShortenError("shorten.no-short-url");
+  return short;
+}
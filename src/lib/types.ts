@@ -0,0 +1,188 @@
+export type FileType =
+  | "ppt"
+  | "pdf"
+  | "doc"
+  | "sheet"
+  | "image"
+  | "video"
+  | "audio";
+
+// What callers may ask for: a concrete type, or "auto" to infer it from the link.
+export type FileTypeChoice = FileType | "auto";
+
+// Values for a message's {placeholders} (see messages.ts)
+export type MessageParams = Record<string, string | number>;
+
+export type TypeDetection = {
+  type: FileType;
+  // Human-readable explanation of why this type was chosen (English)
+  reason: string;
+  // Message key and params of the reason, for translated UIs
+  key: string;
+  params?: MessageParams;
+};
+
+export type ConvertResult = {
+  // The concrete type the link was converted as (resolved when "auto")
+  type?: FileType;
+  detection?: TypeDetection;
+  // Non-Google host the link was converted for (see providers.ts)
+  provider?: string;
+  fileId?: string;
+  // Set instead of fileId when the link is a Drive folder
+  folderId?: string;
+  // Published-to-web link (/d/e/...): fileId is the published id, which
+  // Drive's own preview, thumbnail and download URLs don't accept
+  published?: boolean;
+  // Carried over from the link; older shared files need it on every URL
+  resourceKey?: string;
+  exportUrl?: string;
+  embedUrl?: string;
+  previewUrl?: string;
+  // Warnings and info about the conversion, see diagnostics.ts
+  notes?: Diagnostic[];
+  // Set (severity "error") when the link couldn't be converted
+  error?: Diagnostic;
+};
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+// Stable identifiers callers can branch on; messages may change
+export type DiagnosticCode =
+  // errors
+  | "empty-input"
+  | "no-link"
+  | "no-file-id"
+  | "no-shared-file"
+  | "folder-link"
+  | "unsupported-type"
+  | "invalid-url"
+  | "unsafe-scheme"
+  | "no-preview"
+  | "preview-failed"
+  // warnings: the link may not do what the user expects
+  | "type-mismatch"
+  | "original-format"
+  | "single-slide"
+  | "single-tab"
+  | "range-needs-gid"
+  | "gid-ignored"
+  | "media-playback"
+  | "published-link"
+  | "folder-zip"
+  | "sharing-required"
+  | "insecure-http"
+  | "credentials-in-url"
+  // info
+  | "not-google"
+  | "provider-link"
+  | "export-format"
+  | "preview-viewer"
+  | "pick-viewer"
+  | "preview-switched"
+  | "all-slides"
+  | "slide-page"
+  | "sheet-tabs"
+  | "image-only"
+  | "form-link"
+  | "drawing-formats"
+  | "large-file"
+  | "raw-text"
+  | "resource-key"
+  | "must-be-public";
+
+// One-click fix the UI can offer; label is ready to show
+export type DiagnosticAction =
+  | { kind: "set-type"; type: FileType; label: string }
+  | { kind: "set-viewer"; viewer: ViewerKind; label: string }
+  | { kind: "set-large-file"; enabled: boolean; label: string };
+
+export type Diagnostic = {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  // Message key and params, for translated UIs (see messages.ts)
+  key: string;
+  params?: MessageParams;
+  // English text of the message and fix
+  message: string;
+  // What the user can do about it
+  fix?: string;
+  action?: DiagnosticAction;
+};
+
+// "html" is exported by Google as a zip (HTML + images)
+export type DocsFormat =
+  | "pdf"
+  | "docx"
+  | "odt"
+  | "rtf"
+  | "txt"
+  | "epub"
+  | "html"
+  | "md";
+
+export type DocsExportOptions = {
+  format?: DocsFormat;
+};
+
+export type SheetsFormat = "xlsx" | "csv" | "tsv" | "ods" | "pdf";
+
+export type SheetsExportOptions = {
+  format?: SheetsFormat;
+  // Tab to export; defaults to the gid in the pasted link
+  gid?: string;
+  // PDF only
+  orientation?: "portrait" | "landscape";
+  fitToWidth?: boolean;
+  gridlines?: boolean;
+  // A1 notation, e.g. "A1:F40"
+  range?: string;
+};
+
+// Image formats export a single slide (the pageId one)
+export type SlidesFormat =
+  | "pptx"
+  | "pdf"
+  | "odp"
+  | "txt"
+  | "png"
+  | "jpeg"
+  | "svg";
+
+export type SlidesExportOptions = {
+  format?: SlidesFormat;
+  // Slide object id for image exports; defaults to #slide=id.<pageId> in the link
+  pageId?: string;
+  // Embed settings
+  autoplay?: boolean;
+  loop?: boolean;
+  delayMs?: number;
+  // 1-based slide number or a slide object id
+  startSlide?: string;
+};
+
+// Preview strategies, see viewers.ts
+export type ViewerKind =
+  "default" | "drive" | "gview" | "office" | "native" | "thumbnail";
+
+export type ConvertOptions = {
+  // Preview through this viewer instead of the type's default one
+  // (ignored when it doesn't apply to the link).
+  viewer?: ViewerKind;
+  // Older PPT-only switch, same as viewer: "office"
+  msViewer?: boolean;
+  slides?: SlidesExportOptions;
+  docs?: DocsExportOptions;
+  sheets?: SheetsExportOptions;
+  // Drive downloads through drive.usercontent.google.com with confirm=t,
+  // skipping the virus-scan page large files get. Defaults to on for
+  // video and audio, off otherwise.
+  largeFile?: boolean;
+};
+
+export type FileTypeInfo = {
+  key: FileType;
+  label: string;
+  hint: string;
+  description: string;
+};
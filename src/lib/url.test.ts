@@ -0,0 +1,238 @@
+import { describe, expect, it } from "vitest";
+import { convertLink } from "./convert";
+import { buildEmbedCode } from "./embed";
+import { FILE_TYPES } from "./fileTypes";
+import { extractGoogleFileId, isProbablyGoogleLink } from "./google";
+import { findProvider } from "./providers";
+import { rewriteDocument } from "./rewrite";
+import { GOOGLE_HOSTS, checkUrl, isSafeUrl } from "./url";
+import type { FileType, ViewerKind } from "./types";
+import { listViewers } from "./viewers";
+
+// Lookalikes: Google's hostname appears somewhere, but not as the host
+const LOOKALIKES = [
+  "https://evil.example/?x=drive.google.com",
+  "https://evil.example/file/d/1AbCdEf/view#drive.google.com",
+  "https://evil.example/drive.google.com/file/d/1AbCdEf/view",
+  "https://drive.google.com.evil.example/file/d/1AbCdEf/view",
+  "https://docs.google.com@evil.example/document/d/1AbCdEf/edit",
+  "https://evil-drive.google.com.example/open?id=1AbCdEf",
+  "https://drive.googIe.com/file/d/1AbCdEf/view",
+];
+
+// Must never produce a result, let alone reach a src/href
+const DANGEROUS = [
+  "javascript:alert(1)",
+  "JaVaScRiPt:alert(document.domain)",
+  "  javascript:alert(1)//drive.google.com/file/d/1AbCdEf",
+  "javascript://drive.google.com/%0Aalert(1)",
+  "java\tscript:alert(1)",
+  "data:text/html,<script>alert(1)</script>",
+  "data:image/svg+xml;base64,PHN2Zy8+",
+  "vbscript:msgbox(1)",
+  "file:///etc/passwd",
+  "blob:https://drive.google.com/0b1c",
+  "ftp://example.com/deck.pptx",
+  "javascript://dropbox.com/s/abc/%0Aalert(1)",
+];
+
+const NOT_LINKS = ["hello", "drive", "https://", "http://exa mple.com/x"];
+
+describe("isProbablyGoogleLink", () => {
+  it.each(LOOKALIKES)("rejects %s", (url) => {
+    expect(isProbablyGoogleLink(url)).toBe(false);
+    expect(extractGoogleFileId(url)).toBeNull();
+  });
+
+  it.each([
+    "https://drive.google.com/file/d/1AbCdEf/view",
+    "http://docs.google.com/document/d/1AbCdEf/edit",
+    "DRIVE.GOOGLE.COM/open?id=1AbCdEf",
+  ])("accepts %s", (url) => {
+    expect(isProbablyGoogleLink(url)).toBe(true);
+  });
+});
+
+describe("checkUrl", () => {
+  it.each(DANGEROUS)("rejects %s", (input) => {
+    const checked = checkUrl(input);
+    expect("error" in checked && checked.error.severity).toBe("error");
+  });
+
+  it.each(NOT_LINKS)("rejects %s as not a link", (input) => {
+    const checked = checkUrl(input);
+    expect("error" in checked && checked.error.code).toBe("invalid-url");
+  });
+
+  it("flags credentials before the host", () => {
+    const checked = checkUrl("https://drive.google.com@evil.example/x.pdf");
+    expect("url" in checked && checked.warnings[0].code).toBe(
+      "credentials-in-url",
+    );
+  });
+
+  it("reads host:port as a host, not a scheme", () => {
+    const checked = checkUrl("example.com:8080/deck.pptx");
+    expect("url" in checked && checked.url.href).toBe(
+      "https://example.com:8080/deck.pptx",
+    );
+  });
+});
+
+describe("convertLink with hostile input", () => {
+  const types = FILE_TYPES.map((t) => t.key);
+
+  it.each(DANGEROUS)("refuses %s", (input) => {
+    for (const type of [...types, "auto" as const]) {
+      const result = convertLink(input, type);
+      expect(result.error?.severity).toBe("error");
+      expect(result.exportUrl).toBeUndefined();
+      expect(result.previewUrl).toBeUndefined();
+      expect(listViewers(result)).toEqual([]);
+      expect(buildEmbedCode(result, "html")).toBeNull();
+    }
+  });
+
+  it.each(LOOKALIKES)("treats %s as a plain link", (input) => {
+    for (const type of types) {
+      const result = convertLink(input, type);
+      expect(result.fileId).toBeUndefined();
+      expect(GOOGLE_HOSTS).not.toContain(new URL(result.exportUrl!).hostname);
+      for (const v of listViewers(result)) expect(isSafeUrl(v.url)).toBe(true);
+    }
+  });
+
+  it("warns about plain http on non-Google links", () => {
+    const result = convertLink("http://example.com/report.pdf", "pdf");
+    expect(result.notes?.[0]).toMatchObject({
+      code: "insecure-http",
+      severity: "warning",
+    });
+  });
+
+  it("rebuilds Google http links on https without a warning", () => {
+    const result = convertLink(
+      "http://drive.google.com/file/d/1AbCdEf/view",
+      "pdf",
+    );
+    expect(result.exportUrl).toMatch(/^https:/);
+    expect(result.notes?.some((n) => n.code === "insecure-http")).toBe(false);
+  });
+
+  it("doesn't let provider matching see other schemes", () => {
+    expect(findProvider("javascript://dropbox.com/s/abc/x")).toBeNull();
+  });
+});
+
+describe("buildEmbedCode", () => {
+  it("sandboxes viewer iframes and drops the referrer", () => {
+    const html = buildEmbedCode(
+      convertLink("https://docs.google.com/document/d/1AbCdEf/edit", "doc"),
+      "html",
+    );
+    expect(html).toContain('sandbox="allow-scripts allow-same-origin');
+    expect(html).toContain('referrerpolicy="no-referrer"');
+    expect(html).not.toContain("allow-top-navigation");
+  });
+
+  it("escapes attribute values", () => {
+    const html = buildEmbedCode(
+      convertLink("https://example.com/a.png", "image"),
+      "html",
+      { title: '"><script>alert(1)</script>' },
+    );
+    expect(html).not.toContain("<script>");
+  });
+
+  it("escapes titles and URLs in Markdown and BBCode", () => {
+    const result = convertLink("https://example.com/a_(1).pdf", "pdf");
+    const title = "Week [3] notes";
+    expect(buildEmbedCode(result, "markdown", { title })).toBe(
+      "[Week \\[3\\] notes](https://example.com/a_%281%29.pdf)",
+    );
+    expect(buildEmbedCode(result, "bbcode", { title })).toBe(
+      "[url=https://example.com/a_%281%29.pdf]Week &#91;3&#93; notes[/url]",
+    );
+  });
+
+  it("names the file's host as the oEmbed provider", () => {
+    const oembed = (input: string) =>
+      JSON.parse(buildEmbedCode(convertLink(input, "pdf"), "oembed")!);
+
+    expect(
+      oembed("https://drive.google.com/file/d/1AbCdEf/view"),
+    ).toMatchObject({
+      provider_name: "Google Drive",
+      provider_url: "https://drive.google.com/",
+    });
+    expect(
+      oembed("https://www.dropbox.com/s/abc123/notes.pdf?dl=0"),
+    ).toMatchObject({
+      provider_name: "Dropbox",
+      provider_url: "https://www.dropbox.com/",
+    });
+    const plain = oembed("https://example.com/notes.pdf");
+    expect(plain).not.toHaveProperty("provider_name");
+    expect(plain).not.toHaveProperty("provider_url");
+  });
+});
+
+describe("buildEmbedCode with a picked viewer", () => {
+  const DRIVE = "https://drive.google.com/file/d/1AbCdEf/view";
+  const viewer = (type: FileType, kind: ViewerKind) => {
+    const result = convertLink(DRIVE, type);
+    return {
+      result,
+      viewer: listViewers(result).find((v) => v.kind === kind)!,
+    };
+  };
+
+  it("frames a video in Drive's player instead of a <video>", () => {
+    const { result, viewer: drive } = viewer("video", "drive");
+    const html = buildEmbedCode(result, "html", {}, drive)!;
+    expect(html).toMatch(/^<iframe /);
+    expect(html).toContain(`src="${drive.url}"`);
+    expect(html).not.toContain("<video");
+    expect(
+      JSON.parse(buildEmbedCode(result, "oembed", {}, drive)!),
+    ).toMatchObject({ type: "rich" });
+  });
+
+  it("links to an image shown in Drive's viewer", () => {
+    const { result, viewer: drive } = viewer("image", "drive");
+    expect(buildEmbedCode(result, "markdown", {}, drive)).toBe(
+      `[Image](${result.exportUrl})`,
+    );
+    expect(buildEmbedCode(result, "bbcode", {}, drive)).toMatch(/^\[url=/);
+  });
+
+  it("embeds a PDF's thumbnail as an image", () => {
+    const { result, viewer: thumbnail } = viewer("pdf", "thumbnail");
+    const html = buildEmbedCode(result, "html", {}, thumbnail)!;
+    expect(html).toMatch(/^<img /);
+    expect(html).toContain(`src="${thumbnail.url.replace(/&/g, "&amp;")}"`);
+    expect(buildEmbedCode(result, "markdown", {}, thumbnail)).toBe(
+      `![PDF](${thumbnail.url})`,
+    );
+    expect(
+      JSON.parse(buildEmbedCode(result, "oembed", {}, thumbnail)!),
+    ).toMatchObject({ type: "photo", url: thumbnail.url });
+  });
+
+  it("matches the type without a viewer", () => {
+    const { result } = viewer("video", "drive");
+    expect(buildEmbedCode(result, "html")).toMatch(/^<video /);
+  });
+});
+
+describe("rewriteDocument with hostile input", () => {
+  it("leaves lookalike and script links alone", () => {
+    const text = [
+      "[a](https://evil.example/?x=drive.google.com)",
+      "[b](javascript:alert('drive.google.com'))",
+    ].join("\n");
+    const result = rewriteDocument(text, "auto");
+    expect(result.output).toBe(text);
+    expect(result.changes).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { diagnostic } from "./diagnostics";
+import type { Diagnostic } from "./types";
+
+/**
+ * Strict URL handling. Pasted text only counts as a link once the URL
+ * parser accepts it; hosts are compared on the parsed hostname, never on
+ * substrings, and only http(s) links may end up in an href or src.
+ */
+
+// Hosts whose links go through the Google conversion
+export const GOOGLE_HOSTS = [
+  "drive.google.com",
+  "docs.google.com",
+  "drive.usercontent.google.com",
+];
+
+const SAFE_PROTOCOLS = ["https:", "http:"];
+
+// "scheme:" but not "host:port" (example.com:8080/file.pdf)
+const SCHEME = /^[a-z][a-z0-9+.-]*:(?!\d)/i;
+
+// Scheme-less input is read as https
+export function parseUrl(input: string): URL | null {
+  const raw = input.trim();
+  try {
+    return new URL(SCHEME.test(raw) ? raw : `https://${raw}`);
+  } catch {
+    return null;
+  }
+}
+
+export function isGoogleUrl(url: URL) {
+  return (
+    SAFE_PROTOCOLS.includes(url.protocol) && GOOGLE_HOSTS.includes(url.hostname)
+  );
+}
+
+// What may go into an iframe/img/video src or a link
+export function isSafeUrl(input: string) {
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(input).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export type CheckedUrl =
+  { url: URL; warnings: Diagnostic[] } | { error: Diagnostic };
+
+// Parses pasted input, rejecting anything that isn't a usable web link
+export function checkUrl(input: string): CheckedUrl {
+  const url = parseUrl(input);
+  if (!url) {
+    return {
+      error: diagnostic("invalid-url"),
+    };
+  }
+
+  if (!SAFE_PROTOCOLS.includes(url.protocol)) {
+    return {
+      error: diagnostic("unsafe-scheme", { scheme: url.protocol }),
+    };
+  }
+
+  // Bare words like "hello" parse as https://hello/
+  if (!url.hostname.includes(".") && url.hostname !== "localhost") {
+    return {
+      error: diagnostic("invalid-url"),
+    };
+  }
+
+  const warnings: Diagnostic[] = [];
+  // https://drive.google.com@evil.example/ really goes to evil.example
+  if (url.username || url.password) {
+    warnings.push(diagnostic("credentials-in-url", { host: url.hostname }));
+  }
+  return { url, warnings };
+}
@@ -0,0 +1,195 @@
+import {
+  buildDocsExport,
+  buildDocsViewer,
+  buildDrivePreview,
+  buildDriveThumbnail,
+  buildMicrosoftOfficeViewer,
+  buildSlidesExportPptx,
+  withResourceKey,
+} from "./google";
+import { diagnostic } from "./diagnostics";
+import { VIEWER_MESSAGES } from "./messages";
+import { isSafeUrl } from "./url";
+import type { ConvertResult, FileType, ViewerKind } from "./types";
+
+/**
+ * Ways to preview a converted link. listViewers() returns the ones that
+ * apply to a result, best first; the UI falls back down the list when a
+ * viewer fails to load.
+ */
+
+// How the viewer URL is rendered
+export type ViewerElement = "iframe" | "img" | "video" | "audio";
+
+export type ViewerOption = {
+  kind: ViewerKind;
+  label: string;
+  url: string;
+  element: ViewerElement;
+};
+
+// Iframes that haven't fired "load" by then count as failed (cross-origin
+// iframes report no errors)
+export const VIEWER_TIMEOUT_MS = 12000;
+
+// English labels; translated UIs use the viewer.<kind> messages
+export const VIEWER_LABELS: Record<ViewerKind, string> = {
+  default: VIEWER_MESSAGES["viewer.default"],
+  drive: VIEWER_MESSAGES["viewer.drive"],
+  gview: VIEWER_MESSAGES["viewer.gview"],
+  office: VIEWER_MESSAGES["viewer.office"],
+  native: VIEWER_MESSAGES["viewer.native"],
+  thumbnail: VIEWER_MESSAGES["viewer.thumbnail"],
+};
+
+const ORDER: Record<FileType, ViewerKind[]> = {
+  ppt: ["default", "office", "drive", "gview", "thumbnail"],
+  pdf: ["default", "drive", "native", "thumbnail"],
+  doc: ["default", "drive", "gview", "office", "thumbnail"],
+  sheet: ["default", "drive", "office", "gview", "thumbnail"],
+  image: ["native", "drive", "thumbnail"],
+  video: ["native", "drive", "thumbnail"],
+  audio: ["native", "drive"],
+};
+
+const MEDIA_ELEMENT: Partial<Record<FileType, ViewerElement>> = {
+  image: "img",
+  video: "video",
+  audio: "audio",
+};
+
+// How a type's own preview URL renders: media natively, the rest in a frame
+export function defaultElement(type: FileType): ViewerElement {
+  return MEDIA_ELEMENT[type] ?? "iframe";
+}
+
+// Drive /preview and /thumbnail need a real Drive file id; published
+// (/d/e/...) and non-Google links don't have one.
+function driveFileId(result: ConvertResult) {
+  const id = result.fileId;
+  return id && !result.provider && !result.published ? id : null;
+}
+
+// The Office viewer needs an Office file, not Google's native format
+function officeSource(result: ConvertResult, type: FileType) {
+  const id = driveFileId(result);
+  if (id && result.exportUrl?.includes("/presentation/d/")) {
+    return withResourceKey(buildSlidesExportPptx(id), result.resourceKey);
+  }
+  if (id && type === "doc" && result.exportUrl?.includes("/document/d/")) {
+    return withResourceKey(buildDocsExport(id, "docx"), result.resourceKey);
+  }
+  return result.exportUrl;
+}
+
+function buildViewer(
+  kind: ViewerKind,
+  result: ConvertResult,
+  type: FileType,
+): Omit<ViewerOption, "kind" | "label"> | null {
+  const id = driveFileId(result);
+  const exportUrl = result.exportUrl;
+  const media = MEDIA_ELEMENT[type];
+
+  switch (kind) {
+    case "default":
+      return result.previewUrl
+        ? { url: result.previewUrl, element: defaultElement(type) }
+        : null;
+    case "drive":
+      return id
+        ? {
+            url: withResourceKey(buildDrivePreview(id), result.resourceKey),
+            element: "iframe",
+          }
+        : null;
+    // Published links already are web pages; the viewers can't open them
+    case "gview":
+      return exportUrl && !result.published
+        ? { url: buildDocsViewer(exportUrl), element: "iframe" }
+        : null;
+    case "office": {
+      if (result.published) return null;
+      const source = officeSource(result, type);
+      return source
+        ? { url: buildMicrosoftOfficeViewer(source), element: "iframe" }
+        : null;
+    }
+    case "native":
+      // Drive download links force a download, so only media render natively
+      if (!exportUrl) return null;
+      if (media) return { url: exportUrl, element: media };
+      return type === "pdf" && !id
+        ? { url: exportUrl, element: "iframe" }
+        : null;
+    case "thumbnail":
+      return id
+        ? {
+            url: withResourceKey(buildDriveThumbnail(id), result.resourceKey),
+            element: "img",
+          }
+        : null;
+  }
+}
+
+export function listViewers(
+  result: ConvertResult,
+  type: FileType | undefined = result.type,
+): ViewerOption[] {
+  if (!type || result.error) return [];
+
+  const seen = new Set<string>();
+  const viewers: ViewerOption[] = [];
+  for (const kind of ORDER[type]) {
+    const v = buildViewer(kind, result, type);
+    // Never hand a javascript:/data: URL to an iframe or img
+    if (!v || seen.has(v.url) || !isSafeUrl(v.url)) continue;
+    seen.add(v.url);
+    viewers.push({ kind, label: VIEWER_LABELS[kind], ...v });
+  }
+  return viewers;
+}
+
+export function isViewerKind(value: string): value is ViewerKind {
+  return Object.hasOwn(VIEWER_LABELS, value);
+}
+
+// The fallback chain: the preferred viewer first, then the rest in order
+export function orderViewers(
+  viewers: ViewerOption[],
+  preferred: ViewerKind | "auto" = "auto",
+): ViewerOption[] {
+  const start = Math.max(
+    0,
+    viewers.findIndex((v) => v.kind === preferred),
+  );
+  return [...viewers.slice(start), ...viewers.slice(0, start)];
+}
+
+// The viewer to show: the first in the chain whose URL hasn't failed yet.
+// null once they all have.
+export function nextViewer(
+  viewers: readonly ViewerOption[],
+  failed: readonly string[],
+): ViewerOption | null {
+  return viewers.find((v) => !failed.includes(v.url)) ?? null;
+}
+
+// Points previewUrl at the chosen viewer, when it applies to the result
+export function applyViewer(
+  result: ConvertResult,
+  kind: ViewerKind,
+): ConvertResult {
+  if (kind === "default" || result.error) return result;
+  const viewer = listViewers(result).find((v) => v.kind === kind);
+  if (!viewer) return result;
+  // The suggestion to pick this viewer is done with
+  const notes = (result.notes ?? []).filter(
+    (n) => !(n.action?.kind === "set-viewer" && n.action.viewer === kind),
+  );
+  return {
+    ...result,
+    previewUrl: viewer.url,
+    notes: [...notes, diagnostic("preview-switched", { viewer: viewer.kind })],
+  };
+}
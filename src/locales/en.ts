@@ -0,0 +1,183 @@
+import { HEALTH_LABELS, type Catalogue } from "../lib";
+
+// Page copy in English: the reference catalogue. Conversion notes, type
+// labels and viewer names are in the library's MESSAGES (lib/messages.ts).
+
+export const en: Catalogue = {
+  "app.title": "Google Drive Link Converter",
+  "app.tagline":
+    "Convert Drive/Docs links into exportable URLs + preview before you use them.",
+  "app.language": "Language",
+
+  "mode.single": "Single link",
+  "mode.batch": "Batch",
+  "mode.rewrite": "Rewrite document",
+  "mode.history": "History",
+
+  "type.auto.label": "Auto",
+  "type.auto.hint": "Detect from the link",
+
+  "step.type": "1) Select file type",
+  "step.type.hint": "affects export + preview",
+  "step.paste": "2) Paste link",
+  "step.output": "3) Exportable link",
+
+  "page.detected": "Detected {type}: {reason}.",
+  "page.large-file":
+    "Large-file download: skip Google's virus-scan page (the file isn't scanned)",
+  "page.share": "Share",
+  "page.share.title": "Copy a link that reopens this conversion",
+  "page.share.done": "Link copied",
+  "page.reset": "Reset",
+  "page.input.placeholder":
+    "Paste a Google Drive/Docs, Dropbox, OneDrive, Box or GitHub link...",
+  "page.watch-clipboard":
+    "Watch clipboard: convert and copy new links automatically",
+  "page.paste-hint":
+    "Or paste anywhere on the page (Alt+Shift+V) to convert and copy in one step.",
+  "page.shortcuts":
+    "Shortcuts: Alt+Shift+C copies the export link, Alt+Shift+R resets the input.",
+  "page.output": "Output",
+  "page.output.empty": "Exportable link will appear here…",
+  "page.copy": "Copy",
+  "page.copied": "Copied",
+  "page.open": "Open",
+  "page.check-link": "Check link",
+  "page.health.export": "Export",
+  "page.health.preview": "Preview",
+  "page.alternatives": "Preview alternatives",
+  "page.tip":
+    "Tip: your Drive file must be shared as Anyone with the link → Viewer for previews to work.",
+  "page.preview": "Preview",
+  "page.preview.hint": "Verify the converted link works",
+  "page.file-id": "File ID:",
+  "page.copy-url": "Copy URL",
+  "page.copy-url.title": "Copy preview URL",
+  "page.empty": "Paste a link to preview",
+  "page.empty.hint":
+    "Choose a file type, paste a link, and the preview will render here.",
+  "page.important": "Important",
+  "page.important.private":
+    "Private Drive files will not preview (permissions required).",
+  "page.important.cors":
+    "Video/Audio playback from Drive may fail due to CORS.",
+  "page.important.cdn":
+    "For production, prefer storing files on S3/Cloudflare R2/CDN.",
+
+  "toast.failed": "Couldn't convert the pasted link",
+  "toast.converted": "{type} link converted, export URL copied",
+  "toast.dismiss": "Dismiss",
+
+  "a11y.converted": "{type} export link ready",
+  "a11y.copied": "Copied to clipboard",
+
+  "preview.viewer": "Viewer",
+  "preview.viewer.auto": "Auto",
+  "preview.frame-title": "{type} Preview ({viewer})",
+  "preview.fell-back": "{wanted} didn't load; showing {active} instead.",
+  "preview.none":
+    "None of the viewers could load this file. Check that it's shared publicly.",
+  "preview.retry": "Retry",
+
+  "health.checking": "Checking…",
+  ...Object.fromEntries(
+    Object.entries(HEALTH_LABELS).map(([status, label]) => [
+      `health.${status}`,
+      label,
+    ]),
+  ),
+
+  "slides.heading": "Slides export",
+  "slides.page-id": "Slide page id",
+  "slides.page-id.first": "first slide",
+  "slides.embed": "Embed settings",
+  "slides.autoplay": "Autoplay",
+  "slides.loop": "Loop",
+  "slides.delay": "Delay (ms)",
+  "slides.start": "Start slide",
+  "slides.start.placeholder": "1 or page id",
+  "docs.heading": "Document export format",
+  "docs.html-zip": "html (zip)",
+  "sheets.heading": "Sheets export",
+  "sheets.gid": "Tab (gid)",
+  "sheets.gid.first": "first tab",
+  "sheets.orientation": "Orientation",
+  "sheets.portrait": "portrait",
+  "sheets.landscape": "landscape",
+  "sheets.fit-width": "Fit to width",
+  "sheets.gridlines": "Show gridlines",
+  "sheets.range": "Range",
+  "sheets.range.placeholder": "e.g. A1:F40",
+  "options.from-link": "{value} (from link)",
+
+  "embed.heading": "4) Embed code",
+  "embed.width": "Width",
+  "embed.height": "Height",
+  "embed.aspect-ratio": "Aspect ratio",
+  "embed.auto": "auto",
+  "embed.lazy": "Lazy loading",
+
+  "qr.heading": "5) QR code & short link",
+  "qr.export": "Export URL",
+  "qr.preview": "Preview URL",
+  "qr.use-short": "Use the short link in the QR code",
+  "qr.shorten": "Shorten link",
+  "qr.alt": "QR code for {url}",
+  "qr.rendering": "Rendering…",
+  "qr.error":
+    "Couldn't draw the QR code. Try the short link or a lower error correction.",
+  "qr.size": "Size (px)",
+  "qr.level": "Error correction",
+
+  "files.type": "File type",
+  "files.type.auto": "Auto (detect per link)",
+  "files.open": "Open file",
+  "files.results.empty": "Results will appear here…",
+
+  "table.line": "Line",
+  "table.type": "Type",
+  "table.file-id": "File ID",
+  "table.export-url": "Export URL",
+  "table.preview-url": "Preview URL",
+  "table.status": "Status",
+  "table.notes": "Notes",
+  "table.link": "Link",
+
+  "batch.paste": "1) Paste links or drop a file",
+  "batch.placeholder":
+    "One link per line, or drop a .txt / .csv file here…\nhttps://drive.google.com/file/d/…\nhttps://docs.google.com/presentation/d/…",
+  "batch.results": "2) Results",
+  "batch.summary": "{count} links, {failed} with errors",
+  "batch.summary.one": "1 link, {failed} with errors",
+  "batch.copy-all": "Copy all",
+  "batch.check-all": "Check all",
+
+  "rewrite.paste": "1) Paste or drop a document",
+  "rewrite.format": "Format",
+  "rewrite.format.auto": "auto ({format})",
+  "rewrite.placeholder":
+    "Paste Markdown, HTML or CSV, or drop a .md / .html / .csv file here…\n[Slides](https://docs.google.com/presentation/d/…/edit)",
+  "rewrite.results": "2) Rewritten document",
+  "rewrite.summary": "{changed} changed, {skipped} skipped, {failed} failed",
+  "rewrite.no-links": "No convertible links found.",
+  "rewrite.download": "Download",
+  "rewrite.status.changed": "changed",
+  "rewrite.status.skipped": "skipped",
+  "rewrite.status.failed": "failed",
+  "rewrite.was": "was {url}",
+
+  "history.search": "Search by name, link or file ID…",
+  "history.all-types": "All types",
+  "history.pinned": "Pinned",
+  "history.name.placeholder": "Name this link…",
+  "history.restore": "Open in converter",
+  "history.copy": "Copy export URL",
+  "history.pin": "Pin",
+  "history.unpin": "Unpin",
+  "history.rename": "Rename",
+  "history.delete": "Delete",
+  "history.no-matches": "No matches",
+  "history.no-matches.hint": "Try a different search or filter.",
+  "history.empty": "No conversions yet",
+  "history.empty.hint": "Links you convert are saved here on this device.",
+};
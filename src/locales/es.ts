@@ -0,0 +1,408 @@
+import type { Catalogue } from "../lib";
+
+// Español
+
+export const es: Catalogue = {
+  "app.title": "Conversor de enlaces de Google Drive",
+  "app.tagline":
+    "Convierte enlaces de Drive/Docs en URL exportables y previsualízalos antes de usarlos.",
+  "app.language": "Idioma",
+
+  "mode.single": "Un enlace",
+  "mode.batch": "Por lotes",
+  "mode.rewrite": "Reescribir documento",
+  "mode.history": "Historial",
+
+  "type.auto.label": "Automático",
+  "type.auto.hint": "Detectar a partir del enlace",
+
+  "step.type": "1) Elige el tipo de archivo",
+  "step.type.hint": "afecta a la exportación y la vista previa",
+  "step.paste": "2) Pega el enlace",
+  "step.output": "3) Enlace exportable",
+
+  "page.detected": "Detectado: {type}. {reason}.",
+  "page.large-file":
+    "Descarga de archivos grandes: omite la página de análisis de virus de Google (el archivo no se analiza)",
+  "page.share": "Compartir",
+  "page.share.title": "Copia un enlace que vuelve a abrir esta conversión",
+  "page.share.done": "Enlace copiado",
+  "page.reset": "Restablecer",
+  "page.input.placeholder":
+    "Pega un enlace de Google Drive/Docs, Dropbox, OneDrive, Box o GitHub...",
+  "page.watch-clipboard":
+    "Vigilar el portapapeles: convertir y copiar los enlaces nuevos automáticamente",
+  "page.paste-hint":
+    "O pega en cualquier parte de la página (Alt+Mayús+V) para convertir y copiar en un solo paso.",
+  "page.shortcuts":
+    "Atajos: Alt+Shift+C copia el enlace de exportación y Alt+Shift+R vacía la entrada.",
+  "page.output": "Resultado",
+  "page.output.empty": "El enlace exportable aparecerá aquí…",
+  "page.copy": "Copiar",
+  "page.copied": "Copiado",
+  "page.open": "Abrir",
+  "page.check-link": "Comprobar enlace",
+  "page.health.export": "Exportación",
+  "page.health.preview": "Vista previa",
+  "page.alternatives": "Otras vistas previas",
+  "page.tip":
+    "Consejo: el archivo de Drive debe compartirse como Cualquier persona con el enlace → Lector para que funcionen las vistas previas.",
+  "page.preview": "Vista previa",
+  "page.preview.hint": "Comprueba que el enlace convertido funciona",
+  "page.file-id": "ID del archivo:",
+  "page.copy-url": "Copiar URL",
+  "page.copy-url.title": "Copiar la URL de la vista previa",
+  "page.empty": "Pega un enlace para verlo",
+  "page.empty.hint":
+    "Elige un tipo de archivo, pega un enlace y la vista previa aparecerá aquí.",
+  "page.important": "Importante",
+  "page.important.private":
+    "Los archivos privados de Drive no se pueden previsualizar (hacen falta permisos).",
+  "page.important.cors":
+    "La reproducción de vídeo o audio desde Drive puede fallar por CORS.",
+  "page.important.cdn":
+    "En producción, mejor guarda los archivos en S3, Cloudflare R2 o un CDN.",
+
+  "toast.failed": "No se pudo convertir el enlace pegado",
+  "toast.converted": "Enlace de {type} convertido y URL de exportación copiada",
+  "toast.dismiss": "Cerrar",
+
+  "a11y.converted": "Enlace de exportación de {type} listo",
+  "a11y.copied": "Copiado al portapapeles",
+
+  "preview.viewer": "Visor",
+  "preview.viewer.auto": "Automático",
+  "preview.frame-title": "Vista previa de {type} ({viewer})",
+  "preview.fell-back": "{wanted} no cargó; se muestra {active} en su lugar.",
+  "preview.none":
+    "Ningún visor pudo cargar este archivo. Comprueba que está compartido públicamente.",
+  "preview.retry": "Reintentar",
+
+  "health.checking": "Comprobando…",
+  "health.ok": "Correcto",
+  "health.sign-in": "Requiere iniciar sesión",
+  "health.not-found": "No encontrado",
+  "health.quota": "Cuota superada",
+  "health.virus-scan": "Página de análisis de virus",
+  "health.wrong-type": "Tipo de contenido incorrecto",
+  "health.unreachable": "Inaccesible",
+
+  "slides.heading": "Exportación de diapositivas",
+  "slides.page-id": "ID de la diapositiva",
+  "slides.page-id.first": "primera diapositiva",
+  "slides.embed": "Opciones de inserción",
+  "slides.autoplay": "Reproducción automática",
+  "slides.loop": "Repetir",
+  "slides.delay": "Intervalo (ms)",
+  "slides.start": "Diapositiva inicial",
+  "slides.start.placeholder": "1 o ID de página",
+  "docs.heading": "Formato de exportación del documento",
+  "docs.html-zip": "html (zip)",
+  "sheets.heading": "Exportación de hojas de cálculo",
+  "sheets.gid": "Pestaña (gid)",
+  "sheets.gid.first": "primera pestaña",
+  "sheets.orientation": "Orientación",
+  "sheets.portrait": "vertical",
+  "sheets.landscape": "horizontal",
+  "sheets.fit-width": "Ajustar al ancho",
+  "sheets.gridlines": "Mostrar cuadrícula",
+  "sheets.range": "Rango",
+  "sheets.range.placeholder": "p. ej. A1:F40",
+  "options.from-link": "{value} (del enlace)",
+
+  "embed.heading": "4) Código para insertar",
+  "embed.width": "Ancho",
+  "embed.height": "Alto",
+  "embed.aspect-ratio": "Relación de aspecto",
+  "embed.auto": "auto",
+  "embed.lazy": "Carga diferida",
+
+  "qr.heading": "5) Código QR y enlace corto",
+  "qr.export": "URL de exportación",
+  "qr.preview": "URL de vista previa",
+  "qr.use-short": "Usar el enlace corto en el código QR",
+  "qr.shorten": "Acortar enlace",
+  "qr.alt": "Código QR de {url}",
+  "qr.rendering": "Generando…",
+  "qr.error":
+    "No se pudo generar el código QR. Prueba con el enlace corto o una corrección de errores menor.",
+  "qr.size": "Tamaño (px)",
+  "qr.level": "Corrección de errores",
+
+  "files.type": "Tipo de archivo",
+  "files.type.auto": "Automático (detectar por enlace)",
+  "files.open": "Abrir archivo",
+  "files.results.empty": "Los resultados aparecerán aquí…",
+
+  "table.line": "Línea",
+  "table.type": "Tipo",
+  "table.file-id": "ID del archivo",
+  "table.export-url": "URL de exportación",
+  "table.preview-url": "URL de vista previa",
+  "table.status": "Estado",
+  "table.notes": "Notas",
+  "table.link": "Enlace",
+
+  "batch.paste": "1) Pega enlaces o suelta un archivo",
+  "batch.placeholder":
+    "Un enlace por línea, o suelta aquí un archivo .txt / .csv…\nhttps://drive.google.com/file/d/…\nhttps://docs.google.com/presentation/d/…",
+  "batch.results": "2) Resultados",
+  "batch.summary": "{count} enlaces, {failed} con errores",
+  "batch.summary.one": "1 enlace, {failed} con errores",
+  "batch.copy-all": "Copiar todo",
+  "batch.check-all": "Comprobar todos",
+
+  "rewrite.paste": "1) Pega o suelta un documento",
+  "rewrite.format": "Formato",
+  "rewrite.format.auto": "automático ({format})",
+  "rewrite.placeholder":
+    "Pega Markdown, HTML o CSV, o suelta aquí un archivo .md / .html / .csv…\n[Diapositivas](https://docs.google.com/presentation/d/…/edit)",
+  "rewrite.results": "2) Documento reescrito",
+  "rewrite.summary":
+    "{changed} cambiados, {skipped} omitidos, {failed} con errores",
+  "rewrite.no-links": "No se encontraron enlaces convertibles.",
+  "rewrite.download": "Descargar",
+  "rewrite.status.changed": "cambiado",
+  "rewrite.status.skipped": "omitido",
+  "rewrite.status.failed": "error",
+  "rewrite.was": "antes: {url}",
+
+  "history.search": "Buscar por nombre, enlace o ID del archivo…",
+  "history.all-types": "Todos los tipos",
+  "history.pinned": "Fijados",
+  "history.name.placeholder": "Pon nombre a este enlace…",
+  "history.restore": "Abrir en el conversor",
+  "history.copy": "Copiar la URL de exportación",
+  "history.pin": "Fijar",
+  "history.unpin": "Dejar de fijar",
+  "history.rename": "Renombrar",
+  "history.delete": "Eliminar",
+  "history.no-matches": "Sin resultados",
+  "history.no-matches.hint": "Prueba con otra búsqueda o filtro.",
+  "history.empty": "Aún no hay conversiones",
+  "history.empty.hint":
+    "Los enlaces que conviertas se guardan aquí, en este dispositivo.",
+
+  // Library messages (lib/messages.ts)
+  "type.ppt.label": "PPT / PPTX",
+  "type.ppt.hint": "Usa el visor de Microsoft Office",
+  "type.ppt.description":
+    "Presentación de PowerPoint - Formato de diapositivas para presentaciones",
+  "type.pdf.label": "PDF",
+  "type.pdf.hint": "Usa el visor de PDF (iframe)",
+  "type.pdf.description":
+    "Portable Document Format - Formato universal para ver y compartir documentos",
+  "type.doc.label": "Documento",
+  "type.doc.hint": "pdf, docx, odt, epub, md…",
+  "type.doc.description":
+    "Documento de texto - Documentos de Google exportados como Word, OpenDocument, RTF, texto sin formato, EPUB, HTML o Markdown",
+  "type.sheet.label": "Hojas de cálculo",
+  "type.sheet.hint": "xlsx, csv, tsv, ods, pdf",
+  "type.sheet.description":
+    "Hoja de cálculo - Hojas de cálculo de Google exportadas como Excel, CSV/TSV, OpenDocument o PDF",
+  "type.image.label": "Imagen",
+  "type.image.hint": "Usa <img />",
+  "type.image.description":
+    "Archivo de imagen - Fotos y gráficos en varios formatos (PNG, JPG, GIF, etc.)",
+  "type.video.label": "Vídeo",
+  "type.video.hint": "Usa <video />",
+  "type.video.description":
+    "Archivo de vídeo - Contenido en movimiento en formatos como MP4, WebM, etc.",
+  "type.audio.label": "Audio",
+  "type.audio.hint": "Usa <audio />",
+  "type.audio.description":
+    "Archivo de audio - Sonido en formatos como MP3, WAV, OGG, etc.",
+
+  "viewer.default": "Predeterminado",
+  "viewer.drive": "Vista previa de Drive",
+  "viewer.gview": "Visor de Documentos de Google",
+  "viewer.office": "Visor de Microsoft",
+  "viewer.native": "Navegador",
+  "viewer.thumbnail": "Miniatura de Drive",
+
+  "action.set-type": "Cambiar a {type}",
+  "action.set-viewer": "Usar {viewer}",
+  "action.set-large-file.on":
+    "Usar el enlace de descarga para archivos grandes",
+  "action.set-large-file.off": "Usar el enlace de descarga normal",
+
+  "detect.slides": "enlace de Presentaciones de Google (/presentation/d/)",
+  "detect.docs": "enlace de Documentos de Google (/document/d/)",
+  "detect.sheets": "enlace de Hojas de cálculo de Google (/spreadsheets/d/)",
+  "detect.drawings": "enlace de Dibujos de Google (/drawings/d/)",
+  "detect.forms":
+    "enlace de Formularios de Google (/forms/d/), insertado como página",
+  "detect.thumbnail": "enlace de miniatura de Drive (/thumbnail?id=)",
+  "detect.mime": "{param}={value} en la consulta",
+  "detect.sharepoint": "/:{office}:/ en el enlace de SharePoint",
+  "detect.extension": "extensión de archivo .{ext}",
+  "detect.fallback": "El enlace no indica el tipo; se usa PDF",
+
+  "health-check.ok": "Accesible.",
+  "health-check.timeout": "No hubo respuesta antes del tiempo límite.",
+  "health-check.request-failed":
+    "La solicitud falló ({error}). En un navegador suele deberse a CORS; compruébalo a través de un proxy.",
+  "health-check.read-failed": "No se pudo leer la respuesta ({error}).",
+  "health-check.sign-in-redirect":
+    "Redirige al inicio de sesión de Google: el archivo no es público.",
+  "health-check.access-denied":
+    "Acceso denegado: comparte el archivo como Cualquier persona con el enlace → Lector.",
+  "health-check.not-found":
+    "Google dice que el archivo no existe (o se eliminó).",
+  "health-check.too-many-requests":
+    "Demasiadas solicitudes: se superó la cuota de descargas. Inténtalo más tarde.",
+  "health-check.http-error": "El servidor respondió HTTP {status}.",
+  "health-check.wrong-type":
+    "Se recibió {contentType}, que no parece del tipo elegido.",
+  "health-check.no-content-type":
+    "No se recibió tipo de contenido, así que no parece del tipo elegido.",
+  "health-check.virus-scan":
+    "Google muestra su página de confirmación del análisis de virus para archivos grandes en lugar del archivo. Activa el modo de archivos grandes para omitirla.",
+  "health-check.quota":
+    "Se superó la cuota de descargas de este archivo. Inténtalo más tarde o haz una copia.",
+  "health-check.sign-in":
+    "Google pide iniciar sesión o solicitar acceso: el archivo no es público.",
+  "health-check.page": "Se recibió una página web en lugar de un archivo.",
+
+  "rewrite.direct-link": "Ya es un enlace directo.",
+  "rewrite.no-export": "No hay enlace de exportación para este tipo.",
+
+  "shorten.request-failed": "No se pudo contactar con el acortador ({error}).",
+  "shorten.http-error": "El acortador respondió con HTTP {status}.",
+  "shorten.no-short-url":
+    "La respuesta del acortador no incluía un enlace corto.",
+
+  "empty-input": "Primero pega un enlace.",
+  "no-link": "No hay ningún enlace en esta línea.",
+  "no-file-id":
+    "Parece un enlace de Google, pero no pude obtener el ID del archivo.",
+  "no-file-id.fix": "Pega el enlace completo de Drive/Docs.",
+  "no-shared-file":
+    "Parece un enlace de {provider}, pero no encontré ningún archivo compartido.",
+  "no-shared-file.fix": "Pega el enlace para compartir del archivo.",
+  "folder-link":
+    "Es un enlace a una carpeta de Google Drive, no a un archivo. Las carpetas no se pueden exportar.",
+  "folder-link.fix":
+    "Abre la carpeta y copia el enlace de un archivo que contenga.",
+  "folder-link.shared-drive":
+    "Es un enlace a una unidad compartida de Google Drive, no a un archivo. Las carpetas no se pueden exportar.",
+  "folder-link.shared-drive.fix":
+    "Abre la unidad compartida y copia el enlace de un archivo que contenga.",
+  "unsupported-type": "Tipo no admitido.",
+  "invalid-url": "Esto no parece un enlace.",
+  "invalid-url.fix": "Pega la dirección completa, empezando por https://.",
+  "unsafe-scheme":
+    "Los enlaces {scheme} no se pueden convertir ni previsualizar.",
+  "unsafe-scheme.fix": "Pega el enlace https:// para compartir el archivo.",
+  "no-preview": "Este enlace no tiene nada que previsualizar.",
+  "no-preview.fix": "Abre el enlace de exportación.",
+  "preview-failed": "Ningún visor pudo cargar este archivo.",
+  "preview-failed.fix":
+    "Comprueba que se comparte con cualquier persona que tenga el enlace.",
+
+  "type-mismatch": "Parece {type} ({reason}).",
+  "type-mismatch.fix": "Prueba ese tipo o Automático si el enlace no funciona.",
+  "original-format.doc":
+    "Es un archivo de Drive, no un documento de Google: se descarga en su formato original.",
+  "original-format.doc.fix":
+    "Las opciones de formato solo se aplican a enlaces docs.google.com/document.",
+  "original-format.sheet":
+    "Es un archivo de Drive, no una hoja de cálculo de Google: se descarga en su formato original.",
+  "original-format.sheet.fix":
+    "Las opciones de formato solo se aplican a enlaces docs.google.com/spreadsheets.",
+  "single-slide":
+    "Las exportaciones como imagen solo contienen la primera diapositiva.",
+  "single-slide.fix":
+    "Copia el enlace con la diapositiva que quieres seleccionada (#slide=id.…) o escribe su ID de página.",
+  "single-tab": "{format} solo exporta la primera pestaña.",
+  "single-tab.fix":
+    "Copia el enlace con la pestaña que quieres abierta para exportar esa.",
+  "range-needs-gid": "Un rango se aplica a una sola pestaña.",
+  "range-needs-gid.fix": "Indica el gid de la pestaña.",
+  "gid-ignored":
+    "La exportación {format} contiene todas las pestañas; el gid solo afecta a CSV, TSV y PDF.",
+  "media-playback.video":
+    "En los vídeos de Drive, la reproducción directa depende de CORS y de los permisos del archivo.",
+  "media-playback.video.fix":
+    "Si no se reproduce, prueba a alojarlo en un CDN o usa un servidor de streaming.",
+  "media-playback.audio":
+    "En el audio de Drive, la reproducción directa depende de los permisos y del navegador.",
+  "published-link":
+    "Es un enlace publicado en la Web (Archivo → Compartir → Publicar en la Web). Google solo sirve la versión publicada, no descargas del archivo.",
+  "published-link.sheets":
+    "Es un enlace publicado en la Web (Archivo → Compartir → Publicar en la Web).",
+  "folder-zip": "Es una carpeta de Dropbox: el enlace la descarga como ZIP.",
+  "sharing-required.sharepoint":
+    "Los enlaces de SharePoint solo se descargan si la organización permite compartir de forma anónima.",
+  "sharing-required.box":
+    'Los enlaces directos de Box necesitan el enlace compartido en "Personas con el enlace"; algunos planes los desactivan.',
+  "insecure-http":
+    "Este enlace usa http sin cifrar: los navegadores lo bloquean dentro de páginas https y se puede manipular.",
+  "insecure-http.fix":
+    "Usa la versión https:// del enlace si el sitio la tiene.",
+  "credentials-in-url":
+    "El enlace lleva un usuario o contraseña antes del dominio; en realidad apunta a {host}.",
+  "credentials-in-url.fix": "Úsalo solo si confías en ese sitio.",
+
+  "not-google": "No es un enlace de Google Drive. Se usa tal cual.",
+  "provider-link":
+    "Se convirtió el enlace para compartir de {provider} en un enlace directo.",
+  "export-format": "La URL de exportación descarga el archivo como {format}.",
+  "export-format.html-zip":
+    "La URL de exportación descarga un ZIP con la página HTML y sus imágenes.",
+  "export-format.drawing":
+    "La URL de exportación descarga el dibujo como {format}.",
+  "export-format.published":
+    "La URL de exportación descarga los datos publicados como {format}; las opciones de diseño de PDF no se aplican.",
+  "preview-viewer.docs-viewer":
+    "La vista previa usa el visor de Documentos de Google.",
+  "preview-viewer.docs-viewer-public":
+    "La vista previa usa el visor de Documentos de Google; la URL debe ser pública.",
+  "preview-viewer.office-public":
+    "La vista previa usa el visor de Microsoft Office; la URL debe ser pública.",
+  "preview-viewer.slides":
+    "La vista previa usa la inserción de Presentaciones de Google.",
+  "preview-viewer.docs":
+    "La vista previa usa la vista de Documentos de Google.",
+  "preview-viewer.sheets":
+    "La vista previa usa la vista de Hojas de cálculo de Google.",
+  "preview-viewer.published-slides":
+    "La vista previa usa la presentación publicada.",
+  "preview-viewer.published-page":
+    "La vista previa inserta la página publicada.",
+  "pick-viewer":
+    "Si quieres una vista previa al estilo de PPT, elige el visor de Microsoft.",
+  "preview-switched": "Vista previa cambiada a {viewer}.",
+  "all-slides":
+    "El PDF contiene todas las diapositivas; la exportación de Google no permite elegir páginas.",
+  "all-slides.fix": "Usa PNG/JPEG/SVG para una sola diapositiva.",
+  "slide-page": "Solo exporta la diapositiva con ID {pageId}.",
+  "sheet-tabs": "Exporta la pestaña con gid={gid}.",
+  "sheet-tabs.pdf": "El PDF contiene la pestaña con gid={gid}.",
+  "sheet-tabs.pdf-all": "El PDF contiene todas las pestañas.",
+  "image-only":
+    "Funciona mejor cuando el archivo de Drive es realmente una imagen.",
+  "image-only.fix":
+    "Si falla, puede que el archivo no sea una imagen o que no sea público.",
+  "form-link":
+    "Los formularios de Google no se pueden descargar; el enlace abre el formulario.",
+  "drawing-formats":
+    "Los dibujos también se exportan como /export/svg, /export/jpeg y /export/pdf.",
+  "large-file":
+    "Modo de archivos grandes: el enlace descarga desde drive.usercontent.google.com con confirm=t y omite la página de análisis de virus que Google muestra con archivos de más de ~100 MB. A cambio, Google no analiza estas descargas y el formato de la URL no está documentado y puede cambiar.",
+  "raw-text":
+    "raw.githubusercontent.com sirve los archivos de texto como texto sin formato, así que el HTML no se mostrará.",
+  "resource-key":
+    "Se conservó la resourcekey del enlace; los archivos compartidos antiguos la necesitan.",
+  "must-be-public":
+    "El archivo debe estar compartido públicamente para que el enlace funcione.",
+  "must-be-public.share":
+    "Asegúrate de que el archivo esté compartido públicamente (Cualquier persona con el enlace → Lector).",
+  "must-be-public.ppt": "Para la vista previa de PPT, la URL debe ser pública.",
+  "must-be-public.pdf":
+    "Si el PDF no se muestra, comprueba que el enlace sea público y permita el acceso directo.",
+  "must-be-public.form":
+    "La vista previa inserta el formulario. Debe aceptar respuestas de cualquier persona con el enlace.",
+  "must-be-public.github":
+    "Los repositorios privados necesitan un token; el enlace raw solo funciona con repositorios públicos.",
+};
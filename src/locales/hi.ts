@@ -0,0 +1,393 @@
+import type { Catalogue } from "../lib";
+
+// हिन्दी
+
+export const hi: Catalogue = {
+  "app.title": "Google Drive लिंक कन्वर्टर",
+  "app.tagline":
+    "Drive/Docs लिंक को एक्सपोर्ट करने योग्य URL में बदलें और इस्तेमाल से पहले प्रीव्यू देखें।",
+  "app.language": "भाषा",
+
+  "mode.single": "एक लिंक",
+  "mode.batch": "कई लिंक",
+  "mode.rewrite": "दस्तावेज़ फिर से लिखें",
+  "mode.history": "इतिहास",
+
+  "type.auto.label": "अपने आप",
+  "type.auto.hint": "लिंक से पहचानें",
+
+  "step.type": "1) फ़ाइल का प्रकार चुनें",
+  "step.type.hint": "एक्सपोर्ट और प्रीव्यू पर असर डालता है",
+  "step.paste": "2) लिंक पेस्ट करें",
+  "step.output": "3) एक्सपोर्ट लिंक",
+
+  "page.detected": "पहचाना गया: {type} — {reason}।",
+  "page.large-file":
+    "बड़ी फ़ाइल डाउनलोड: Google का वायरस-स्कैन पेज छोड़ें (फ़ाइल स्कैन नहीं होती)",
+  "page.share": "शेयर करें",
+  "page.share.title": "ऐसा लिंक कॉपी करें जो यह कन्वर्ज़न फिर से खोले",
+  "page.share.done": "लिंक कॉपी हो गया",
+  "page.reset": "रीसेट",
+  "page.input.placeholder":
+    "Google Drive/Docs, Dropbox, OneDrive, Box या GitHub का लिंक पेस्ट करें...",
+  "page.watch-clipboard":
+    "क्लिपबोर्ड पर नज़र रखें: नए लिंक अपने आप बदलें और कॉपी करें",
+  "page.paste-hint":
+    "या पेज पर कहीं भी पेस्ट करें (Alt+Shift+V), एक ही बार में बदलें और कॉपी करें।",
+  "page.shortcuts":
+    "शॉर्टकट: Alt+Shift+C एक्सपोर्ट लिंक कॉपी करता है, Alt+Shift+R इनपुट रीसेट करता है।",
+  "page.output": "नतीजा",
+  "page.output.empty": "एक्सपोर्ट लिंक यहाँ दिखेगा…",
+  "page.copy": "कॉपी करें",
+  "page.copied": "कॉपी हो गया",
+  "page.open": "खोलें",
+  "page.check-link": "लिंक जाँचें",
+  "page.health.export": "एक्सपोर्ट",
+  "page.health.preview": "प्रीव्यू",
+  "page.alternatives": "दूसरे प्रीव्यू",
+  "page.tip":
+    "सुझाव: प्रीव्यू के लिए Drive फ़ाइल लिंक वाला कोई भी व्यक्ति → दर्शक के रूप में शेयर होनी चाहिए।",
+  "page.preview": "प्रीव्यू",
+  "page.preview.hint": "जाँचें कि बदला हुआ लिंक काम करता है",
+  "page.file-id": "फ़ाइल ID:",
+  "page.copy-url": "URL कॉपी करें",
+  "page.copy-url.title": "प्रीव्यू URL कॉपी करें",
+  "page.empty": "प्रीव्यू के लिए लिंक पेस्ट करें",
+  "page.empty.hint":
+    "फ़ाइल का प्रकार चुनें, लिंक पेस्ट करें, और प्रीव्यू यहाँ दिखेगा।",
+  "page.important": "ज़रूरी",
+  "page.important.private":
+    "निजी Drive फ़ाइलों का प्रीव्यू नहीं दिखेगा (अनुमति चाहिए)।",
+  "page.important.cors":
+    "Drive से वीडियो/ऑडियो चलाना CORS की वजह से विफल हो सकता है।",
+  "page.important.cdn":
+    "प्रोडक्शन के लिए फ़ाइलें S3/Cloudflare R2/CDN पर रखना बेहतर है।",
+
+  "toast.failed": "पेस्ट किया गया लिंक बदला नहीं जा सका",
+  "toast.converted": "{type} लिंक बदल गया, एक्सपोर्ट URL कॉपी हो गया",
+  "toast.dismiss": "बंद करें",
+
+  "a11y.converted": "{type} का एक्सपोर्ट लिंक तैयार है",
+  "a11y.copied": "क्लिपबोर्ड पर कॉपी किया गया",
+
+  "preview.viewer": "व्यूअर",
+  "preview.viewer.auto": "अपने आप",
+  "preview.frame-title": "{type} प्रीव्यू ({viewer})",
+  "preview.fell-back":
+    "{wanted} लोड नहीं हुआ; उसकी जगह {active} दिखाया जा रहा है।",
+  "preview.none":
+    "कोई भी व्यूअर यह फ़ाइल लोड नहीं कर सका। जाँचें कि यह सार्वजनिक रूप से शेयर है।",
+  "preview.retry": "फिर कोशिश करें",
+
+  "health.checking": "जाँच हो रही है…",
+  "health.ok": "ठीक है",
+  "health.sign-in": "साइन-इन ज़रूरी",
+  "health.not-found": "नहीं मिला",
+  "health.quota": "कोटा खत्म",
+  "health.virus-scan": "वायरस-स्कैन पेज",
+  "health.wrong-type": "गलत कंटेंट टाइप",
+  "health.unreachable": "पहुँच से बाहर",
+
+  "slides.heading": "स्लाइड एक्सपोर्ट",
+  "slides.page-id": "स्लाइड पेज id",
+  "slides.page-id.first": "पहली स्लाइड",
+  "slides.embed": "एम्बेड सेटिंग",
+  "slides.autoplay": "अपने आप चलाएँ",
+  "slides.loop": "दोहराएँ",
+  "slides.delay": "अंतराल (ms)",
+  "slides.start": "शुरुआती स्लाइड",
+  "slides.start.placeholder": "1 या पेज id",
+  "docs.heading": "दस्तावेज़ एक्सपोर्ट फ़ॉर्मैट",
+  "docs.html-zip": "html (zip)",
+  "sheets.heading": "शीट एक्सपोर्ट",
+  "sheets.gid": "टैब (gid)",
+  "sheets.gid.first": "पहला टैब",
+  "sheets.orientation": "दिशा",
+  "sheets.portrait": "खड़ा",
+  "sheets.landscape": "आड़ा",
+  "sheets.fit-width": "चौड़ाई में फ़िट करें",
+  "sheets.gridlines": "ग्रिडलाइन दिखाएँ",
+  "sheets.range": "रेंज",
+  "sheets.range.placeholder": "जैसे A1:F40",
+  "options.from-link": "{value} (लिंक से)",
+
+  "embed.heading": "4) एम्बेड कोड",
+  "embed.width": "चौड़ाई",
+  "embed.height": "ऊँचाई",
+  "embed.aspect-ratio": "आस्पेक्ट रेशियो",
+  "embed.auto": "auto",
+  "embed.lazy": "धीरे-धीरे लोड करें",
+
+  "qr.heading": "5) QR कोड और छोटा लिंक",
+  "qr.export": "एक्सपोर्ट URL",
+  "qr.preview": "प्रीव्यू URL",
+  "qr.use-short": "QR कोड में छोटा लिंक इस्तेमाल करें",
+  "qr.shorten": "लिंक छोटा करें",
+  "qr.alt": "{url} का QR कोड",
+  "qr.rendering": "बन रहा है…",
+  "qr.error": "QR कोड नहीं बन सका। छोटा लिंक या कम त्रुटि सुधार आज़माएँ।",
+  "qr.size": "आकार (px)",
+  "qr.level": "त्रुटि सुधार",
+
+  "files.type": "फ़ाइल का प्रकार",
+  "files.type.auto": "अपने आप (हर लिंक से पहचानें)",
+  "files.open": "फ़ाइल खोलें",
+  "files.results.empty": "नतीजे यहाँ दिखेंगे…",
+
+  "table.line": "पंक्ति",
+  "table.type": "प्रकार",
+  "table.file-id": "फ़ाइल ID",
+  "table.export-url": "एक्सपोर्ट URL",
+  "table.preview-url": "प्रीव्यू URL",
+  "table.status": "स्थिति",
+  "table.notes": "नोट्स",
+  "table.link": "लिंक",
+
+  "batch.paste": "1) लिंक पेस्ट करें या फ़ाइल छोड़ें",
+  "batch.placeholder":
+    "हर पंक्ति में एक लिंक, या .txt / .csv फ़ाइल यहाँ छोड़ें…\nhttps://drive.google.com/file/d/…\nhttps://docs.google.com/presentation/d/…",
+  "batch.results": "2) नतीजे",
+  "batch.summary": "{count} लिंक, {failed} में त्रुटि",
+  "batch.summary.one": "1 लिंक, {failed} में त्रुटि",
+  "batch.copy-all": "सब कॉपी करें",
+  "batch.check-all": "सब जाँचें",
+
+  "rewrite.paste": "1) दस्तावेज़ पेस्ट करें या छोड़ें",
+  "rewrite.format": "फ़ॉर्मैट",
+  "rewrite.format.auto": "अपने आप ({format})",
+  "rewrite.placeholder":
+    "Markdown, HTML या CSV पेस्ट करें, या .md / .html / .csv फ़ाइल यहाँ छोड़ें…\n[स्लाइड](https://docs.google.com/presentation/d/…/edit)",
+  "rewrite.results": "2) बदला हुआ दस्तावेज़",
+  "rewrite.summary": "{changed} बदले, {skipped} छोड़े, {failed} विफल",
+  "rewrite.no-links": "बदलने लायक कोई लिंक नहीं मिला।",
+  "rewrite.download": "डाउनलोड करें",
+  "rewrite.status.changed": "बदला",
+  "rewrite.status.skipped": "छोड़ा",
+  "rewrite.status.failed": "विफल",
+  "rewrite.was": "पहले: {url}",
+
+  "history.search": "नाम, लिंक या फ़ाइल ID से खोजें…",
+  "history.all-types": "सभी प्रकार",
+  "history.pinned": "पिन किए गए",
+  "history.name.placeholder": "इस लिंक को नाम दें…",
+  "history.restore": "कन्वर्टर में खोलें",
+  "history.copy": "एक्सपोर्ट URL कॉपी करें",
+  "history.pin": "पिन करें",
+  "history.unpin": "पिन हटाएँ",
+  "history.rename": "नाम बदलें",
+  "history.delete": "हटाएँ",
+  "history.no-matches": "कुछ नहीं मिला",
+  "history.no-matches.hint": "कोई दूसरी खोज या फ़िल्टर आज़माएँ।",
+  "history.empty": "अभी तक कोई कन्वर्ज़न नहीं",
+  "history.empty.hint":
+    "आप जो लिंक बदलते हैं, वे इसी डिवाइस पर यहाँ सेव होते हैं।",
+
+  // Library messages (lib/messages.ts)
+  "type.ppt.label": "PPT / PPTX",
+  "type.ppt.hint": "Microsoft Office व्यूअर इस्तेमाल करता है",
+  "type.ppt.description":
+    "PowerPoint प्रेज़ेंटेशन - प्रस्तुति के लिए स्लाइडशो फ़ॉर्मैट",
+  "type.pdf.label": "PDF",
+  "type.pdf.hint": "PDF व्यूअर (iframe) इस्तेमाल करता है",
+  "type.pdf.description":
+    "Portable Document Format - दस्तावेज़ देखने और शेयर करने का सार्वभौमिक फ़ॉर्मैट",
+  "type.doc.label": "दस्तावेज़",
+  "type.doc.hint": "pdf, docx, odt, epub, md…",
+  "type.doc.description":
+    "टेक्स्ट दस्तावेज़ - Google Docs को Word, OpenDocument, RTF, सादा टेक्स्ट, EPUB, HTML या Markdown में एक्सपोर्ट करें",
+  "type.sheet.label": "शीट",
+  "type.sheet.hint": "xlsx, csv, tsv, ods, pdf",
+  "type.sheet.description":
+    "स्प्रेडशीट - Google Sheets को Excel, CSV/TSV, OpenDocument या PDF में एक्सपोर्ट करें",
+  "type.image.label": "चित्र",
+  "type.image.hint": "<img /> इस्तेमाल करता है",
+  "type.image.description":
+    "चित्र फ़ाइल - कई फ़ॉर्मैट में तस्वीरें और ग्राफ़िक्स (PNG, JPG, GIF आदि)",
+  "type.video.label": "वीडियो",
+  "type.video.hint": "<video /> इस्तेमाल करता है",
+  "type.video.description":
+    "वीडियो फ़ाइल - MP4, WebM जैसे फ़ॉर्मैट में चलचित्र",
+  "type.audio.label": "ऑडियो",
+  "type.audio.hint": "<audio /> इस्तेमाल करता है",
+  "type.audio.description":
+    "ऑडियो फ़ाइल - MP3, WAV, OGG जैसे फ़ॉर्मैट में ध्वनि",
+
+  "viewer.default": "डिफ़ॉल्ट",
+  "viewer.drive": "Drive प्रीव्यू",
+  "viewer.gview": "Google Docs व्यूअर",
+  "viewer.office": "Microsoft व्यूअर",
+  "viewer.native": "ब्राउज़र",
+  "viewer.thumbnail": "Drive थंबनेल",
+
+  "action.set-type": "{type} पर जाएँ",
+  "action.set-viewer": "{viewer} इस्तेमाल करें",
+  "action.set-large-file.on": "बड़ी फ़ाइल वाला डाउनलोड लिंक इस्तेमाल करें",
+  "action.set-large-file.off": "सामान्य डाउनलोड लिंक इस्तेमाल करें",
+
+  "detect.slides": "Google Slides लिंक (/presentation/d/)",
+  "detect.docs": "Google Docs लिंक (/document/d/)",
+  "detect.sheets": "Google Sheets लिंक (/spreadsheets/d/)",
+  "detect.drawings": "Google Drawings लिंक (/drawings/d/)",
+  "detect.forms": "Google Forms लिंक (/forms/d/), पेज के रूप में एम्बेड",
+  "detect.thumbnail": "Drive थंबनेल लिंक (/thumbnail?id=)",
+  "detect.mime": "क्वेरी में {param}={value}",
+  "detect.sharepoint": "SharePoint लिंक में /:{office}:/",
+  "detect.extension": ".{ext} फ़ाइल एक्सटेंशन",
+  "detect.fallback": "लिंक में प्रकार का कोई संकेत नहीं; PDF मान लिया गया",
+
+  "health-check.ok": "पहुँच योग्य।",
+  "health-check.timeout": "समय सीमा से पहले कोई जवाब नहीं मिला।",
+  "health-check.request-failed":
+    "अनुरोध विफल रहा ({error})। ब्राउज़र में आम तौर पर यह CORS की वजह से होता है; प्रॉक्सी से जाँचें।",
+  "health-check.read-failed": "जवाब पढ़ा नहीं जा सका ({error})।",
+  "health-check.sign-in-redirect":
+    "Google साइन-इन पर भेजा गया: फ़ाइल सार्वजनिक नहीं है।",
+  "health-check.access-denied":
+    "पहुँच नहीं मिली: फ़ाइल को लिंक वाला कोई भी व्यक्ति → दर्शक के रूप में शेयर करें।",
+  "health-check.not-found":
+    "Google के अनुसार फ़ाइल मौजूद नहीं है (या हटा दी गई है)।",
+  "health-check.too-many-requests":
+    "बहुत ज़्यादा अनुरोध: डाउनलोड कोटा खत्म हो गया है। बाद में फिर कोशिश करें।",
+  "health-check.http-error": "सर्वर ने HTTP {status} लौटाया।",
+  "health-check.wrong-type":
+    "{contentType} मिला, जो चुने गए प्रकार जैसा नहीं लगता।",
+  "health-check.no-content-type":
+    "कोई कंटेंट टाइप नहीं मिला, जो चुने गए प्रकार जैसा नहीं लगता।",
+  "health-check.virus-scan":
+    "Google फ़ाइल की जगह बड़ी फ़ाइलों वाला वायरस-स्कैन पुष्टि पेज दिखाता है। इसे छोड़ने के लिए बड़ी फ़ाइल मोड चालू करें।",
+  "health-check.quota":
+    "इस फ़ाइल का डाउनलोड कोटा खत्म हो गया है। बाद में कोशिश करें या एक कॉपी बनाएँ।",
+  "health-check.sign-in":
+    "Google साइन इन करने या पहुँच माँगने को कहता है: फ़ाइल सार्वजनिक नहीं है।",
+  "health-check.page": "फ़ाइल की जगह एक वेब पेज मिला।",
+
+  "rewrite.direct-link": "यह पहले से सीधा लिंक है।",
+  "rewrite.no-export": "इस प्रकार के लिए कोई एक्सपोर्ट लिंक नहीं है।",
+
+  "shorten.request-failed": "शॉर्टनर तक नहीं पहुँच सके ({error})।",
+  "shorten.http-error": "शॉर्टनर ने HTTP {status} लौटाया।",
+  "shorten.no-short-url": "शॉर्टनर के जवाब में कोई छोटा लिंक नहीं था।",
+
+  "empty-input": "पहले कोई लिंक पेस्ट करें।",
+  "no-link": "इस पंक्ति में कोई लिंक नहीं मिला।",
+  "no-file-id": "यह Google लिंक लगता है, पर फ़ाइल ID नहीं निकल सकी।",
+  "no-file-id.fix": "कृपया पूरा Drive/Docs लिंक पेस्ट करें।",
+  "no-shared-file":
+    "यह {provider} लिंक लगता है, पर इसमें कोई शेयर की गई फ़ाइल नहीं मिली।",
+  "no-shared-file.fix": "फ़ाइल का शेयर लिंक पेस्ट करें।",
+  "folder-link":
+    "यह Google Drive फ़ोल्डर का लिंक है, फ़ाइल का नहीं। फ़ोल्डर एक्सपोर्ट नहीं हो सकते।",
+  "folder-link.fix":
+    "फ़ोल्डर खोलें और उसके अंदर की किसी फ़ाइल का लिंक कॉपी करें।",
+  "folder-link.shared-drive":
+    "यह Google Drive शेयर्ड ड्राइव का लिंक है, फ़ाइल का नहीं। फ़ोल्डर एक्सपोर्ट नहीं हो सकते।",
+  "folder-link.shared-drive.fix":
+    "शेयर्ड ड्राइव खोलें और उसके अंदर की किसी फ़ाइल का लिंक कॉपी करें।",
+  "unsupported-type": "यह प्रकार समर्थित नहीं है।",
+  "invalid-url": "यह लिंक जैसा नहीं लगता।",
+  "invalid-url.fix": "https:// से शुरू होने वाला पूरा पता पेस्ट करें।",
+  "unsafe-scheme": "{scheme} लिंक बदले या प्रीव्यू नहीं किए जा सकते।",
+  "unsafe-scheme.fix": "फ़ाइल का https:// शेयर लिंक पेस्ट करें।",
+  "no-preview": "इस लिंक में प्रीव्यू के लिए कुछ नहीं है।",
+  "no-preview.fix": "इसके बजाय एक्सपोर्ट लिंक खोलें।",
+  "preview-failed": "कोई भी व्यूअर यह फ़ाइल लोड नहीं कर सका।",
+  "preview-failed.fix":
+    "जाँचें कि यह लिंक वाले किसी भी व्यक्ति के साथ शेयर है।",
+
+  "type-mismatch": "यह {type} लगता है ({reason})।",
+  "type-mismatch.fix": "लिंक काम न करे तो वह प्रकार या अपने आप आज़माएँ।",
+  "original-format.doc":
+    "यह Drive फ़ाइल है, Google Doc नहीं: यह अपने मूल फ़ॉर्मैट में डाउनलोड होगी।",
+  "original-format.doc.fix":
+    "फ़ॉर्मैट विकल्प केवल docs.google.com/document लिंक पर लागू होते हैं।",
+  "original-format.sheet":
+    "यह Drive फ़ाइल है, Google Sheet नहीं: यह अपने मूल फ़ॉर्मैट में डाउनलोड होगी।",
+  "original-format.sheet.fix":
+    "फ़ॉर्मैट विकल्प केवल docs.google.com/spreadsheets लिंक पर लागू होते हैं।",
+  "single-slide": "चित्र एक्सपोर्ट में केवल पहली स्लाइड होती है।",
+  "single-slide.fix":
+    "जिस स्लाइड को चाहते हैं उसे चुनकर (#slide=id.…) लिंक कॉपी करें या उसका पेज id डालें।",
+  "single-tab": "{format} केवल पहला टैब एक्सपोर्ट करता है।",
+  "single-tab.fix":
+    "जो टैब चाहिए उसे खोलकर लिंक कॉपी करें, तब वही एक्सपोर्ट होगा।",
+  "range-needs-gid": "रेंज एक ही टैब पर लागू होती है।",
+  "range-needs-gid.fix": "टैब का gid शामिल करें।",
+  "gid-ignored":
+    "{format} एक्सपोर्ट में सभी टैब होते हैं; gid केवल CSV, TSV और PDF पर असर डालता है।",
+  "media-playback.video":
+    "Drive वीडियो का सीधा प्लेबैक CORS और फ़ाइल अनुमतियों पर निर्भर है।",
+  "media-playback.video.fix":
+    "अगर न चले, तो CDN पर होस्ट करें या स्ट्रीमिंग सर्वर इस्तेमाल करें।",
+  "media-playback.audio":
+    "Drive ऑडियो का सीधा प्लेबैक अनुमतियों और ब्राउज़र के समर्थन पर निर्भर है।",
+  "published-link":
+    "यह वेब पर प्रकाशित लिंक है (फ़ाइल → शेयर करें → वेब पर प्रकाशित करें)। Google केवल प्रकाशित रूप दिखाता है, फ़ाइल डाउनलोड नहीं।",
+  "published-link.sheets":
+    "यह वेब पर प्रकाशित लिंक है (फ़ाइल → शेयर करें → वेब पर प्रकाशित करें)।",
+  "folder-zip":
+    "यह Dropbox फ़ोल्डर है: लिंक इसे ZIP के रूप में डाउनलोड करता है।",
+  "sharing-required.sharepoint":
+    "SharePoint लिंक तभी डाउनलोड होते हैं जब संस्था गुमनाम शेयरिंग की अनुमति देती है।",
+  "sharing-required.box":
+    'Box के सीधे लिंक के लिए शेयर लिंक "People with the link" पर होना चाहिए; कुछ प्लान में ये बंद होते हैं।',
+  "insecure-http":
+    "यह लिंक सादा http इस्तेमाल करता है: https पेजों में ब्राउज़र इसे रोकते हैं और इसमें छेड़छाड़ हो सकती है।",
+  "insecure-http.fix": "अगर साइट पर हो तो लिंक का https:// रूप इस्तेमाल करें।",
+  "credentials-in-url":
+    "लिंक में होस्ट से पहले यूज़र नाम या पासवर्ड है; यह असल में {host} पर जाता है।",
+  "credentials-in-url.fix":
+    "इसे तभी इस्तेमाल करें जब आपको उस होस्ट पर भरोसा हो।",
+
+  "not-google":
+    "यह Google Drive लिंक नहीं है। इसे जैसा है वैसा ही इस्तेमाल किया गया।",
+  "provider-link": "{provider} शेयर लिंक को सीधे लिंक में बदला गया।",
+  "export-format": "एक्सपोर्ट URL {format} के रूप में डाउनलोड करता है।",
+  "export-format.html-zip":
+    "एक्सपोर्ट URL HTML पेज और उसके चित्रों वाली ZIP डाउनलोड करता है।",
+  "export-format.drawing":
+    "एक्सपोर्ट URL ड्रॉइंग को {format} के रूप में डाउनलोड करता है।",
+  "export-format.published":
+    "एक्सपोर्ट URL प्रकाशित डेटा को {format} के रूप में डाउनलोड करता है; PDF लेआउट विकल्प लागू नहीं होते।",
+  "preview-viewer.docs-viewer": "प्रीव्यू Google Docs व्यूअर से है।",
+  "preview-viewer.docs-viewer-public":
+    "प्रीव्यू Google Docs व्यूअर से है; URL सार्वजनिक होना चाहिए।",
+  "preview-viewer.office-public":
+    "प्रीव्यू Microsoft Office व्यूअर से है; URL सार्वजनिक होना चाहिए।",
+  "preview-viewer.slides": "प्रीव्यू Google Slides एम्बेड से है।",
+  "preview-viewer.docs": "प्रीव्यू Google Docs प्रीव्यू से है।",
+  "preview-viewer.sheets": "प्रीव्यू Google Sheets प्रीव्यू से है।",
+  "preview-viewer.published-slides": "प्रीव्यू प्रकाशित Slides एम्बेड से है।",
+  "preview-viewer.published-page": "प्रीव्यू में प्रकाशित पेज एम्बेड है।",
+  "pick-viewer": "PPT जैसा प्रीव्यू चाहिए तो Microsoft व्यूअर चुनें।",
+  "preview-switched": "प्रीव्यू {viewer} पर बदला गया।",
+  "all-slides":
+    "PDF में सभी स्लाइड होती हैं; Google के एक्सपोर्ट में पेज-रेंज का विकल्प नहीं है।",
+  "all-slides.fix": "एक स्लाइड के लिए PNG/JPEG/SVG इस्तेमाल करें।",
+  "slide-page": "केवल id {pageId} वाली स्लाइड एक्सपोर्ट होती है।",
+  "sheet-tabs": "gid={gid} वाला टैब एक्सपोर्ट होता है।",
+  "sheet-tabs.pdf": "PDF में gid={gid} वाला टैब है।",
+  "sheet-tabs.pdf-all": "PDF में सभी टैब हैं।",
+  "image-only": "यह तभी अच्छा काम करता है जब Drive फ़ाइल सच में चित्र हो।",
+  "image-only.fix":
+    "अगर काम न करे, तो शायद फ़ाइल चित्र नहीं है या सार्वजनिक नहीं है।",
+  "form-link": "Google Forms डाउनलोड नहीं हो सकते; लिंक फ़ॉर्म खोलता है।",
+  "drawing-formats":
+    "ड्रॉइंग /export/svg, /export/jpeg और /export/pdf के रूप में भी एक्सपोर्ट होती हैं।",
+  "large-file":
+    "बड़ी फ़ाइल मोड: लिंक drive.usercontent.google.com से confirm=t के साथ डाउनलोड करता है, और ~100 MB से बड़ी फ़ाइलों पर Google का वायरस-स्कैन पेज छोड़ देता है। बदले में Google इन डाउनलोड को वायरस के लिए स्कैन नहीं करता, और यह URL रूप दस्तावेज़ित नहीं है, बदल सकता है।",
+  "raw-text":
+    "raw.githubusercontent.com टेक्स्ट फ़ाइलें सादे टेक्स्ट के रूप में देता है, इसलिए HTML नहीं दिखेगा।",
+  "resource-key":
+    "लिंक की resourcekey रखी गई; पुरानी शेयर की गई फ़ाइलों को इसकी ज़रूरत होती है।",
+  "must-be-public":
+    "लिंक के काम करने के लिए फ़ाइल सार्वजनिक रूप से शेयर होनी चाहिए।",
+  "must-be-public.share":
+    "पक्का करें कि फ़ाइल सार्वजनिक रूप से शेयर है (लिंक वाला कोई भी व्यक्ति → दर्शक)।",
+  "must-be-public.ppt": "PPT प्रीव्यू के लिए URL सार्वजनिक होना चाहिए।",
+  "must-be-public.pdf":
+    "अगर PDF न दिखे, तो जाँचें कि लिंक सार्वजनिक है और सीधी पहुँच देता है।",
+  "must-be-public.form":
+    "प्रीव्यू में फ़ॉर्म एम्बेड है। इसे लिंक वाले किसी भी व्यक्ति से जवाब स्वीकार करने चाहिए।",
+  "must-be-public.github":
+    "निजी रिपॉज़िटरी के लिए टोकन चाहिए; raw लिंक केवल सार्वजनिक रिपॉज़िटरी के लिए काम करता है।",
+};
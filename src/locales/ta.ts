@@ -0,0 +1,405 @@
+import type { Catalogue } from "../lib";
+
+// தமிழ்
+
+export const ta: Catalogue = {
+  "app.title": "Google Drive இணைப்பு மாற்றி",
+  "app.tagline":
+    "Drive/Docs இணைப்புகளை ஏற்றுமதி செய்யக்கூடிய URL-களாக மாற்றி, பயன்படுத்தும் முன் முன்னோட்டம் பாருங்கள்.",
+  "app.language": "மொழி",
+
+  "mode.single": "ஒரு இணைப்பு",
+  "mode.batch": "பல இணைப்புகள்",
+  "mode.rewrite": "ஆவணத்தை மாற்றி எழுது",
+  "mode.history": "வரலாறு",
+
+  "type.auto.label": "தானியங்கி",
+  "type.auto.hint": "இணைப்பிலிருந்து கண்டறி",
+
+  "step.type": "1) கோப்பு வகையைத் தேர்ந்தெடுங்கள்",
+  "step.type.hint": "ஏற்றுமதி + முன்னோட்டத்தைப் பாதிக்கும்",
+  "step.paste": "2) இணைப்பை ஒட்டுங்கள்",
+  "step.output": "3) ஏற்றுமதி இணைப்பு",
+
+  "page.detected": "கண்டறியப்பட்டது: {type} — {reason}.",
+  "page.large-file":
+    "பெரிய கோப்பு பதிவிறக்கம்: Google-இன் வைரஸ் சோதனைப் பக்கத்தைத் தவிர் (கோப்பு சோதிக்கப்படாது)",
+  "page.share": "பகிர்",
+  "page.share.title": "இந்த மாற்றத்தை மீண்டும் திறக்கும் இணைப்பை நகலெடு",
+  "page.share.done": "இணைப்பு நகலெடுக்கப்பட்டது",
+  "page.reset": "மீட்டமை",
+  "page.input.placeholder":
+    "Google Drive/Docs, Dropbox, OneDrive, Box அல்லது GitHub இணைப்பை ஒட்டுங்கள்...",
+  "page.watch-clipboard":
+    "கிளிப்போர்டைக் கவனி: புதிய இணைப்புகளைத் தானாக மாற்றி நகலெடு",
+  "page.paste-hint":
+    "அல்லது பக்கத்தில் எங்கும் ஒட்டுங்கள் (Alt+Shift+V), ஒரே படியில் மாற்றி நகலெடுக்கலாம்.",
+  "page.shortcuts":
+    "குறுக்குவழிகள்: Alt+Shift+C ஏற்றுமதி இணைப்பை நகலெடுக்கும், Alt+Shift+R உள்ளீட்டை மீட்டமைக்கும்.",
+  "page.output": "வெளியீடு",
+  "page.output.empty": "ஏற்றுமதி இணைப்பு இங்கே தோன்றும்…",
+  "page.copy": "நகலெடு",
+  "page.copied": "நகலெடுக்கப்பட்டது",
+  "page.open": "திற",
+  "page.check-link": "இணைப்பைச் சரிபார்",
+  "page.health.export": "ஏற்றுமதி",
+  "page.health.preview": "முன்னோட்டம்",
+  "page.alternatives": "பிற முன்னோட்டங்கள்",
+  "page.tip":
+    "குறிப்பு: முன்னோட்டம் வேலை செய்ய, Drive கோப்பு இணைப்பு உள்ள எவரும் → பார்வையாளர் எனப் பகிரப்பட வேண்டும்.",
+  "page.preview": "முன்னோட்டம்",
+  "page.preview.hint": "மாற்றிய இணைப்பு வேலை செய்கிறதா எனச் சரிபாருங்கள்",
+  "page.file-id": "கோப்பு ID:",
+  "page.copy-url": "URL-ஐ நகலெடு",
+  "page.copy-url.title": "முன்னோட்ட URL-ஐ நகலெடு",
+  "page.empty": "முன்னோட்டத்திற்கு ஒரு இணைப்பை ஒட்டுங்கள்",
+  "page.empty.hint":
+    "கோப்பு வகையைத் தேர்ந்தெடுத்து, இணைப்பை ஒட்டுங்கள்; முன்னோட்டம் இங்கே தெரியும்.",
+  "page.important": "முக்கியம்",
+  "page.important.private":
+    "தனிப்பட்ட Drive கோப்புகளுக்கு முன்னோட்டம் தெரியாது (அனுமதி தேவை).",
+  "page.important.cors":
+    "Drive-இலிருந்து வீடியோ/ஆடியோ இயக்கம் CORS காரணமாகத் தோல்வியடையலாம்.",
+  "page.important.cdn":
+    "நேரடிப் பயன்பாட்டிற்கு, கோப்புகளை S3/Cloudflare R2/CDN-இல் சேமிப்பது நல்லது.",
+
+  "toast.failed": "ஒட்டிய இணைப்பை மாற்ற முடியவில்லை",
+  "toast.converted":
+    "{type} இணைப்பு மாற்றப்பட்டது, ஏற்றுமதி URL நகலெடுக்கப்பட்டது",
+  "toast.dismiss": "மூடு",
+
+  "a11y.converted": "{type} ஏற்றுமதி இணைப்பு தயார்",
+  "a11y.copied": "கிளிப்போர்டுக்கு நகலெடுக்கப்பட்டது",
+
+  "preview.viewer": "காட்டி",
+  "preview.viewer.auto": "தானியங்கி",
+  "preview.frame-title": "{type} முன்னோட்டம் ({viewer})",
+  "preview.fell-back":
+    "{wanted} ஏறவில்லை; அதற்குப் பதில் {active} காட்டப்படுகிறது.",
+  "preview.none":
+    "எந்தக் காட்டியாலும் இந்தக் கோப்பைத் திறக்க முடியவில்லை. அது பொதுவில் பகிரப்பட்டுள்ளதா எனச் சரிபாருங்கள்.",
+  "preview.retry": "மீண்டும் முயல்",
+
+  "health.checking": "சரிபார்க்கிறது…",
+  "health.ok": "சரி",
+  "health.sign-in": "உள்நுழைவு தேவை",
+  "health.not-found": "கிடைக்கவில்லை",
+  "health.quota": "ஒதுக்கீடு தீர்ந்தது",
+  "health.virus-scan": "வைரஸ் சோதனைப் பக்கம்",
+  "health.wrong-type": "தவறான உள்ளடக்க வகை",
+  "health.unreachable": "அணுக முடியவில்லை",
+
+  "slides.heading": "ஸ்லைடு ஏற்றுமதி",
+  "slides.page-id": "ஸ்லைடு பக்க id",
+  "slides.page-id.first": "முதல் ஸ்லைடு",
+  "slides.embed": "உட்பொதிப்பு அமைப்புகள்",
+  "slides.autoplay": "தானாக இயக்கு",
+  "slides.loop": "மீண்டும் மீண்டும்",
+  "slides.delay": "இடைவெளி (ms)",
+  "slides.start": "தொடக்க ஸ்லைடு",
+  "slides.start.placeholder": "1 அல்லது பக்க id",
+  "docs.heading": "ஆவண ஏற்றுமதி வடிவம்",
+  "docs.html-zip": "html (zip)",
+  "sheets.heading": "தாள் ஏற்றுமதி",
+  "sheets.gid": "தாவல் (gid)",
+  "sheets.gid.first": "முதல் தாவல்",
+  "sheets.orientation": "திசை",
+  "sheets.portrait": "நீளவாக்கு",
+  "sheets.landscape": "அகலவாக்கு",
+  "sheets.fit-width": "அகலத்திற்குப் பொருத்து",
+  "sheets.gridlines": "கட்டக் கோடுகளைக் காட்டு",
+  "sheets.range": "வரம்பு",
+  "sheets.range.placeholder": "எ.கா. A1:F40",
+  "options.from-link": "{value} (இணைப்பிலிருந்து)",
+
+  "embed.heading": "4) உட்பொதிப்புக் குறியீடு",
+  "embed.width": "அகலம்",
+  "embed.height": "உயரம்",
+  "embed.aspect-ratio": "விகிதம்",
+  "embed.auto": "auto",
+  "embed.lazy": "தாமதமாக ஏற்று",
+
+  "qr.heading": "5) QR குறியீடு & சுருக்க இணைப்பு",
+  "qr.export": "ஏற்றுமதி URL",
+  "qr.preview": "முன்னோட்ட URL",
+  "qr.use-short": "QR குறியீட்டில் சுருக்க இணைப்பைப் பயன்படுத்து",
+  "qr.shorten": "இணைப்பைச் சுருக்கு",
+  "qr.alt": "{url} க்கான QR குறியீடு",
+  "qr.rendering": "உருவாக்குகிறது…",
+  "qr.error":
+    "QR குறியீட்டை உருவாக்க முடியவில்லை. சுருக்கிய இணைப்பையோ குறைந்த பிழைத் திருத்தத்தையோ முயற்சிக்கவும்.",
+  "qr.size": "அளவு (px)",
+  "qr.level": "பிழைத் திருத்தம்",
+
+  "files.type": "கோப்பு வகை",
+  "files.type.auto": "தானியங்கு (ஒவ்வொரு இணைப்பிலும் கண்டறி)",
+  "files.open": "கோப்பைத் திற",
+  "files.results.empty": "முடிவுகள் இங்கே தோன்றும்…",
+
+  "table.line": "வரி",
+  "table.type": "வகை",
+  "table.file-id": "கோப்பு ID",
+  "table.export-url": "ஏற்றுமதி URL",
+  "table.preview-url": "முன்னோட்ட URL",
+  "table.status": "நிலை",
+  "table.notes": "குறிப்புகள்",
+  "table.link": "இணைப்பு",
+
+  "batch.paste": "1) இணைப்புகளை ஒட்டுங்கள் அல்லது கோப்பை இழுத்து விடுங்கள்",
+  "batch.placeholder":
+    "ஒரு வரிக்கு ஒரு இணைப்பு, அல்லது .txt / .csv கோப்பை இங்கே இழுத்து விடுங்கள்…\nhttps://drive.google.com/file/d/…\nhttps://docs.google.com/presentation/d/…",
+  "batch.results": "2) முடிவுகள்",
+  "batch.summary": "{count} இணைப்புகள், {failed} பிழையுடன்",
+  "batch.summary.one": "1 இணைப்பு, {failed} பிழையுடன்",
+  "batch.copy-all": "அனைத்தையும் நகலெடு",
+  "batch.check-all": "அனைத்தையும் சரிபார்",
+
+  "rewrite.paste": "1) ஆவணத்தை ஒட்டுங்கள் அல்லது இழுத்து விடுங்கள்",
+  "rewrite.format": "வடிவம்",
+  "rewrite.format.auto": "தானியங்கு ({format})",
+  "rewrite.placeholder":
+    "Markdown, HTML அல்லது CSV-ஐ ஒட்டுங்கள், அல்லது .md / .html / .csv கோப்பை இங்கே இழுத்து விடுங்கள்…\n[ஸ்லைடுகள்](https://docs.google.com/presentation/d/…/edit)",
+  "rewrite.results": "2) மாற்றி எழுதிய ஆவணம்",
+  "rewrite.summary":
+    "{changed} மாற்றப்பட்டன, {skipped} தவிர்க்கப்பட்டன, {failed} தோல்வி",
+  "rewrite.no-links": "மாற்றக்கூடிய இணைப்புகள் எதுவும் இல்லை.",
+  "rewrite.download": "பதிவிறக்கு",
+  "rewrite.status.changed": "மாற்றப்பட்டது",
+  "rewrite.status.skipped": "தவிர்க்கப்பட்டது",
+  "rewrite.status.failed": "தோல்வி",
+  "rewrite.was": "முன்பு: {url}",
+
+  "history.search": "பெயர், இணைப்பு அல்லது கோப்பு ID மூலம் தேடு…",
+  "history.all-types": "அனைத்து வகைகளும்",
+  "history.pinned": "பொருத்தியவை",
+  "history.name.placeholder": "இந்த இணைப்புக்குப் பெயரிடு…",
+  "history.restore": "மாற்றியில் திற",
+  "history.copy": "ஏற்றுமதி URL-ஐ நகலெடு",
+  "history.pin": "பொருத்து",
+  "history.unpin": "பொருத்தத்தை நீக்கு",
+  "history.rename": "மறுபெயரிடு",
+  "history.delete": "நீக்கு",
+  "history.no-matches": "பொருத்தம் இல்லை",
+  "history.no-matches.hint": "வேறு தேடல் அல்லது வடிகட்டியை முயலுங்கள்.",
+  "history.empty": "இன்னும் மாற்றங்கள் இல்லை",
+  "history.empty.hint":
+    "நீங்கள் மாற்றும் இணைப்புகள் இந்தச் சாதனத்தில் இங்கே சேமிக்கப்படும்.",
+
+  // Library messages (lib/messages.ts)
+  "type.ppt.label": "PPT / PPTX",
+  "type.ppt.hint": "Microsoft Office காட்டியைப் பயன்படுத்தும்",
+  "type.ppt.description":
+    "PowerPoint விளக்கக்காட்சி - விளக்கக்காட்சிகளுக்கான ஸ்லைடுஷோ வடிவம்",
+  "type.pdf.label": "PDF",
+  "type.pdf.hint": "PDF காட்டியைப் (iframe) பயன்படுத்தும்",
+  "type.pdf.description":
+    "Portable Document Format - ஆவணங்களைப் பார்க்கவும் பகிரவும் உலகளாவிய வடிவம்",
+  "type.doc.label": "ஆவணம்",
+  "type.doc.hint": "pdf, docx, odt, epub, md…",
+  "type.doc.description":
+    "உரை ஆவணம் - Google Docs-ஐ Word, OpenDocument, RTF, வெற்று உரை, EPUB, HTML அல்லது Markdown ஆக ஏற்றுமதி செய்யலாம்",
+  "type.sheet.label": "தாள்கள்",
+  "type.sheet.hint": "xlsx, csv, tsv, ods, pdf",
+  "type.sheet.description":
+    "விரிதாள் - Google Sheets-ஐ Excel, CSV/TSV, OpenDocument அல்லது PDF ஆக ஏற்றுமதி செய்யலாம்",
+  "type.image.label": "படம்",
+  "type.image.hint": "<img /> பயன்படுத்தும்",
+  "type.image.description":
+    "படக் கோப்பு - பல வடிவங்களில் படங்களும் வரைகலைகளும் (PNG, JPG, GIF போன்றவை)",
+  "type.video.label": "வீடியோ",
+  "type.video.hint": "<video /> பயன்படுத்தும்",
+  "type.video.description":
+    "வீடியோ கோப்பு - MP4, WebM போன்ற வடிவங்களில் நகரும் படங்கள்",
+  "type.audio.label": "ஆடியோ",
+  "type.audio.hint": "<audio /> பயன்படுத்தும்",
+  "type.audio.description":
+    "ஆடியோ கோப்பு - MP3, WAV, OGG போன்ற வடிவங்களில் ஒலி",
+
+  "viewer.default": "இயல்புநிலை",
+  "viewer.drive": "Drive முன்னோட்டம்",
+  "viewer.gview": "Google Docs காட்டி",
+  "viewer.office": "Microsoft காட்டி",
+  "viewer.native": "உலாவி",
+  "viewer.thumbnail": "Drive சிறுபடம்",
+
+  "action.set-type": "{type} க்கு மாற்று",
+  "action.set-viewer": "{viewer} பயன்படுத்து",
+  "action.set-large-file.on": "பெரிய கோப்புப் பதிவிறக்க இணைப்பைப் பயன்படுத்து",
+  "action.set-large-file.off": "வழக்கமான பதிவிறக்க இணைப்பைப் பயன்படுத்து",
+
+  "detect.slides": "Google Slides இணைப்பு (/presentation/d/)",
+  "detect.docs": "Google Docs இணைப்பு (/document/d/)",
+  "detect.sheets": "Google Sheets இணைப்பு (/spreadsheets/d/)",
+  "detect.drawings": "Google Drawings இணைப்பு (/drawings/d/)",
+  "detect.forms": "Google Forms இணைப்பு (/forms/d/), பக்கமாக உட்பொதிக்கப்படும்",
+  "detect.thumbnail": "Drive சிறுபட இணைப்பு (/thumbnail?id=)",
+  "detect.mime": "வினவலில் {param}={value}",
+  "detect.sharepoint": "SharePoint இணைப்பில் /:{office}:/",
+  "detect.extension": ".{ext} கோப்பு நீட்டிப்பு",
+  "detect.fallback": "இணைப்பில் வகைக் குறிப்பு இல்லை; PDF எனக் கொள்ளப்பட்டது",
+
+  "health-check.ok": "அணுகக்கூடியது.",
+  "health-check.timeout": "காலவரம்புக்குள் பதில் வரவில்லை.",
+  "health-check.request-failed":
+    "கோரிக்கை தோல்வியடைந்தது ({error}). உலாவியில் இது பெரும்பாலும் CORS காரணமாக; ஒரு ப்ராக்ஸி வழியாகச் சரிபாருங்கள்.",
+  "health-check.read-failed": "பதிலைப் படிக்க முடியவில்லை ({error}).",
+  "health-check.sign-in-redirect":
+    "Google உள்நுழைவுக்குத் திருப்பிவிடப்பட்டது: கோப்பு பொதுவில் இல்லை.",
+  "health-check.access-denied":
+    "அணுகல் மறுக்கப்பட்டது: கோப்பை இணைப்பு உள்ள எவரும் → பார்வையாளர் எனப் பகிருங்கள்.",
+  "health-check.not-found":
+    "கோப்பு இல்லை (அல்லது நீக்கப்பட்டது) என Google சொல்கிறது.",
+  "health-check.too-many-requests":
+    "அதிகமான கோரிக்கைகள்: பதிவிறக்க ஒதுக்கீடு தீர்ந்தது. பிறகு முயலுங்கள்.",
+  "health-check.http-error": "சேவையகம் HTTP {status} எனப் பதிலளித்தது.",
+  "health-check.wrong-type":
+    "{contentType} கிடைத்தது; இது தேர்ந்தெடுத்த வகை போலத் தெரியவில்லை.",
+  "health-check.no-content-type":
+    "உள்ளடக்க வகை எதுவும் கிடைக்கவில்லை; இது தேர்ந்தெடுத்த வகை போலத் தெரியவில்லை.",
+  "health-check.virus-scan":
+    "கோப்புக்குப் பதிலாக Google தனது பெரிய கோப்பு வைரஸ் சோதனை உறுதிப்படுத்தல் பக்கத்தைக் காட்டுகிறது. அதைத் தவிர்க்கப் பெரிய கோப்பு முறையை இயக்குங்கள்.",
+  "health-check.quota":
+    "இந்தக் கோப்பின் பதிவிறக்க ஒதுக்கீடு தீர்ந்தது. பிறகு முயலுங்கள் அல்லது ஒரு நகலை உருவாக்குங்கள்.",
+  "health-check.sign-in":
+    "Google உள்நுழையவோ அணுகல் கோரவோ கேட்கிறது: கோப்பு பொதுவில் இல்லை.",
+  "health-check.page": "கோப்புக்குப் பதிலாக ஒரு வலைப்பக்கம் கிடைத்தது.",
+
+  "rewrite.direct-link": "ஏற்கனவே நேரடி இணைப்பு.",
+  "rewrite.no-export": "இந்த வகைக்கு ஏற்றுமதி இணைப்பு இல்லை.",
+
+  "shorten.request-failed": "சுருக்கியை அணுக முடியவில்லை ({error}).",
+  "shorten.http-error": "சுருக்கி HTTP {status} என்று பதிலளித்தது.",
+  "shorten.no-short-url": "சுருக்கியின் பதிலில் சுருக்கிய இணைப்பு இல்லை.",
+
+  "empty-input": "முதலில் ஒரு இணைப்பை ஒட்டுங்கள்.",
+  "no-link": "இந்த வரியில் இணைப்பு எதுவும் இல்லை.",
+  "no-file-id":
+    "இது Google இணைப்பு போலத் தெரிகிறது, ஆனால் கோப்பு ID-ஐ எடுக்க முடியவில்லை.",
+  "no-file-id.fix": "முழு Drive/Docs இணைப்பை ஒட்டுங்கள்.",
+  "no-shared-file":
+    "இது {provider} இணைப்பு போலத் தெரிகிறது, ஆனால் பகிரப்பட்ட கோப்பு எதுவும் கிடைக்கவில்லை.",
+  "no-shared-file.fix": "கோப்பின் பகிர்வு இணைப்பை ஒட்டுங்கள்.",
+  "folder-link":
+    "இது Google Drive கோப்புறை இணைப்பு, கோப்பு அல்ல. கோப்புறைகளை ஏற்றுமதி செய்ய முடியாது.",
+  "folder-link.fix":
+    "கோப்புறையைத் திறந்து அதிலுள்ள ஒரு கோப்பின் இணைப்பை நகலெடுங்கள்.",
+  "folder-link.shared-drive":
+    "இது Google Drive பகிர்ந்த இயக்ககத்தின் இணைப்பு, கோப்பு அல்ல. கோப்புறைகளை ஏற்றுமதி செய்ய முடியாது.",
+  "folder-link.shared-drive.fix":
+    "பகிர்ந்த இயக்ககத்தைத் திறந்து அதிலுள்ள ஒரு கோப்பின் இணைப்பை நகலெடுங்கள்.",
+  "unsupported-type": "இந்த வகை ஆதரிக்கப்படவில்லை.",
+  "invalid-url": "இது ஓர் இணைப்பு போலத் தெரியவில்லை.",
+  "invalid-url.fix": "https:// எனத் தொடங்கும் முழு முகவரியை ஒட்டுங்கள்.",
+  "unsafe-scheme":
+    "{scheme} இணைப்புகளை மாற்றவோ முன்னோட்டம் பார்க்கவோ முடியாது.",
+  "unsafe-scheme.fix": "கோப்பின் https:// பகிர்வு இணைப்பை ஒட்டுங்கள்.",
+  "no-preview": "இந்த இணைப்பில் முன்னோட்டம் பார்க்க எதுவும் இல்லை.",
+  "no-preview.fix": "அதற்குப் பதிலாக ஏற்றுமதி இணைப்பைத் திறக்கவும்.",
+  "preview-failed": "எந்த பார்வையாளராலும் இந்தக் கோப்பை ஏற்ற முடியவில்லை.",
+  "preview-failed.fix":
+    "இணைப்பு உள்ள எவருடனும் பகிரப்பட்டுள்ளதா எனச் சரிபார்க்கவும்.",
+
+  "type-mismatch": "இது {type} போலத் தெரிகிறது ({reason}).",
+  "type-mismatch.fix":
+    "இணைப்பு வேலை செய்யாவிட்டால் அந்த வகையையோ தானியங்கியையோ முயலுங்கள்.",
+  "original-format.doc":
+    "இது Drive கோப்பு, Google Doc அல்ல: அதன் அசல் வடிவத்திலேயே பதிவிறங்கும்.",
+  "original-format.doc.fix":
+    "வடிவ விருப்பங்கள் docs.google.com/document இணைப்புகளுக்கு மட்டுமே பொருந்தும்.",
+  "original-format.sheet":
+    "இது Drive கோப்பு, Google Sheet அல்ல: அதன் அசல் வடிவத்திலேயே பதிவிறங்கும்.",
+  "original-format.sheet.fix":
+    "வடிவ விருப்பங்கள் docs.google.com/spreadsheets இணைப்புகளுக்கு மட்டுமே பொருந்தும்.",
+  "single-slide": "பட ஏற்றுமதியில் முதல் ஸ்லைடு மட்டுமே இருக்கும்.",
+  "single-slide.fix":
+    "வேண்டிய ஸ்லைடைத் தேர்ந்தெடுத்த நிலையில் (#slide=id.…) இணைப்பை நகலெடுங்கள் அல்லது அதன் பக்க id-ஐ உள்ளிடுங்கள்.",
+  "single-tab": "{format} முதல் தாவலை மட்டுமே ஏற்றுமதி செய்யும்.",
+  "single-tab.fix":
+    "வேண்டிய தாவல் திறந்திருக்கும்போது இணைப்பை நகலெடுத்தால் அதுவே ஏற்றுமதியாகும்.",
+  "range-needs-gid": "வரம்பு ஒரு தாவலுக்கு மட்டுமே பொருந்தும்.",
+  "range-needs-gid.fix": "தாவலின் gid-ஐச் சேருங்கள்.",
+  "gid-ignored":
+    "{format} ஏற்றுமதியில் எல்லாத் தாவல்களும் இருக்கும்; gid CSV, TSV, PDF-ஐ மட்டுமே பாதிக்கும்.",
+  "media-playback.video":
+    "Drive வீடியோக்களின் நேரடி இயக்கம் CORS மற்றும் கோப்பு அனுமதிகளைப் பொறுத்தது.",
+  "media-playback.video.fix":
+    "இயங்கவில்லை என்றால் CDN-இல் வைக்கவும் அல்லது ஸ்ட்ரீமிங் சேவையகத்தைப் பயன்படுத்தவும்.",
+  "media-playback.audio":
+    "Drive ஆடியோவின் நேரடி இயக்கம் அனுமதிகள் மற்றும் உலாவி ஆதரவைப் பொறுத்தது.",
+  "published-link":
+    "இது இணையத்தில் வெளியிடப்பட்ட இணைப்பு (கோப்பு → பகிர் → இணையத்தில் வெளியிடு). Google வெளியிட்ட காட்சியை மட்டுமே தரும், கோப்புப் பதிவிறக்கத்தை அல்ல.",
+  "published-link.sheets":
+    "இது இணையத்தில் வெளியிடப்பட்ட இணைப்பு (கோப்பு → பகிர் → இணையத்தில் வெளியிடு).",
+  "folder-zip": "இது Dropbox கோப்புறை: இணைப்பு அதை ZIP ஆகப் பதிவிறக்கும்.",
+  "sharing-required.sharepoint":
+    "நிறுவனம் அநாமதேயப் பகிர்வை அனுமதித்தால் மட்டுமே SharePoint இணைப்புகள் பதிவிறங்கும்.",
+  "sharing-required.box":
+    'Box நேரடி இணைப்புகளுக்குப் பகிர்வு இணைப்பு "People with the link" என இருக்க வேண்டும்; சில திட்டங்களில் இவை முடக்கப்பட்டிருக்கும்.',
+  "insecure-http":
+    "இந்த இணைப்பு வெறும் http-ஐப் பயன்படுத்துகிறது: https பக்கங்களுக்குள் உலாவிகள் இதைத் தடுக்கும், இதில் மாற்றம் செய்யப்படலாம்.",
+  "insecure-http.fix":
+    "தளத்தில் இருந்தால் இணைப்பின் https:// பதிப்பைப் பயன்படுத்துங்கள்.",
+  "credentials-in-url":
+    "இணைப்பில் ஹோஸ்டுக்கு முன் பயனர் பெயர் அல்லது கடவுச்சொல் உள்ளது; உண்மையில் அது {host} க்குச் செல்கிறது.",
+  "credentials-in-url.fix": "அந்த ஹோஸ்டை நம்பினால் மட்டுமே பயன்படுத்துங்கள்.",
+
+  "not-google": "இது Google Drive இணைப்பு அல்ல. அப்படியே பயன்படுத்தப்படுகிறது.",
+  "provider-link": "{provider} பகிர்வு இணைப்பு நேரடி இணைப்பாக மாற்றப்பட்டது.",
+  "export-format": "ஏற்றுமதி URL {format} ஆகப் பதிவிறக்கும்.",
+  "export-format.html-zip":
+    "ஏற்றுமதி URL HTML பக்கமும் அதன் படங்களும் கொண்ட ZIP-ஐப் பதிவிறக்கும்.",
+  "export-format.drawing": "ஏற்றுமதி URL வரைபடத்தை {format} ஆகப் பதிவிறக்கும்.",
+  "export-format.published":
+    "ஏற்றுமதி URL வெளியிட்ட தரவை {format} ஆகப் பதிவிறக்கும்; PDF அமைப்பு விருப்பங்கள் பொருந்தாது.",
+  "preview-viewer.docs-viewer":
+    "முன்னோட்டம் Google Docs காட்டியைப் பயன்படுத்துகிறது.",
+  "preview-viewer.docs-viewer-public":
+    "முன்னோட்டம் Google Docs காட்டியைப் பயன்படுத்துகிறது; URL பொதுவில் அணுகக்கூடியதாக இருக்க வேண்டும்.",
+  "preview-viewer.office-public":
+    "முன்னோட்டம் Microsoft Office காட்டியைப் பயன்படுத்துகிறது; URL பொதுவில் அணுகக்கூடியதாக இருக்க வேண்டும்.",
+  "preview-viewer.slides":
+    "முன்னோட்டம் Google Slides உட்பொதிப்பைப் பயன்படுத்துகிறது.",
+  "preview-viewer.docs":
+    "முன்னோட்டம் Google Docs முன்னோட்டத்தைப் பயன்படுத்துகிறது.",
+  "preview-viewer.sheets":
+    "முன்னோட்டம் Google Sheets முன்னோட்டத்தைப் பயன்படுத்துகிறது.",
+  "preview-viewer.published-slides":
+    "முன்னோட்டம் வெளியிட்ட Slides உட்பொதிப்பைப் பயன்படுத்துகிறது.",
+  "preview-viewer.published-page":
+    "முன்னோட்டம் வெளியிட்ட பக்கத்தை உட்பொதிக்கிறது.",
+  "pick-viewer":
+    "PPT போன்ற முன்னோட்டம் வேண்டுமெனில் Microsoft காட்டியைத் தேர்ந்தெடுங்கள்.",
+  "preview-switched": "முன்னோட்டம் {viewer} க்கு மாற்றப்பட்டது.",
+  "all-slides":
+    "PDF-இல் எல்லா ஸ்லைடுகளும் இருக்கும்; Google ஏற்றுமதியில் பக்க வரம்பு விருப்பம் இல்லை.",
+  "all-slides.fix": "ஒரு ஸ்லைடுக்கு PNG/JPEG/SVG பயன்படுத்துங்கள்.",
+  "slide-page": "id {pageId} கொண்ட ஸ்லைடு மட்டுமே ஏற்றுமதியாகும்.",
+  "sheet-tabs": "gid={gid} கொண்ட தாவல் ஏற்றுமதியாகும்.",
+  "sheet-tabs.pdf": "PDF-இல் gid={gid} கொண்ட தாவல் உள்ளது.",
+  "sheet-tabs.pdf-all": "PDF-இல் எல்லாத் தாவல்களும் உள்ளன.",
+  "image-only":
+    "Drive கோப்பு உண்மையில் படமாக இருக்கும்போதுதான் இது நன்றாக வேலை செய்யும்.",
+  "image-only.fix":
+    "தோல்வியடைந்தால், கோப்பு படமாக இல்லாமல் இருக்கலாம் அல்லது பொதுவில் இல்லாமல் இருக்கலாம்.",
+  "form-link":
+    "Google Forms-ஐப் பதிவிறக்க முடியாது; இணைப்பு படிவத்தைத் திறக்கும்.",
+  "drawing-formats":
+    "வரைபடங்களை /export/svg, /export/jpeg, /export/pdf ஆகவும் ஏற்றுமதி செய்யலாம்.",
+  "large-file":
+    "பெரிய கோப்பு முறை: இணைப்பு drive.usercontent.google.com இலிருந்து confirm=t உடன் பதிவிறக்கி, ~100 MB-க்கு மேற்பட்ட கோப்புகளுக்கு Google காட்டும் வைரஸ் சோதனைப் பக்கத்தைத் தவிர்க்கும். இதன் விலை: Google இந்தப் பதிவிறக்கங்களை வைரஸ் சோதனை செய்யாது, இந்த URL வடிவம் ஆவணப்படுத்தப்படாதது, மாறக்கூடும்.",
+  "raw-text":
+    "raw.githubusercontent.com உரைக் கோப்புகளை வெற்று உரையாகத் தரும், எனவே HTML காட்டப்படாது.",
+  "resource-key":
+    "இணைப்பிலுள்ள resourcekey வைக்கப்பட்டது; பழைய பகிர்ந்த கோப்புகளுக்கு அது தேவை.",
+  "must-be-public": "இணைப்பு வேலை செய்ய கோப்பு பொதுவில் பகிரப்பட வேண்டும்.",
+  "must-be-public.share":
+    "கோப்பு பொதுவில் பகிரப்பட்டுள்ளதா என உறுதிசெய்யுங்கள் (இணைப்பு உள்ள எவரும் → பார்வையாளர்).",
+  "must-be-public.ppt":
+    "PPT முன்னோட்டத்திற்கு URL பொதுவில் அணுகக்கூடியதாக இருக்க வேண்டும்.",
+  "must-be-public.pdf":
+    "PDF தெரியவில்லை என்றால், இணைப்பு பொதுவானதா, நேரடி அணுகலை அனுமதிக்கிறதா எனச் சரிபாருங்கள்.",
+  "must-be-public.form":
+    "முன்னோட்டம் படிவத்தை உட்பொதிக்கிறது. இணைப்பு உள்ள எவரிடமிருந்தும் பதில்களை அது ஏற்க வேண்டும்.",
+  "must-be-public.github":
+    "தனிப்பட்ட களஞ்சியங்களுக்கு டோக்கன் தேவை; raw இணைப்பு பொதுக் களஞ்சியங்களுக்கு மட்டுமே வேலை செய்யும்.",
+};
@@ -0,0 +1,12 @@
+/**
+ * Registers public/sw.js (offline app shell). Production only: in dev the
+ * cache would serve stale modules over Vite's HMR.
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.warn("Service worker registration failed", err);
+    });
+  });
+}
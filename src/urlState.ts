@@ -0,0 +1,81 @@
+import {
+  extractLinks,
+  isFileType,
+  isViewerKind,
+  type FileTypeChoice,
+  type ViewerKind,
+} from "./lib";
+
+/**
+ * Page state <-> query string, so a converted link can be shared:
+ *   /?url=<link>&type=pdf&viewer=office
+ * Also handles the manifest shortcut (/?shortcut=convert), which opens
+ * the page with an empty, focused input, and the Web Share Target
+ * (/?share_url=…&share_text=…), which opens it with the shared link.
+ */
+
+export type UrlState = {
+  input?: string;
+  type?: FileTypeChoice;
+  viewer?: ViewerKind;
+  // Opened from the "Convert link" app shortcut
+  shortcut?: boolean;
+};
+
+// share_target params, in the order we look for a link. Apps put the link
+// in different fields; the Drive app on Android sends it as text.
+const SHARE_PARAMS = ["share_url", "share_text", "share_title"];
+
+// Params owned by the page; anything else in the query is left alone.
+// "ms" is the pre-viewer-chooser spelling of viewer=office.
+const PARAMS = ["url", "type", "viewer", "ms", "shortcut", ...SHARE_PARAMS];
+
+export function readUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search);
+  const state: UrlState = {};
+
+  const url = params.get("url");
+  if (url !== null) state.input = url;
+
+  const type = params.get("type");
+  if (type === "auto" || (type && isFileType(type))) state.type = type;
+
+  const viewer = params.get("viewer");
+  if (viewer && isViewerKind(viewer)) state.viewer = viewer;
+  else if (params.get("ms") === "1") state.viewer = "office";
+  if (params.get("shortcut") === "convert") state.shortcut = true;
+
+  const shared = SHARE_PARAMS.map((p) => params.get(p) ?? "").join("\n");
+  if (shared.trim()) state.input = extractLinks(shared)[0] ?? shared.trim();
+
+  return state;
+}
+
+export function buildUrlSearch(
+  current: string,
+  state: {
+    input: string;
+    type: FileTypeChoice;
+    viewer: ViewerKind | "auto";
+  },
+  defaults: { input: string; type: FileTypeChoice },
+): string {
+  const params = new URLSearchParams(current);
+  for (const p of PARAMS) params.delete(p);
+
+  // Leave defaults out so an untouched page keeps a clean address.
+  // An emptied input is kept (url=) so the sample link doesn't come back.
+  const input = state.input.trim();
+  if (input !== defaults.input) params.set("url", input);
+  if (state.type !== defaults.type) params.set("type", state.type);
+  if (state.viewer !== "auto") params.set("viewer", state.viewer);
+
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+export function writeUrlSearch(search: string) {
+  const { pathname, hash } = window.location;
+  if (search === window.location.search) return;
+  window.history.replaceState(window.history.state, "", pathname + search + hash);
+}
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ConvertResult, FileTypeChoice } from "./lib";
+import {
+  HISTORY_STORAGE_KEY,
+  loadHistory,
+  recordConversion,
+  removeEntry,
+  saveHistory,
+  updateEntry,
+  type HistoryEntry,
+  type HistoryOptions,
+} from "./history";
+
+// Reading window.localStorage itself throws when storage is blocked
+// (private mode, sandboxed iframes); history then lives in memory only
+function historyStorage(): Storage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+// localStorage-backed history, kept in sync across open tabs.
+export function useConversionHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>(() => {
+    const storage = historyStorage();
+    return storage ? loadHistory(storage) : [];
+  });
+  // Set by our own changes; entries loaded from storage aren't written back
+  const changed = useRef(false);
+
+  useEffect(() => {
+    function onStorage(e: StorageEvent) {
+      const storage = historyStorage();
+      if (storage && e.key === HISTORY_STORAGE_KEY) {
+        setEntries(loadHistory(storage));
+      }
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  useEffect(() => {
+    if (!changed.current) return;
+    changed.current = false;
+    const storage = historyStorage();
+    if (storage) saveHistory(storage, entries);
+  }, [entries]);
+
+  const commit = useCallback(
+    (update: (entries: HistoryEntry[]) => HistoryEntry[]) => {
+      changed.current = true;
+      setEntries(update);
+    },
+    [],
+  );
+
+  const record = useCallback(
+    (
+      input: string,
+      choice: FileTypeChoice,
+      result: ConvertResult,
+      options?: HistoryOptions,
+    ) =>
+      commit((prev) => recordConversion(prev, input, choice, result, options)),
+    [commit],
+  );
+
+  const update = useCallback(
+    (id: string, patch: Partial<Pick<HistoryEntry, "pinned" | "label">>) =>
+      commit((prev) => updateEntry(prev, id, patch)),
+    [commit],
+  );
+
+  const remove = useCallback(
+    (id: string) => commit((prev) => removeEntry(prev, id)),
+    [commit],
+  );
+
+  return { entries, record, update, remove };
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef } from "react";
+import { extractLinks } from "./lib";
+
+// How often "watch clipboard" polls while the page has focus
+const WATCH_INTERVAL_MS = 1500;
+
+function isEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+// Alt+Shift+V: convert whatever link is on the clipboard
+export function isPasteShortcut(e: KeyboardEvent) {
+  return e.altKey && e.shiftKey && e.code === "KeyV";
+}
+
+/**
+ * Paste-to-convert: a paste outside the text fields, the Alt+Shift+V
+ * shortcut, or (when `watch` is on) a new link on the clipboard calls
+ * onLink with the first link found. onLink returns the text it copied back
+ * so the watcher doesn't pick up its own output.
+ */
+export function usePasteToConvert(
+  onLink: (link: string) => Promise<string | null>,
+  watch: boolean,
+) {
+  // Last clipboard text seen or written by us
+  const lastSeen = useRef<string | null>(null);
+  const handler = useRef(onLink);
+  useEffect(() => {
+    handler.current = onLink;
+  }, [onLink]);
+
+  useEffect(() => {
+    async function handle(text: string) {
+      lastSeen.current = text;
+      const link = extractLinks(text)[0];
+      if (!link) return;
+      const copied = await handler.current(link);
+      if (copied) lastSeen.current = copied;
+    }
+
+    function onPaste(e: ClipboardEvent) {
+      if (isEditable(e.target)) return;
+      const text = e.clipboardData?.getData("text/plain");
+      if (!text) return;
+      e.preventDefault();
+      void handle(text);
+    }
+
+    async function onKeyDown(e: KeyboardEvent) {
+      if (!isPasteShortcut(e)) return;
+      e.preventDefault();
+      try {
+        await handle(await navigator.clipboard.readText());
+      } catch {
+        // Clipboard read denied: nothing to convert
+      }
+    }
+
+    document.addEventListener("paste", onPaste);
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("paste", onPaste);
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!watch || !navigator.clipboard?.readText) return;
+
+    let busy = false;
+    const t = window.setInterval(async () => {
+      // readText() rejects unless the document is focused
+      if (busy || !document.hasFocus()) return;
+      busy = true;
+      try {
+        const text = await navigator.clipboard.readText();
+        if (text && text !== lastSeen.current) {
+          lastSeen.current = text;
+          const link = extractLinks(text)[0];
+          const copied = link ? await handler.current(link) : null;
+          if (copied) lastSeen.current = copied;
+        }
+      } catch {
+        // Permission denied or not focused; try again next tick
+      } finally {
+        busy = false;
+      }
+    }, WATCH_INTERVAL_MS);
+    return () => window.clearInterval(t);
+  }, [watch]);
+}
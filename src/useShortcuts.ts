@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+
+export type Shortcut = "copy" | "reset";
+
+// Alt+Shift+<key>, like paste-to-convert's Alt+Shift+V (usePasteToConvert)
+const SHORTCUT_CODES: Record<Shortcut, string> = {
+  copy: "KeyC",
+  reset: "KeyR",
+};
+
+// For aria-keyshortcuts and tooltips
+export const SHORTCUT_KEYS: Record<Shortcut, string> = {
+  copy: "Alt+Shift+C",
+  reset: "Alt+Shift+R",
+};
+
+export function matchShortcut(e: KeyboardEvent): Shortcut | null {
+  if (!e.altKey || !e.shiftKey || e.ctrlKey || e.metaKey) return null;
+  const entry = Object.entries(SHORTCUT_CODES).find(([, code]) => {
+    return code === e.code;
+  });
+  return entry ? (entry[0] as Shortcut) : null;
+}
+
+/**
+ * Page-wide keyboard shortcuts. They work from inside the text fields
+ * too: Alt+Shift combinations don't type anything we need there.
+ */
+export function useShortcuts(handlers: Record<Shortcut, () => void>) {
+  const current = useRef(handlers);
+  useEffect(() => {
+    current.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      const shortcut = matchShortcut(e);
+      if (!shortcut) return;
+      e.preventDefault();
+      current.current[shortcut]();
+    }
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+}
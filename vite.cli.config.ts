@@ -0,0 +1,13 @@
+import { defineConfig } from "vite";
+// Builds the drive-link CLI (cli/drive-link.ts) into a single Node ESM file
+export default defineConfig({
+  build: {
+    ssr: "cli/drive-link.ts",
+    outDir: "dist-cli",
+    copyPublicDir: false,
+    target: "node20",
+    rollupOptions: {
+      output: { banner: "#!/usr/bin/env node" },
+    },
+  },
+});
@@ -1,7 +1,13 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react(), tailwindcss()],
+  test: {
+    // Library tests run in Node; component tests opt into jsdom per file
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}", "cli/**/*.test.ts"],
+  },
 });
@@ -0,0 +1,22 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+// Builds the embeds for other apps into dist-embed: drive-embed.js
+// registers <drive-embed>; drive-embed-react.js exports <DriveEmbed>
+// with React left to the host app
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: "dist-embed",
+    copyPublicDir: false,
+    lib: {
+      entry: {
+        "drive-embed": "src/driveEmbedElement.ts",
+        "drive-embed-react": "src/DriveEmbed.tsx",
+      },
+      formats: ["es"],
+    },
+    rollupOptions: {
+      external: ["react", "react-dom", "react/jsx-runtime"],
+    },
+  },
+});